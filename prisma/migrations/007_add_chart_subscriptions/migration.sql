@@ -0,0 +1,45 @@
+-- CreateTable
+CREATE TABLE "ChartSubscription" (
+    "id" SERIAL NOT NULL,
+    "targetChatId" INTEGER NOT NULL,
+    "endpoint" TEXT NOT NULL DEFAULT 'trafficCountries',
+    "dateRange" "RadarDateRange",
+    "location" TEXT,
+    "intervalMinutes" INTEGER NOT NULL DEFAULT 60,
+    "isEnabled" BOOLEAN NOT NULL DEFAULT true,
+    "lastSentAt" TIMESTAMP(3),
+    "nextRetryAt" TIMESTAMP(3),
+    "failCount" INTEGER NOT NULL DEFAULT 0,
+    "retryCount" INTEGER NOT NULL DEFAULT 0,
+    "inProgressUntil" TIMESTAMP(3),
+    "createdAt" TIMESTAMP(3) NOT NULL DEFAULT CURRENT_TIMESTAMP,
+    "updatedAt" TIMESTAMP(3) NOT NULL,
+
+    CONSTRAINT "ChartSubscription_pkey" PRIMARY KEY ("id")
+);
+
+-- CreateIndex
+CREATE INDEX "ChartSubscription_targetChatId_idx" ON "ChartSubscription"("targetChatId");
+
+-- AddForeignKey
+ALTER TABLE "ChartSubscription" ADD CONSTRAINT "ChartSubscription_targetChatId_fkey" FOREIGN KEY ("targetChatId") REFERENCES "TargetChat"("id") ON DELETE CASCADE ON UPDATE CASCADE;
+
+-- MigrateData
+INSERT INTO "ChartSubscription" ("targetChatId", "intervalMinutes", "lastSentAt", "nextRetryAt", "failCount", "retryCount", "inProgressUntil", "createdAt", "updatedAt")
+SELECT "targetChatId", "intervalMinutes", "lastSentAt", "nextRetryAt", "failCount", "retryCount", "inProgressUntil", "createdAt", "updatedAt"
+FROM "TargetSchedule";
+
+-- DropTable
+DROP TABLE "TargetSchedule";
+
+-- AlterTable
+ALTER TABLE "SendLog" ADD COLUMN     "subscriptionId" INTEGER;
+
+-- AddForeignKey
+ALTER TABLE "SendLog" ADD CONSTRAINT "SendLog_subscriptionId_fkey" FOREIGN KEY ("subscriptionId") REFERENCES "ChartSubscription"("id") ON DELETE SET NULL ON UPDATE CASCADE;
+
+-- AlterTable
+ALTER TABLE "User" ADD COLUMN     "selectedSubscriptionId" INTEGER;
+
+-- AddForeignKey
+ALTER TABLE "User" ADD CONSTRAINT "User_selectedSubscriptionId_fkey" FOREIGN KEY ("selectedSubscriptionId") REFERENCES "ChartSubscription"("id") ON DELETE SET NULL ON UPDATE CASCADE;
@@ -0,0 +1,2 @@
+-- AlterTable
+ALTER TABLE "TargetChat" ADD COLUMN     "location" TEXT;
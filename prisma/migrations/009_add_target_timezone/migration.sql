@@ -0,0 +1,2 @@
+-- AlterTable
+ALTER TABLE "TargetChat" ADD COLUMN     "timezone" TEXT;
@@ -0,0 +1,2 @@
+-- AlterTable
+ALTER TABLE "ChartSubscription" ADD COLUMN     "comparePrevious" BOOLEAN NOT NULL DEFAULT false;
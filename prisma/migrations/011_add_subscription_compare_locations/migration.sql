@@ -0,0 +1,2 @@
+-- AlterTable
+ALTER TABLE "ChartSubscription" ADD COLUMN     "compareLocations" TEXT[] DEFAULT ARRAY[]::TEXT[];
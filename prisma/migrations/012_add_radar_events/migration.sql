@@ -0,0 +1,21 @@
+-- AlterTable
+ALTER TABLE "TargetChat" ADD COLUMN     "outageAlertsEnabled" BOOLEAN NOT NULL DEFAULT true;
+
+-- CreateTable
+CREATE TABLE "RadarEvent" (
+    "id" SERIAL NOT NULL,
+    "externalId" TEXT NOT NULL,
+    "source" TEXT NOT NULL,
+    "eventType" TEXT,
+    "locations" TEXT[] DEFAULT ARRAY[]::TEXT[],
+    "description" TEXT,
+    "startDate" TIMESTAMP(3),
+    "endDate" TIMESTAMP(3),
+    "alertedAt" TIMESTAMP(3),
+    "firstSeenAt" TIMESTAMP(3) NOT NULL DEFAULT CURRENT_TIMESTAMP,
+
+    CONSTRAINT "RadarEvent_pkey" PRIMARY KEY ("id")
+);
+
+-- CreateIndex
+CREATE UNIQUE INDEX "RadarEvent_externalId_key" ON "RadarEvent"("externalId");
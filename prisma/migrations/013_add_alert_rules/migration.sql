@@ -0,0 +1,30 @@
+-- CreateEnum
+CREATE TYPE "AlertMetric" AS ENUM ('VALUE', 'RANK');
+
+-- CreateEnum
+CREATE TYPE "AlertOperator" AS ENUM ('LT', 'GT');
+
+-- CreateTable
+CREATE TABLE "AlertRule" (
+    "id" SERIAL NOT NULL,
+    "targetChatId" INTEGER NOT NULL,
+    "endpoint" TEXT NOT NULL,
+    "label" TEXT NOT NULL,
+    "metric" "AlertMetric" NOT NULL,
+    "operator" "AlertOperator" NOT NULL,
+    "threshold" DOUBLE PRECISION NOT NULL,
+    "hysteresis" DOUBLE PRECISION NOT NULL DEFAULT 0,
+    "isTripped" BOOLEAN NOT NULL DEFAULT false,
+    "lastValue" DOUBLE PRECISION,
+    "lastChangedAt" TIMESTAMP(3),
+    "createdAt" TIMESTAMP(3) NOT NULL DEFAULT CURRENT_TIMESTAMP,
+    "updatedAt" TIMESTAMP(3) NOT NULL,
+
+    CONSTRAINT "AlertRule_pkey" PRIMARY KEY ("id")
+);
+
+-- CreateIndex
+CREATE INDEX "AlertRule_targetChatId_idx" ON "AlertRule"("targetChatId");
+
+-- AddForeignKey
+ALTER TABLE "AlertRule" ADD CONSTRAINT "AlertRule_targetChatId_fkey" FOREIGN KEY ("targetChatId") REFERENCES "TargetChat"("id") ON DELETE CASCADE ON UPDATE CASCADE;
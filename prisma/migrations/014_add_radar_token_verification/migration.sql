@@ -0,0 +1,5 @@
+-- AlterTable
+ALTER TABLE "User" ADD COLUMN     "radarTokenCheckedAt" TIMESTAMP(3),
+ADD COLUMN     "radarTokenExpiresAt" TIMESTAMP(3),
+ADD COLUMN     "radarTokenStatus" TEXT,
+ADD COLUMN     "radarTokenWarnedAt" TIMESTAMP(3);
@@ -0,0 +1,40 @@
+-- CreateTable
+CREATE TABLE "RadarToken" (
+    "id" SERIAL NOT NULL,
+    "userId" INTEGER NOT NULL,
+    "label" TEXT NOT NULL,
+    "token" TEXT NOT NULL,
+    "status" TEXT,
+    "expiresAt" TIMESTAMP(3),
+    "checkedAt" TIMESTAMP(3),
+    "warnedAt" TIMESTAMP(3),
+    "createdAt" TIMESTAMP(3) NOT NULL DEFAULT CURRENT_TIMESTAMP,
+    "updatedAt" TIMESTAMP(3) NOT NULL,
+
+    CONSTRAINT "RadarToken_pkey" PRIMARY KEY ("id")
+);
+
+-- CreateIndex
+CREATE UNIQUE INDEX "RadarToken_userId_label_key" ON "RadarToken"("userId", "label");
+
+-- AddForeignKey
+ALTER TABLE "RadarToken" ADD CONSTRAINT "RadarToken_userId_fkey" FOREIGN KEY ("userId") REFERENCES "User"("id") ON DELETE CASCADE ON UPDATE CASCADE;
+
+-- MigrateData
+INSERT INTO "RadarToken" ("userId", "label", "token", "status", "expiresAt", "checkedAt", "warnedAt", "createdAt", "updatedAt")
+SELECT "id", 'default', "radarApiToken", "radarTokenStatus", "radarTokenExpiresAt", "radarTokenCheckedAt", "radarTokenWarnedAt", "updatedAt", "updatedAt"
+FROM "User"
+WHERE "radarApiToken" IS NOT NULL;
+
+-- AlterTable
+ALTER TABLE "User" DROP COLUMN "radarApiToken",
+DROP COLUMN "radarTokenCheckedAt",
+DROP COLUMN "radarTokenExpiresAt",
+DROP COLUMN "radarTokenStatus",
+DROP COLUMN "radarTokenWarnedAt";
+
+-- AlterTable
+ALTER TABLE "TargetChat" ADD COLUMN     "radarTokenId" INTEGER;
+
+-- AddForeignKey
+ALTER TABLE "TargetChat" ADD CONSTRAINT "TargetChat_radarTokenId_fkey" FOREIGN KEY ("radarTokenId") REFERENCES "RadarToken"("id") ON DELETE SET NULL ON UPDATE CASCADE;
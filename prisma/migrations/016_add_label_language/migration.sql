@@ -0,0 +1,8 @@
+-- CreateEnum
+CREATE TYPE "LabelLanguage" AS ENUM ('FA', 'EN');
+
+-- AlterTable
+ALTER TABLE "User" ADD COLUMN     "labelLanguage" "LabelLanguage" NOT NULL DEFAULT 'FA';
+
+-- AlterTable
+ALTER TABLE "TargetChat" ADD COLUMN     "labelLanguage" "LabelLanguage";
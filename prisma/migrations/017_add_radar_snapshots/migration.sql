@@ -0,0 +1,22 @@
+-- CreateTable
+CREATE TABLE "RadarSnapshot" (
+    "id" SERIAL NOT NULL,
+    "endpoint" TEXT NOT NULL,
+    "path" TEXT NOT NULL,
+    "location" TEXT,
+    "params" JSONB NOT NULL,
+    "source" TEXT NOT NULL,
+    "rangeWindow" TEXT NOT NULL DEFAULT 'current',
+    "dateRangePreset" "RadarDateRange" NOT NULL,
+    "kind" TEXT NOT NULL,
+    "labelType" TEXT,
+    "aggInterval" TEXT,
+    "labels" TEXT[] DEFAULT ARRAY[]::TEXT[],
+    "values" DOUBLE PRECISION[] DEFAULT ARRAY[]::DOUBLE PRECISION[],
+    "fetchedAt" TIMESTAMP(3) NOT NULL DEFAULT CURRENT_TIMESTAMP,
+
+    CONSTRAINT "RadarSnapshot_pkey" PRIMARY KEY ("id")
+);
+
+-- CreateIndex
+CREATE INDEX "RadarSnapshot_endpoint_location_fetchedAt_idx" ON "RadarSnapshot"("endpoint", "location", "fetchedAt");
@@ -0,0 +1,8 @@
+-- CreateEnum
+CREATE TYPE "TrendBucket" AS ENUM ('DAY', 'WEEK');
+
+-- AlterTable
+ALTER TABLE "ChartSubscription" ADD COLUMN     "trendBucket" "TrendBucket" NOT NULL DEFAULT 'DAY',
+ADD COLUMN     "trendDays" INTEGER NOT NULL DEFAULT 90,
+ADD COLUMN     "trendLabel" TEXT,
+ADD COLUMN     "trendMetric" "AlertMetric" NOT NULL DEFAULT 'VALUE';
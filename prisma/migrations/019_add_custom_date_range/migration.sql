@@ -0,0 +1,5 @@
+-- AlterTable
+ALTER TABLE "User" ADD COLUMN     "radarCustomRange" TEXT;
+
+-- AlterTable
+ALTER TABLE "TargetChat" ADD COLUMN     "radarCustomRange" TEXT;
@@ -0,0 +1,9 @@
+-- CreateEnum
+CREATE TYPE "ChartStyle" AS ENUM ('BAR', 'MAP');
+
+-- CreateEnum
+CREATE TYPE "MapRegion" AS ENUM ('WORLD', 'EUROPE', 'MIDDLE_EAST', 'ASIA', 'AFRICA', 'AMERICAS');
+
+-- AlterTable
+ALTER TABLE "ChartSubscription" ADD COLUMN     "chartStyle" "ChartStyle" NOT NULL DEFAULT 'BAR',
+ADD COLUMN     "mapRegion" "MapRegion" NOT NULL DEFAULT 'WORLD';
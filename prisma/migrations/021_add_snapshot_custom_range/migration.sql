@@ -0,0 +1,2 @@
+-- AlterTable
+ALTER TABLE "RadarSnapshot" ADD COLUMN     "customRange" BOOLEAN NOT NULL DEFAULT false;
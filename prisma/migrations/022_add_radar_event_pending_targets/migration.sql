@@ -0,0 +1,2 @@
+-- AlterTable
+ALTER TABLE "RadarEvent" ADD COLUMN     "pendingTargetIds" INTEGER[] DEFAULT ARRAY[]::INTEGER[];
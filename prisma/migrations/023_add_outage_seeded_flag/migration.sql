@@ -0,0 +1,5 @@
+-- AlterTable
+ALTER TABLE "AppSetting" ADD COLUMN     "outageEventsSeededAt" TIMESTAMP(3);
+
+-- Existing installs have already been alerting on events they stored
+UPDATE "AppSetting" SET "outageEventsSeededAt" = CURRENT_TIMESTAMP WHERE EXISTS (SELECT 1 FROM "RadarEvent");
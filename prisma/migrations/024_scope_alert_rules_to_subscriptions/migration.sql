@@ -0,0 +1,16 @@
+-- AlterTable
+ALTER TABLE "AlertRule" ADD COLUMN     "location" TEXT,
+ADD COLUMN     "subscriptionId" INTEGER;
+
+-- Attach existing rules to the oldest chart of their target on the same endpoint
+UPDATE "AlertRule" AS rule SET "subscriptionId" = (
+    SELECT sub."id" FROM "ChartSubscription" AS sub
+    WHERE sub."targetChatId" = rule."targetChatId" AND sub."endpoint" = rule."endpoint"
+    ORDER BY sub."createdAt" ASC LIMIT 1
+);
+
+-- CreateIndex
+CREATE INDEX "AlertRule_subscriptionId_idx" ON "AlertRule"("subscriptionId");
+
+-- AddForeignKey
+ALTER TABLE "AlertRule" ADD CONSTRAINT "AlertRule_subscriptionId_fkey" FOREIGN KEY ("subscriptionId") REFERENCES "ChartSubscription"("id") ON DELETE CASCADE ON UPDATE CASCADE;
@@ -0,0 +1,135 @@
+import type { AlertMetric, AlertOperator, AlertRule } from "@prisma/client";
+import type { RadarChartData } from "../radar/fetch.js";
+import { findLabelIndex } from "../radar/countries.js";
+import type { RadarEndpointDefinition } from "../radar/endpoints.js";
+
+export type AlertRuleDefinition = Pick<AlertRule, "label" | "metric" | "operator" | "threshold" | "hysteresis">;
+
+export type AlertRuleState = AlertRuleDefinition & Pick<AlertRule, "isTripped">;
+
+export type AlertTransition = "tripped" | "cleared";
+
+export type AlertRuleIssue = "rank_on_timeseries";
+
+export type AlertRuleEvaluation = {
+  value: number | null;
+  isTripped: boolean;
+  transition: AlertTransition | null;
+};
+
+const METRIC_INPUTS: Record<string, AlertMetric> = {
+  value: "VALUE",
+  مقدار: "VALUE",
+  rank: "RANK",
+  رتبه: "RANK",
+};
+
+const OPERATOR_INPUTS: Record<string, AlertOperator> = {
+  "<": "LT",
+  ">": "GT",
+};
+
+const MISSING_RANK = Number.POSITIVE_INFINITY;
+
+export const parseAlertMetricInput = (input: string): AlertMetric | null => METRIC_INPUTS[input.toLowerCase()] ?? null;
+
+export const parseAlertRuleInput = (text: string): AlertRuleDefinition | null => {
+  const parts = text.trim().split(/\s+/);
+  if (parts.length < 4 || parts.length > 5) {
+    return null;
+  }
+  const [label, metricInput, operatorInput, thresholdInput, hysteresisInput] = parts;
+  const metric = parseAlertMetricInput(metricInput);
+  const operator = OPERATOR_INPUTS[operatorInput];
+  const threshold = Number(thresholdInput);
+  const hysteresis = hysteresisInput === undefined ? 0 : Number(hysteresisInput);
+  if (!metric || !operator || !Number.isFinite(threshold) || !Number.isFinite(hysteresis) || hysteresis < 0) {
+    return null;
+  }
+  if (metric === "RANK" && (!Number.isInteger(threshold) || threshold < 1)) {
+    return null;
+  }
+  return { label: label.toUpperCase(), metric, operator, threshold, hysteresis };
+};
+
+export const validateAlertRuleForEndpoint = (
+  rule: Pick<AlertRuleDefinition, "metric">,
+  endpoint: Pick<RadarEndpointDefinition, "resultShape">
+): AlertRuleIssue | null => (rule.metric === "RANK" && endpoint.resultShape === "timeseries" ? "rank_on_timeseries" : null);
+
+export const selectAlertRuleData = (
+  rule: Pick<AlertRule, "location">,
+  datasets: RadarChartData[]
+): RadarChartData | null => {
+  const current = datasets.filter((data) => (data.window ?? "current") === "current");
+  if (!rule.location) {
+    return current[0] ?? null;
+  }
+  const location = rule.location.toUpperCase();
+  return current.find((data) => String(data.params.location ?? "").toUpperCase() === location) ?? null;
+};
+
+export const resolveAlertMetric = (rule: AlertRuleDefinition, data: RadarChartData): number | null => {
+  if (data.kind === "timeseries") {
+    if (rule.metric === "RANK") {
+      return null;
+    }
+    const last = data.values[data.values.length - 1];
+    return Number.isFinite(last) ? last : null;
+  }
+  const index = findLabelIndex(data.labels, rule.label);
+  if (rule.metric === "RANK") {
+    return index === -1 ? MISSING_RANK : index + 1;
+  }
+  return index === -1 ? null : data.values[index];
+};
+
+const isConditionMet = (rule: AlertRuleDefinition, value: number): boolean =>
+  rule.operator === "LT" ? value < rule.threshold : value > rule.threshold;
+
+const isClearConditionMet = (rule: AlertRuleDefinition, value: number): boolean =>
+  rule.operator === "LT" ? value >= rule.threshold + rule.hysteresis : value <= rule.threshold - rule.hysteresis;
+
+export const evaluateAlertRule = (rule: AlertRuleState, data: RadarChartData): AlertRuleEvaluation => {
+  const value = resolveAlertMetric(rule, data);
+  if (value === null) {
+    return { value, isTripped: rule.isTripped, transition: null };
+  }
+  if (!rule.isTripped && isConditionMet(rule, value)) {
+    return { value, isTripped: true, transition: "tripped" };
+  }
+  if (rule.isTripped && isClearConditionMet(rule, value)) {
+    return { value, isTripped: false, transition: "cleared" };
+  }
+  return { value, isTripped: rule.isTripped, transition: null };
+};
+
+export const formatAlertRule = (rule: AlertRuleDefinition): string => {
+  const metric = rule.metric === "RANK" ? "رتبه" : "مقدار";
+  const operator = rule.operator === "LT" ? "<" : ">";
+  const hysteresis = rule.hysteresis ? ` (هیسترزیس ${rule.hysteresis})` : "";
+  return `${rule.label} ${metric} ${operator} ${rule.threshold}${hysteresis}`;
+};
+
+const formatMetricValue = (rule: AlertRuleDefinition, value: number | null): string => {
+  if (value === null) {
+    return "-";
+  }
+  if (rule.metric === "RANK") {
+    return Number.isFinite(value) ? `#${value}` : "خارج از لیست";
+  }
+  return Number.isInteger(value) ? String(value) : value.toFixed(2);
+};
+
+export const formatAlertTransition = (
+  rule: AlertRuleDefinition,
+  evaluation: AlertRuleEvaluation,
+  chartLabel: string
+): string => {
+  const heading = evaluation.transition === "tripped" ? "⚠️ هشدار فعال شد" : "✅ هشدار برطرف شد";
+  return [
+    `${heading} — ${chartLabel}`,
+    `قانون: ${formatAlertRule(rule)}`,
+    `مقدار فعلی: ${formatMetricValue(rule, evaluation.value)}`,
+  ].join("\n");
+};
@@ -1,66 +1,75 @@
 import { Bot, InputFile, session } from "grammy";
 import type { Context } from "grammy";
-import type { PrismaClient } from "@prisma/client";
+import type { PrismaClient, TargetChat, User } from "@prisma/client";
 import type { EnvConfig } from "./config.js";
-import { generateRadarChartPng, ChartRenderError } from "./radar/generate.js";
+import { chartRenderCache, generateRadarChartPng, ChartRenderError } from "./radar/generate.js";
+import { getChartRendererStatus, type ChartRendererStatus } from "./radar/chartRenderer.js";
+import { formatCacheHitRatio, type TtlCacheStats } from "./radar/cache.js";
+import { radarRateLimiter, type RateLimitBucketSnapshot } from "./radar/rateLimiter.js";
+import { prepareSubscriptionChart, type PreparedRadarChart } from "./radar/subscriptionChart.js";
+import { listPublicContracts, type RadarPublicContract } from "./radar/publicContract.js";
+import { parseTrendInput, prepareTrendChart, RadarTrendError } from "./radar/trend.js";
+import { buildRadarExport, type RadarExportRecord, type RadarExportRequest } from "./radar/export.js";
 import {
-  fetchRadarData,
   diagnoseRadar,
+  radarResponseCache,
   RadarFetchError,
   type RadarFetchConfig,
   type RadarMode,
-  type RadarChartData,
+  type RadarTokenCandidate,
   type RadarDiagnostics,
 } from "./radar/fetch.js";
 import { RadarConfigError } from "./radar/endpoints.js";
 import { registerMenuHandlers, type SessionData } from "./ui/menus.js";
 import { logError, logInfo, logWarn } from "./logger.js";
-import { getRadarSettings } from "./db/settings.js";
+import { getRadarSettings, resolveCustomRangeSetting, resolveLabelLanguage } from "./db/settings.js";
+import { orderRadarTokenCandidates } from "./db/radarTokens.js";
+import { buildTokenEncryptionUserMessage, getTokenKeyId, TokenEncryptionError } from "./db/tokenCrypto.js";
+import { resolveSelectedSubscription } from "./db/subscriptions.js";
+import { listTargetSnapshots, recordRadarSnapshots, snapshotToChartData } from "./db/snapshots.js";
 import type { RadarDateRangePreset } from "./radar/dateRange.js";
-import { isRadarTokenValidFormat } from "./radar/client.js";
+import type { LabelLanguage } from "./radar/countries.js";
+import { formatTokenVerification, verifyRadarToken } from "./radar/tokenVerify.js";
 
 export type BotState = {
   lastSendByUserId: Map<number, number>;
   lastRadarSourceByUserId: Map<number, "public" | "token">;
   inFlightByUserId: Map<number, boolean>;
-};
-
-const formatTimestamp = (timezone: string): string => {
-  const formatter = new Intl.DateTimeFormat("en-GB", {
-    timeZone: timezone,
-    year: "numeric",
-    month: "2-digit",
-    day: "2-digit",
-    hour: "2-digit",
-    minute: "2-digit",
-    hour12: false,
-  });
-  return formatter.format(new Date()).replace(",", "");
+  lastChartByUserId: Map<number, RadarExportRecord[]>;
 };
 
 const resolveRadarFetchConfig = async (
   prisma: PrismaClient,
   config: EnvConfig,
-  userId?: number
+  userId?: number,
+  target?: Pick<TargetChat, "id" | "radarTokenId" | "labelLanguage" | "radarCustomRange"> | null
 ): Promise<{
   fetchConfig: RadarFetchConfig;
   mode: RadarMode;
-  token: string | null;
+  tokens: RadarTokenCandidate[];
   dateRangePreset: RadarDateRangePreset;
+  labelLanguage: LabelLanguage;
 }> => {
   const settings = await getRadarSettings(prisma, userId);
   const mode = settings.radarMode ?? config.radar.mode;
-  const token = settings.radarApiToken ?? config.radar.apiToken;
+  const tokens = orderRadarTokenCandidates(settings.radarTokens, {
+    preferredTokenId: target?.radarTokenId,
+    rotationSeed: target?.id,
+    fallbackToken: settings.radarApiToken ?? config.radar.apiToken,
+  });
   const dateRangePreset = settings.radarDateRange ?? "D7";
   return {
     mode,
-    token,
+    tokens,
     dateRangePreset,
+    labelLanguage: resolveLabelLanguage(target, settings.labelLanguage),
     fetchConfig: {
       mode,
-      token,
+      tokens,
       timeoutMs: config.radar.httpTimeoutMs,
+      retry: { retryMax: config.radar.retryMax, retryBaseDelayMs: config.radar.retryBaseDelayMs },
       dateRangePreset,
+      customRange: resolveCustomRangeSetting(target, settings.radarCustomRange),
     },
   };
 };
@@ -82,6 +91,9 @@ const buildRadarErrorMeta = (error: unknown) => {
     params: error.params,
     status: error.status,
     radarErrorCode: error.code,
+    schemaPath: error.schemaPath,
+    retryCount: error.retryCount,
+    attempts: error.attempts,
     responseBodyShort,
   };
 };
@@ -91,6 +103,10 @@ const buildUserFacingError = (error: unknown, mode?: RadarMode): string => {
     return "خطای تنظیمات درخواست (400). کد خطا: RADAR_400";
   }
 
+  if (error instanceof TokenEncryptionError) {
+    return buildTokenEncryptionUserMessage(error);
+  }
+
   if (error instanceof RadarFetchError) {
     if (error.code === "RADAR_ROUTE_INVALID") {
       return "مسیر API اشتباه است (RADAR_ROUTE_INVALID). در حال اصلاح.";
@@ -118,11 +134,24 @@ const buildUserFacingError = (error: unknown, mode?: RadarMode): string => {
       case "RADAR_INVALID_DATA":
       case "RADAR_EMPTY_DATA":
         return `دیتای معتبر دریافت نشد. کد خطا: ${code}`;
+      case "RADAR_SCHEMA_MISMATCH":
+        return "ساختار پاسخ Radar تغییر کرده و چارت ساخته نشد. کد خطا: RADAR_SCHEMA_MISMATCH";
       default:
         return `دریافت دیتا ناموفق بود. کد خطا: ${code}`;
     }
   }
 
+  if (error instanceof RadarTrendError) {
+    switch (error.code) {
+      case "TREND_NO_HISTORY":
+        return "هنوز تاریخچه‌ای برای این روند ذخیره نشده. بعد از چند ارسال دوباره امتحان کن.";
+      case "TREND_CUSTOM_RANGE":
+        return "روند فقط از ارسال‌های با بازه آماده (مثلاً ۷ روز اخیر) ساخته می‌شه و بازه فعلی دلخواهه. برای روند یه بازه آماده انتخاب کن.";
+      default:
+        return "روند تاریخی فقط برای چارت‌های غیر سری زمانی در دسترسه.";
+    }
+  }
+
   if (error instanceof ChartRenderError) {
     if (error.code === "CHART_RENDER_FAILED") {
       return "دیتا اومد ولی ساخت چارت خطا داد.";
@@ -133,6 +162,36 @@ const buildUserFacingError = (error: unknown, mode?: RadarMode): string => {
   return "یک خطای غیرمنتظره رخ داد. دوباره تلاش کن.";
 };
 
+const formatChartRendererLine = (status: ChartRendererStatus) => {
+  const fallback = status.renderer !== "local" && status.fallbackToLocal ? " (پشتیبان: local)" : "";
+  return `رندر چارت: ${status.renderer}${fallback} - آخرین رندر: ${status.lastUsed ?? "نامشخص"}`;
+};
+
+const formatTokenEncryptionLine = (keyId: string | null) =>
+  keyId
+    ? `رمزنگاری توکن: فعال (کلید ${keyId})`
+    : "رمزنگاری توکن: TOKEN_ENCRYPTION_KEY تنظیم نشده - ثبت توکن جدید مسدوده (TOKEN_KEY_MISSING)";
+
+const formatCacheStatsLine = (title: string, stats: TtlCacheStats) =>
+  `${title}: hit ratio ${formatCacheHitRatio(stats)} (hits=${stats.hits} shared=${stats.inFlightHits} misses=${stats.misses} size=${stats.size} ttl=${Math.round(stats.ttlMs / 1000)}s)`;
+
+const formatRateLimitLines = (buckets: RateLimitBucketSnapshot[]) =>
+  buckets.length
+    ? buckets.map(
+        (bucket) =>
+          `بودجه درخواست ${bucket.key}: ${bucket.tokens}/${bucket.capacity} (صف: فوری=${bucket.queued.interactive} زمان‌بندی=${bucket.queued.scheduled})`
+      )
+    : ["بودجه درخواست: هنوز درخواستی ثبت نشده"];
+
+const formatPublicContractLines = (contracts: RadarPublicContract[], now: number = Date.now()) =>
+  contracts.length
+    ? contracts.map((contract) => {
+        const minutesLeft = Math.max(0, Math.round((contract.expiresAt.getTime() - now) / 60000));
+        const fallbackNote = contract.detected ? "" : " (پیش‌فرض، تشخیص ناموفق)";
+        return `قرارداد public ${contract.endpoint}: ${contract.paramMode}${fallbackNote} - بررسی دوباره ${minutesLeft} دقیقه دیگر`;
+      })
+    : ["قرارداد public: هنوز بررسی نشده"];
+
 const formatRadarDiagnostics = (diagnostics: RadarDiagnostics, lastSource?: "public" | "token") => {
   const lines = [
     `حالت تنظیم‌شده: ${diagnostics.configuredMode}`,
@@ -143,14 +202,16 @@ const formatRadarDiagnostics = (diagnostics: RadarDiagnostics, lastSource?: "pub
     `کد وضعیت: ${diagnostics.status ?? "نامشخص"}`,
     `زمان پاسخ: ${diagnostics.timingMs ?? "نامشخص"}ms`,
     `خطای کوتاه: ${diagnostics.errorSummary ?? "ندارد"}`,
+    formatCacheStatsLine("کش پاسخ Radar", radarResponseCache.stats()),
+    formatCacheStatsLine("کش رندر چارت", chartRenderCache.stats()),
+    formatChartRendererLine(getChartRendererStatus()),
+    formatTokenEncryptionLine(getTokenKeyId()),
+    ...formatRateLimitLines(radarRateLimiter.snapshot()),
+    ...formatPublicContractLines(listPublicContracts()),
   ];
   return lines.join("\n");
 };
 
-const buildChartSeries = (data: RadarChartData): { labels: string[]; values: number[]; title: string } => {
-  return { labels: data.labels, values: data.values, title: data.label };
-};
-
 export const createBot = (prisma: PrismaClient, config: EnvConfig, state: BotState) => {
   const bot = new Bot<Context & { session: SessionData }>(config.botToken);
 
@@ -171,6 +232,10 @@ export const createBot = (prisma: PrismaClient, config: EnvConfig, state: BotSta
     await bot.api.sendPhoto(Number(chatId), photo, { caption });
   };
 
+  const sendTextToChat = async (chatId: bigint | number, text: string) => {
+    await bot.api.sendMessage(Number(chatId), text, { link_preview_options: { is_disabled: true } });
+  };
+
   const runDiagnostics = async (ctx: Context, userId?: number) => {
     const { fetchConfig } = await resolveRadarFetchConfig(prisma, config, userId);
     const diagnostics = await diagnoseRadar({ limit: 10 }, fetchConfig);
@@ -178,6 +243,35 @@ export const createBot = (prisma: PrismaClient, config: EnvConfig, state: BotSta
     await ctx.reply(formatRadarDiagnostics(diagnostics, lastSource));
   };
 
+  const resolveUserChartContext = async (user: User) => {
+    const selectedTarget = user.selectedTargetId
+      ? await prisma.targetChat.findUnique({ where: { id: user.selectedTargetId } })
+      : null;
+    const subscription = await resolveSelectedSubscription(prisma, user);
+    const timezone = selectedTarget?.timezone ?? config.defaultTimezone;
+    const resolved = await resolveRadarFetchConfig(prisma, config, user.id, selectedTarget);
+    const dateRangePreset = subscription?.dateRange ?? resolved.dateRangePreset;
+    const fetchConfig: RadarFetchConfig = {
+      ...resolved.fetchConfig,
+      dateRangePreset,
+      customRange: subscription?.dateRange ? null : resolved.fetchConfig.customRange,
+      location: subscription?.location ?? selectedTarget?.location ?? null,
+    };
+    return {
+      selectedTarget,
+      subscription,
+      timezone,
+      mode: resolved.mode,
+      tokens: resolved.tokens,
+      labelLanguage: resolved.labelLanguage,
+      dateRangePreset,
+      fetchConfig,
+    };
+  };
+
+  const toExportRecords = (prepared: PreparedRadarChart, fetchedAt: Date = new Date()): RadarExportRecord[] =>
+    (prepared.fetched.length ? prepared.fetched : [prepared.radarData]).map((data) => ({ data, fetchedAt }));
+
   const sendNow = async (ctx: Context) => {
     const tgUserId = ctx.from?.id;
     if (!tgUserId) {
@@ -210,27 +304,20 @@ export const createBot = (prisma: PrismaClient, config: EnvConfig, state: BotSta
         return;
       }
 
-      const selectedTarget = user.selectedTargetId
-        ? await prisma.targetChat.findUnique({ where: { id: user.selectedTargetId } })
-        : null;
+      const { selectedTarget, subscription, timezone, mode, tokens, labelLanguage, dateRangePreset, fetchConfig } =
+        await resolveUserChartContext(user);
       const shouldSendToTarget = Boolean(selectedTarget?.isEnabled);
-
-      const { fetchConfig, mode, token, dateRangePreset } = await resolveRadarFetchConfig(prisma, config, user.id);
-      if (mode === "token" && !token) {
-        await ctx.reply("توکن Radar API تنظیم نشده. از منوی 🗝️ توکن رو ثبت کن.");
-        return;
-      }
-      if (mode === "token" && token && !isRadarTokenValidFormat(token)) {
-        await logWarn("send_now_invalid_token_format", { tgUserId, mode });
-        await ctx.reply("توکن/دسترسی معتبر نیست.");
+      if (mode === "token" && !tokens.length && !subscription?.trendLabel) {
+        await logWarn("send_now_no_usable_token", { tgUserId, mode });
+        await ctx.reply("توکن معتبری برای Radar API ثبت نشده. از منوی 🗝️ توکن رو ثبت کن.");
         return;
       }
 
       await ctx.reply("⏳ در حال آماده‌سازی چارت…");
 
-      let radarData: RadarChartData;
+      let prepared: PreparedRadarChart;
       try {
-        radarData = await fetchRadarData({ limit: 10 }, fetchConfig);
+        prepared = await prepareSubscriptionChart(prisma, subscription, fetchConfig, timezone, labelLanguage);
       } catch (error) {
         await logError(
           "send_now_radar_fetch_failed",
@@ -238,6 +325,7 @@ export const createBot = (prisma: PrismaClient, config: EnvConfig, state: BotSta
             tgUserId,
             mode,
             dateRangePreset,
+            subscriptionId: subscription?.id,
             ...buildRadarErrorMeta(error),
           },
           error
@@ -245,17 +333,19 @@ export const createBot = (prisma: PrismaClient, config: EnvConfig, state: BotSta
         await ctx.reply(buildUserFacingError(error, mode));
         return;
       }
+      await recordRadarSnapshots(prisma, prepared.fetched);
+      state.lastChartByUserId.set(tgUserId, toExportRecords(prepared));
 
       let buffer: Buffer;
       try {
-        buffer = await generateRadarChartPng(buildChartSeries(radarData), config.defaultTimezone);
+        buffer = await generateRadarChartPng(prepared.series, timezone, labelLanguage);
       } catch (error) {
         await logError("send_now_chart_failed", { tgUserId, dateRangePreset }, error);
         await ctx.reply(buildUserFacingError(error, mode));
         return;
       }
 
-      const caption = `Cloudflare Radar 🇮🇷\n${formatTimestamp(config.defaultTimezone)}`;
+      const { caption, radarData } = prepared;
       try {
         await sendChartToChat(privateChatId, caption, buffer);
         if (shouldSendToTarget && selectedTarget) {
@@ -273,6 +363,73 @@ export const createBot = (prisma: PrismaClient, config: EnvConfig, state: BotSta
     }
   };
 
+  const loadExportRecords = async (
+    user: User,
+    request: RadarExportRequest
+  ): Promise<{ records: RadarExportRecord[]; note: string } | { error: string }> => {
+    const tgUserId = Number(user.tgUserId);
+    const context = await resolveUserChartContext(user);
+    if (request.scope === "history") {
+      if (!context.selectedTarget) {
+        return { error: "برای خروجی تاریخچه اول مقصد رو انتخاب کن 🎯" };
+      }
+      const since = new Date(Date.now() - (request.days ?? 1) * 24 * 60 * 60 * 1000);
+      const snapshots = await listTargetSnapshots(prisma, context.selectedTarget, since);
+      if (!snapshots.length) {
+        return { error: "برای این مقصد در این بازه تاریخچه‌ای ذخیره نشده." };
+      }
+      return {
+        records: snapshots.map((snapshot) => ({ data: snapshotToChartData(snapshot), fetchedAt: snapshot.fetchedAt })),
+        note: `تاریخچه ${context.selectedTarget.title ?? "مقصد"} — ${request.days} روز اخیر (${snapshots.length} دیتاست)`,
+      };
+    }
+    const last = request.scope === "last" ? state.lastChartByUserId.get(tgUserId) : undefined;
+    if (last?.length) {
+      return { records: last, note: "دیتای آخرین چارت" };
+    }
+    if (context.mode === "token" && !context.tokens.length && !context.subscription?.trendLabel) {
+      return { error: "توکن معتبری برای Radar API ثبت نشده. از منوی 🗝️ توکن رو ثبت کن." };
+    }
+    const prepared = await prepareSubscriptionChart(
+      prisma,
+      context.subscription,
+      context.fetchConfig,
+      context.timezone,
+      context.labelLanguage
+    );
+    await recordRadarSnapshots(prisma, prepared.fetched);
+    const records = toExportRecords(prepared);
+    state.lastChartByUserId.set(tgUserId, records);
+    return { records, note: "دیتای تازه" };
+  };
+
+  const exportData = async (ctx: Context, user: User, request: RadarExportRequest) => {
+    try {
+      const loaded = await loadExportRecords(user, request);
+      if ("error" in loaded) {
+        await ctx.reply(loaded.error);
+        return;
+      }
+      const { content, filename } = buildRadarExport(loaded.records, request.format);
+      await ctx.replyWithDocument(new InputFile(Buffer.from(content, "utf8"), filename), {
+        caption: `📤 ${loaded.note} — ${request.format.toUpperCase()}`,
+      });
+      await logInfo("radar_export_sent", {
+        tgUserId: Number(user.tgUserId),
+        format: request.format,
+        scope: request.scope,
+        datasets: loaded.records.length,
+      });
+    } catch (error) {
+      await logError(
+        "radar_export_failed",
+        { tgUserId: Number(user.tgUserId), format: request.format, scope: request.scope, ...buildRadarErrorMeta(error) },
+        error
+      );
+      await ctx.reply(buildUserFacingError(error));
+    }
+  };
+
   bot.command("diag_radar", async (ctx: Context) => {
     try {
       const tgUserId = ctx.from?.id ?? null;
@@ -288,26 +445,31 @@ export const createBot = (prisma: PrismaClient, config: EnvConfig, state: BotSta
 
   bot.command("diag_scheduler", async (ctx: Context) => {
     try {
-      const schedules = await prisma.targetSchedule.findMany({
+      const subscriptions = await prisma.chartSubscription.findMany({
         where: { targetChat: { isEnabled: true } },
         include: { targetChat: true },
         orderBy: { updatedAt: "asc" },
       });
 
-      if (!schedules.length) {
+      if (!subscriptions.length) {
         await ctx.reply("هیچ مقصد فعالی ثبت نشده است.");
         return;
       }
 
+      const targetCount = new Set(subscriptions.map((subscription) => subscription.targetChatId)).size;
       const lines = [
-        `تعداد مقصدهای فعال: ${schedules.length}`,
-        ...schedules.map((schedule) =>
+        `تعداد مقصدهای فعال: ${targetCount}`,
+        `تعداد چارت‌ها: ${subscriptions.length}`,
+        ...subscriptions.map((subscription) =>
           [
-            `- ${schedule.targetChat.title ?? "بدون عنوان"}`,
-            `intervalMinutes=${schedule.intervalMinutes}`,
-            `lastSentAt=${schedule.lastSentAt?.toISOString() ?? "-"}`,
-            `nextRetryAt=${schedule.nextRetryAt?.toISOString() ?? "-"}`,
-            `failCount=${schedule.failCount ?? 0}`,
+            `- ${subscription.targetChat.title ?? "بدون عنوان"}`,
+            `subscriptionId=${subscription.id}`,
+            `endpoint=${subscription.endpoint}`,
+            `enabled=${subscription.isEnabled}`,
+            `intervalMinutes=${subscription.intervalMinutes}`,
+            `lastSentAt=${subscription.lastSentAt?.toISOString() ?? "-"}`,
+            `nextRetryAt=${subscription.nextRetryAt?.toISOString() ?? "-"}`,
+            `failCount=${subscription.failCount ?? 0}`,
           ].join(" ")
         ),
       ];
@@ -319,9 +481,59 @@ export const createBot = (prisma: PrismaClient, config: EnvConfig, state: BotSta
     }
   });
 
-  registerMenuHandlers(bot, { prisma, sendNow, runDiagnostics });
+  bot.command("trend", async (ctx) => {
+    const tgUserId = ctx.from?.id ?? null;
+    const definition = parseTrendInput(ctx.match ?? "");
+    if (!definition) {
+      await ctx.reply(
+        [
+          "فرمت: /trend برچسب [value|rank] [روز] [day|week]",
+          "مثلاً: /trend IR rank 90 یا /trend mobile value 180 week",
+          "روند از تاریخچه ذخیره‌شده چارت انتخاب‌شده ساخته می‌شه.",
+        ].join("\n")
+      );
+      return;
+    }
+    try {
+      const user = tgUserId ? await prisma.user.findUnique({ where: { tgUserId: BigInt(tgUserId) } }) : null;
+      const selectedTarget = user?.selectedTargetId
+        ? await prisma.targetChat.findUnique({ where: { id: user.selectedTargetId } })
+        : null;
+      const subscription = user ? await resolveSelectedSubscription(prisma, user) : null;
+      const timezone = selectedTarget?.timezone ?? config.defaultTimezone;
+      const settings = await getRadarSettings(prisma, user?.id);
+      const labelLanguage = resolveLabelLanguage(selectedTarget, settings.labelLanguage);
+      const prepared = await prepareTrendChart(
+        prisma,
+        subscription?.endpoint,
+        definition,
+        subscription?.location ?? selectedTarget?.location,
+        subscription?.dateRange ?? settings.radarDateRange ?? "D7",
+        timezone,
+        labelLanguage,
+        !subscription?.dateRange && Boolean(resolveCustomRangeSetting(selectedTarget, settings.radarCustomRange))
+      );
+      const buffer = await generateRadarChartPng(prepared.series, timezone, labelLanguage);
+      await ctx.replyWithPhoto(new InputFile(buffer, "radar-trend.png"), { caption: prepared.caption });
+    } catch (error) {
+      await logError("trend_command_failed", { tgUserId, label: definition.label, metric: definition.metric }, error);
+      await ctx.reply(buildUserFacingError(error));
+    }
+  });
+
+  const verifyToken = async (token: string) => {
+    const verification = await verifyRadarToken(token, { timeoutMs: config.radar.httpTimeoutMs });
+    await logInfo("radar_token_verified", {
+      status: verification.status,
+      radarStatus: verification.radarStatus,
+      expiresOn: verification.expiresOn?.toISOString() ?? null,
+    });
+    return { verification, summary: formatTokenVerification(verification, config.defaultTimezone) };
+  };
+
+  registerMenuHandlers(bot, { prisma, sendNow, verifyToken, exportData, defaultTimezone: config.defaultTimezone });
 
   void logInfo("bot_initialized", { hasPublicUrl: Boolean(config.publicUrl) });
 
-  return { bot, sendChartToChat };
+  return { bot, sendChartToChat, sendTextToChat };
 };
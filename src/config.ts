@@ -4,6 +4,8 @@ dotenv.config();
 
 export type RadarMode = "public" | "token" | "auto";
 
+export type ChartRendererName = "quickchart" | "local";
+
 type EnvConfig = {
   botToken: string;
   publicUrl: string;
@@ -24,6 +26,23 @@ type EnvConfig = {
     httpTimeoutMs: number;
     retryMax: number;
     retryBaseDelayMs: number;
+    outagePollMinutes: number;
+    cacheTtlSec: number;
+    rateLimitPerMinute: number;
+    rateLimitBurst: number;
+    tokenCheckHours: number;
+    publicContractTtlMinutes: number;
+  };
+  chart: {
+    renderer: ChartRendererName;
+    fallbackToLocal: boolean;
+    quickchartUrl: string;
+    quickchartTimeoutMs: number;
+    fontFiles: string[];
+  };
+  tokenEncryption: {
+    key: string | null;
+    previousKeys: string[];
   };
 };
 
@@ -63,6 +82,24 @@ const parseRadarMode = (value: string | undefined): RadarMode => {
   return "auto";
 };
 
+const parseChartRenderer = (value: string | undefined): ChartRendererName => {
+  if (!value) {
+    return "quickchart";
+  }
+  const normalized = value.toLowerCase();
+  if (normalized === "quickchart" || normalized === "local") {
+    return normalized;
+  }
+  console.warn(`Invalid CHART_RENDERER value: ${value}, falling back to quickchart`);
+  return "quickchart";
+};
+
+const parseListEnv = (key: string): string[] =>
+  (process.env[key] ?? "")
+    .split(",")
+    .map((value) => value.trim())
+    .filter(Boolean);
+
 export const loadConfig = (): EnvConfig => {
   const botToken = requireEnv("BOT_TOKEN");
   requireEnv("DATABASE_URL");
@@ -78,11 +115,24 @@ export const loadConfig = (): EnvConfig => {
   const pmEnabled = Boolean(pmEndpoint && pmToken);
   const radarMode = parseRadarMode(process.env.RADAR_MODE);
   const radarApiToken = process.env.RADAR_API_TOKEN ?? null;
-  const radarPublicBaseUrl = process.env.RADAR_PUBLIC_BASE_URL ?? "https://api.cloudflare.com/client/v4/radar";
-  const radarTokenBaseUrl = process.env.RADAR_TOKEN_BASE_URL ?? "https://api.cloudflare.com/client/v4/radar";
+  const radarPublicBaseUrl = process.env.RADAR_PUBLIC_BASE_URL?.trim() || "https://api.cloudflare.com/client/v4/radar";
+  const radarTokenBaseUrl = process.env.RADAR_TOKEN_BASE_URL?.trim() || "https://api.cloudflare.com/client/v4/radar";
   const radarHttpTimeoutMs = parseNumberEnv("RADAR_HTTP_TIMEOUT_MS", 15_000);
   const radarRetryMax = parseNumberEnv("RADAR_RETRY_MAX", 2);
   const radarRetryBaseDelayMs = parseNumberEnv("RADAR_RETRY_BASE_DELAY_MS", 500);
+  const radarOutagePollMinutes = parseNumberEnv("RADAR_OUTAGE_POLL_MINUTES", 10);
+  const radarCacheTtlSec = parseNumberEnv("RADAR_CACHE_TTL_SEC", 300);
+  const radarRateLimitPerMinute = parseNumberEnv("RADAR_RATE_LIMIT_PER_MINUTE", 60);
+  const radarRateLimitBurst = parseNumberEnv("RADAR_RATE_LIMIT_BURST", 10);
+  const radarTokenCheckHours = parseNumberEnv("RADAR_TOKEN_CHECK_HOURS", 12);
+  const radarPublicContractTtlMinutes = parseNumberEnv("RADAR_PUBLIC_CONTRACT_TTL_MIN", 360);
+  const tokenEncryptionKey = process.env.TOKEN_ENCRYPTION_KEY?.trim() || null;
+  const tokenEncryptionPreviousKeys = parseListEnv("TOKEN_ENCRYPTION_PREVIOUS_KEYS");
+  const chartRenderer = parseChartRenderer(process.env.CHART_RENDERER?.trim());
+  const chartFallbackToLocal = process.env.CHART_RENDER_FALLBACK?.trim().toLowerCase() !== "false";
+  const quickchartUrl = process.env.QUICKCHART_URL?.trim() || "https://quickchart.io/chart";
+  const quickchartTimeoutMs = parseNumberEnv("QUICKCHART_TIMEOUT_MS", 10_000);
+  const chartFontFiles = parseListEnv("CHART_FONT_FILES");
 
   return {
     botToken,
@@ -104,6 +154,23 @@ export const loadConfig = (): EnvConfig => {
       httpTimeoutMs: radarHttpTimeoutMs,
       retryMax: radarRetryMax,
       retryBaseDelayMs: radarRetryBaseDelayMs,
+      outagePollMinutes: radarOutagePollMinutes,
+      cacheTtlSec: radarCacheTtlSec,
+      rateLimitPerMinute: radarRateLimitPerMinute,
+      rateLimitBurst: radarRateLimitBurst,
+      tokenCheckHours: radarTokenCheckHours,
+      publicContractTtlMinutes: radarPublicContractTtlMinutes,
+    },
+    chart: {
+      renderer: chartRenderer,
+      fallbackToLocal: chartFallbackToLocal,
+      quickchartUrl,
+      quickchartTimeoutMs,
+      fontFiles: chartFontFiles,
+    },
+    tokenEncryption: {
+      key: tokenEncryptionKey,
+      previousKeys: tokenEncryptionPreviousKeys,
     },
   };
 };
@@ -0,0 +1,125 @@
+import type { PrismaClient, RadarToken } from "@prisma/client";
+import type { RadarTokenCandidate } from "../radar/fetch.js";
+import { isRadarTokenValidFormat } from "../radar/client.js";
+import type { RadarTokenStatus, RadarTokenVerification } from "../radar/tokenVerify.js";
+import { decryptToken, encryptToken } from "./tokenCrypto.js";
+
+export const DEFAULT_RADAR_TOKEN_LABEL = "default";
+export const MAX_RADAR_TOKENS_PER_USER = 5;
+
+const LABEL_PATTERN = /^[\p{L}\p{N}_.-]{1,24}$/u;
+const UNUSABLE_STATUSES = new Set<string>(["invalid", "expired", "disabled", "no_radar_access"]);
+
+export type StoredRadarToken = Omit<RadarToken, "token"> & { token: string };
+
+export const parseRadarTokenInput = (input: string): { label: string; token: string } | null => {
+  const parts = input.trim().split(/\s+/);
+  if (parts.length === 1) {
+    return parts[0] ? { label: DEFAULT_RADAR_TOKEN_LABEL, token: parts[0] } : null;
+  }
+  if (parts.length !== 2 || !LABEL_PATTERN.test(parts[0])) {
+    return null;
+  }
+  return { label: parts[0], token: parts[1] };
+};
+
+export const listRadarTokens = async (prisma: PrismaClient, userId: number): Promise<StoredRadarToken[]> => {
+  const tokens = await prisma.radarToken.findMany({ where: { userId }, orderBy: { id: "asc" } });
+  return tokens.map((item) => ({ ...item, token: decryptToken(item.token) }));
+};
+
+export const findRadarTokenByLabel = async (prisma: PrismaClient, userId: number, label: string) =>
+  prisma.radarToken.findUnique({ where: { userId_label: { userId, label } } });
+
+export const saveRadarToken = async (
+  prisma: PrismaClient,
+  userId: number,
+  label: string,
+  token: string,
+  verification: Pick<RadarTokenVerification, "status" | "expiresOn">,
+  checkedAt: Date = new Date()
+): Promise<RadarToken> => {
+  const data = {
+    token: encryptToken(token),
+    status: verification.status,
+    expiresAt: verification.expiresOn,
+    checkedAt,
+    warnedAt: null,
+  };
+  return prisma.radarToken.upsert({
+    where: { userId_label: { userId, label } },
+    update: data,
+    create: { userId, label, ...data },
+  });
+};
+
+export const removeRadarToken = async (prisma: PrismaClient, userId: number, label: string): Promise<boolean> => {
+  const result = await prisma.radarToken.deleteMany({ where: { userId, label } });
+  return result.count > 0;
+};
+
+export const setRadarTokenVerification = async (
+  prisma: PrismaClient,
+  tokenId: number,
+  verification: Pick<RadarTokenVerification, "status" | "expiresOn">,
+  checkedAt: Date = new Date()
+): Promise<void> => {
+  await prisma.radarToken.update({
+    where: { id: tokenId },
+    data: {
+      status: verification.status,
+      expiresAt: verification.expiresOn,
+      checkedAt,
+    },
+  });
+};
+
+export const isStoredTokenUsable = (status: string | null) => !status || !UNUSABLE_STATUSES.has(status);
+
+export const orderRadarTokenCandidates = (
+  tokens: Pick<StoredRadarToken, "id" | "label" | "token" | "status">[],
+  options: { preferredTokenId?: number | null; rotationSeed?: number; fallbackToken?: string | null } = {}
+): RadarTokenCandidate[] => {
+  const usable = tokens.filter((item) => isStoredTokenUsable(item.status));
+  const preferred = usable.find((item) => item.id === options.preferredTokenId);
+  const rest = usable.filter((item) => item !== preferred);
+  const offset = !preferred && rest.length ? Math.abs(options.rotationSeed ?? 0) % rest.length : 0;
+  const ordered = [...(preferred ? [preferred] : []), ...rest.slice(offset), ...rest.slice(0, offset)];
+  const candidates: RadarTokenCandidate[] = ordered.map((item) => ({ label: item.label, token: item.token }));
+  if (options.fallbackToken && !candidates.some((item) => item.token === options.fallbackToken)) {
+    candidates.push({ label: "env", token: options.fallbackToken });
+  }
+  return candidates.filter((item) => isRadarTokenValidFormat(item.token));
+};
+
+export const formatRadarTokenList = (
+  tokens: Pick<StoredRadarToken, "label" | "status">[],
+  preferredLabel?: string | null
+): string =>
+  tokens.length
+    ? tokens
+        .map(
+          (item) =>
+            `- ${item.label}: ${radarTokenStatusLabel(item.status)}${item.label === preferredLabel ? " 🎯" : ""}`
+        )
+        .join("\n")
+    : "هنوز توکنی ثبت نشده.";
+
+const radarTokenStatusLabel = (status: string | null) => {
+  switch (status as RadarTokenStatus | null) {
+    case "active":
+      return "فعال ✅";
+    case "expired":
+      return "منقضی ⛔";
+    case "disabled":
+      return "غیرفعال ⛔";
+    case "invalid":
+      return "نامعتبر ⛔";
+    case "no_radar_access":
+      return "بدون دسترسی Radar ⛔";
+    case "unreachable":
+      return "بررسی نشد ⚠️";
+    default:
+      return "نامشخص";
+  }
+};
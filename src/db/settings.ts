@@ -1,40 +1,50 @@
 import type { PrismaClient } from "@prisma/client";
 import type { RadarMode } from "../radar/fetch.js";
-import type { RadarDateRangePreset } from "../radar/dateRange.js";
+import {
+  parseStoredCustomRange,
+  serializeCustomRange,
+  type RadarCustomRange,
+  type RadarDateRangePreset,
+} from "../radar/dateRange.js";
+import { toLabelLanguage, type LabelLanguage } from "../radar/countries.js";
+import { listRadarTokens, type StoredRadarToken } from "./radarTokens.js";
+import { decryptOptionalToken, decryptToken, encryptToken, needsReencryption } from "./tokenCrypto.js";
 
 export type RadarSettings = {
+  radarTokens: StoredRadarToken[];
   radarApiToken: string | null;
   radarMode: RadarMode | null;
   radarDateRange: RadarDateRangePreset | null;
+  radarCustomRange: RadarCustomRange | null;
+  labelLanguage: LabelLanguage;
 };
 
 const SETTINGS_ID = 1;
 
-export const getRadarApiToken = async (prisma: PrismaClient, userId?: number): Promise<string | null> => {
-  if (userId) {
-    const user = await prisma.user.findUnique({ where: { id: userId } });
-    return user?.radarApiToken ?? null;
-  }
+export const getRadarApiToken = async (prisma: PrismaClient): Promise<string | null> => {
   const settings = await prisma.appSetting.findUnique({ where: { id: SETTINGS_ID } });
-  return settings?.radarApiToken ?? null;
+  return decryptOptionalToken(settings?.radarApiToken);
 };
 
-export const setRadarApiToken = async (
-  prisma: PrismaClient,
-  token: string | null,
-  userId?: number
-): Promise<void> => {
-  if (userId) {
-    await prisma.user.update({
-      where: { id: userId },
-      data: { radarApiToken: token },
-    });
-    return;
-  }
+export const setRadarApiToken = async (prisma: PrismaClient, token: string | null): Promise<void> => {
+  const stored = token ? encryptToken(token) : null;
+  await prisma.appSetting.upsert({
+    where: { id: SETTINGS_ID },
+    update: { radarApiToken: stored },
+    create: { id: SETTINGS_ID, radarApiToken: stored },
+  });
+};
+
+export const getOutageEventsSeededAt = async (prisma: PrismaClient): Promise<Date | null> => {
+  const settings = await prisma.appSetting.findUnique({ where: { id: SETTINGS_ID } });
+  return settings?.outageEventsSeededAt ?? null;
+};
+
+export const markOutageEventsSeeded = async (prisma: PrismaClient, seededAt: Date = new Date()): Promise<void> => {
   await prisma.appSetting.upsert({
     where: { id: SETTINGS_ID },
-    update: { radarApiToken: token },
-    create: { id: SETTINGS_ID, radarApiToken: token },
+    update: { outageEventsSeededAt: seededAt },
+    create: { id: SETTINGS_ID, outageEventsSeededAt: seededAt },
   });
 };
 
@@ -77,7 +87,7 @@ export const setRadarDateRange = async (
   userId?: number
 ): Promise<void> => {
   if (userId) {
-    await prisma.user.update({ where: { id: userId }, data: { radarDateRange: range } });
+    await prisma.user.update({ where: { id: userId }, data: { radarDateRange: range, radarCustomRange: null } });
     return;
   }
   await prisma.appSetting.upsert({
@@ -87,19 +97,109 @@ export const setRadarDateRange = async (
   });
 };
 
+export const setRadarCustomRange = async (
+  prisma: PrismaClient,
+  userId: number,
+  range: RadarCustomRange | null
+): Promise<void> => {
+  await prisma.user.update({
+    where: { id: userId },
+    data: { radarCustomRange: range ? serializeCustomRange(range) : null },
+  });
+};
+
+export const setTargetCustomRange = async (
+  prisma: PrismaClient,
+  targetId: number,
+  range: RadarCustomRange | null
+): Promise<void> => {
+  await prisma.targetChat.update({
+    where: { id: targetId },
+    data: { radarCustomRange: range ? serializeCustomRange(range) : null },
+  });
+};
+
+export const resolveCustomRangeSetting = (
+  target?: { radarCustomRange: string | null } | null,
+  fallback?: RadarCustomRange | null
+): RadarCustomRange | null => parseStoredCustomRange(target?.radarCustomRange) ?? fallback ?? null;
+
+export const setLabelLanguage = async (prisma: PrismaClient, userId: number, language: LabelLanguage): Promise<void> => {
+  await prisma.user.update({ where: { id: userId }, data: { labelLanguage: language === "en" ? "EN" : "FA" } });
+};
+
+export const setTargetLabelLanguage = async (
+  prisma: PrismaClient,
+  targetId: number,
+  language: LabelLanguage | null
+): Promise<void> => {
+  await prisma.targetChat.update({
+    where: { id: targetId },
+    data: { labelLanguage: language ? (language === "en" ? "EN" : "FA") : null },
+  });
+};
+
+export const resolveLabelLanguage = (
+  target?: { labelLanguage: string | null } | null,
+  fallback?: LabelLanguage
+): LabelLanguage => (target?.labelLanguage ? toLabelLanguage(target.labelLanguage) : fallback ?? "fa");
+
 export const getRadarSettings = async (prisma: PrismaClient, userId?: number): Promise<RadarSettings> => {
   if (userId) {
     const user = await prisma.user.findUnique({ where: { id: userId } });
     return {
-      radarApiToken: user?.radarApiToken ?? null,
+      radarTokens: await listRadarTokens(prisma, userId),
+      radarApiToken: null,
       radarMode: (user?.radarMode as RadarMode | null) ?? null,
       radarDateRange: (user?.radarDateRange as RadarDateRangePreset | null) ?? null,
+      radarCustomRange: parseStoredCustomRange(user?.radarCustomRange),
+      labelLanguage: toLabelLanguage(user?.labelLanguage),
     };
   }
   const settings = await prisma.appSetting.findUnique({ where: { id: SETTINGS_ID } });
   return {
-    radarApiToken: settings?.radarApiToken ?? null,
+    radarTokens: [],
+    radarApiToken: decryptOptionalToken(settings?.radarApiToken),
     radarMode: (settings?.radarMode as RadarMode | null) ?? null,
     radarDateRange: (settings?.radarDateRange as RadarDateRangePreset | null) ?? null,
+    radarCustomRange: null,
+    labelLanguage: "fa",
   };
 };
+
+export type TokenReencryptionResult = {
+  scanned: number;
+  updated: number;
+};
+
+export const reencryptStoredTokens = async (
+  prisma: PrismaClient,
+  options: { force?: boolean } = {}
+): Promise<TokenReencryptionResult> => {
+  const result: TokenReencryptionResult = { scanned: 0, updated: 0 };
+  const tokens = await prisma.radarToken.findMany({ select: { id: true, token: true } });
+  for (const item of tokens) {
+    result.scanned += 1;
+    if (!needsReencryption(item.token, options.force)) {
+      continue;
+    }
+    await prisma.radarToken.updateMany({
+      where: { id: item.id, token: item.token },
+      data: { token: encryptToken(decryptToken(item.token)) },
+    });
+    result.updated += 1;
+  }
+
+  const settings = await prisma.appSetting.findUnique({ where: { id: SETTINGS_ID } });
+  if (settings?.radarApiToken) {
+    result.scanned += 1;
+    if (needsReencryption(settings.radarApiToken, options.force)) {
+      await prisma.appSetting.updateMany({
+        where: { id: SETTINGS_ID, radarApiToken: settings.radarApiToken },
+        data: { radarApiToken: encryptToken(decryptOptionalToken(settings.radarApiToken) ?? "") },
+      });
+      result.updated += 1;
+    }
+  }
+  return result;
+};
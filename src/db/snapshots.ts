@@ -0,0 +1,116 @@
+import type { ChartSubscription, Prisma, PrismaClient, RadarSnapshot, TargetChat } from "@prisma/client";
+import type { RadarChartData, RadarChartKind } from "../radar/fetch.js";
+import {
+  resolveRadarEndpoint,
+  supportsParam,
+  type RadarEndpointName,
+  type RadarEndpointParams,
+} from "../radar/endpoints.js";
+import type { RadarDateRangePreset } from "../radar/dateRange.js";
+import type { RadarLabelType } from "../radar/responseSchemas.js";
+import { logError } from "../logger.js";
+
+export const toRadarSnapshotData = (
+  data: RadarChartData,
+  fetchedAt: Date = new Date()
+): Prisma.RadarSnapshotCreateManyInput => ({
+  endpoint: data.endpointName,
+  path: data.endpoint,
+  location: data.params.location ? String(data.params.location).toUpperCase() : null,
+  params: data.params as Prisma.InputJsonObject,
+  source: data.source,
+  rangeWindow: data.window ?? "current",
+  dateRangePreset: data.dateRangePreset,
+  customRange: data.customRange ?? false,
+  kind: data.kind,
+  labelType: data.labelType ?? null,
+  aggInterval: data.aggInterval ?? null,
+  labels: data.labels,
+  values: data.values,
+  fetchedAt,
+});
+
+export const recordRadarSnapshots = async (
+  prisma: PrismaClient,
+  results: RadarChartData[],
+  fetchedAt: Date = new Date()
+): Promise<number> => {
+  if (!results.length) {
+    return 0;
+  }
+  try {
+    const { count } = await prisma.radarSnapshot.createMany({
+      data: results.map((data) => toRadarSnapshotData(data, fetchedAt)),
+    });
+    return count;
+  } catch (error) {
+    await logError("radar_snapshot_failed", { endpoints: results.map((data) => data.endpointName) }, error);
+    return 0;
+  }
+};
+
+export const listRadarSnapshots = async (
+  prisma: PrismaClient,
+  query: { endpoint: RadarEndpointName; location: string | null; dateRangePreset: RadarDateRangePreset; since: Date }
+): Promise<RadarSnapshot[]> =>
+  prisma.radarSnapshot.findMany({
+    where: {
+      endpoint: query.endpoint,
+      location: query.location,
+      rangeWindow: "current",
+      dateRangePreset: query.dateRangePreset,
+      customRange: false,
+      fetchedAt: { gte: query.since },
+    },
+    orderBy: { fetchedAt: "asc" },
+  });
+
+const buildSubscriptionSnapshotKeys = (
+  subscription: Pick<ChartSubscription, "endpoint" | "location" | "compareLocations">,
+  target: Pick<TargetChat, "location">
+): Array<{ endpoint: RadarEndpointName; location: string | null }> => {
+  const endpoint = resolveRadarEndpoint(subscription.endpoint);
+  if (!supportsParam(endpoint, "location")) {
+    return [{ endpoint: endpoint.name, location: null }];
+  }
+  const locations = subscription.compareLocations.length
+    ? subscription.compareLocations
+    : [subscription.location ?? target.location];
+  return locations.map((location) => ({ endpoint: endpoint.name, location: location ? location.toUpperCase() : null }));
+};
+
+export const listTargetSnapshots = async (
+  prisma: PrismaClient,
+  target: Pick<TargetChat, "id" | "location">,
+  since: Date
+): Promise<RadarSnapshot[]> => {
+  const subscriptions = await prisma.chartSubscription.findMany({ where: { targetChatId: target.id } });
+  const keys = new Map(
+    subscriptions
+      .flatMap((subscription) => buildSubscriptionSnapshotKeys(subscription, target))
+      .map((key) => [`${key.endpoint}:${key.location ?? ""}`, key])
+  );
+  if (!keys.size) {
+    return [];
+  }
+  return prisma.radarSnapshot.findMany({
+    where: { OR: Array.from(keys.values()), fetchedAt: { gte: since } },
+    orderBy: { fetchedAt: "asc" },
+  });
+};
+
+export const snapshotToChartData = (snapshot: RadarSnapshot): RadarChartData => ({
+  kind: snapshot.kind as RadarChartKind,
+  labelType: (snapshot.labelType as RadarLabelType | null) ?? undefined,
+  labels: snapshot.labels,
+  values: snapshot.values,
+  aggInterval: snapshot.aggInterval ?? undefined,
+  source: snapshot.source as RadarChartData["source"],
+  endpoint: snapshot.path,
+  endpointName: snapshot.endpoint as RadarEndpointName,
+  params: snapshot.params as RadarEndpointParams,
+  dateRangePreset: snapshot.dateRangePreset,
+  customRange: snapshot.customRange,
+  label: resolveRadarEndpoint(snapshot.endpoint).label,
+  window: snapshot.rangeWindow === "previous" ? "previous" : "current",
+});
@@ -0,0 +1,53 @@
+import type { ChartSubscription, PrismaClient } from "@prisma/client";
+import { DEFAULT_RADAR_ENDPOINT, type RadarEndpointName } from "../radar/endpoints.js";
+
+export const DEFAULT_SUBSCRIPTION_INTERVAL_MINUTES = 60;
+
+export const hasConflictingComparisons = (
+  subscription: Pick<ChartSubscription, "comparePrevious" | "compareLocations">
+): boolean => subscription.comparePrevious && subscription.compareLocations.length > 0;
+
+export const listTargetSubscriptions = async (prisma: PrismaClient, targetChatId: number): Promise<ChartSubscription[]> => {
+  return prisma.chartSubscription.findMany({
+    where: { targetChatId },
+    orderBy: { createdAt: "asc" },
+  });
+};
+
+export const createSubscription = async (
+  prisma: PrismaClient,
+  targetChatId: number,
+  endpoint: RadarEndpointName = DEFAULT_RADAR_ENDPOINT.name,
+  intervalMinutes: number = DEFAULT_SUBSCRIPTION_INTERVAL_MINUTES
+): Promise<ChartSubscription> => {
+  return prisma.chartSubscription.create({
+    data: { targetChatId, endpoint, intervalMinutes },
+  });
+};
+
+export const ensureDefaultSubscription = async (prisma: PrismaClient, targetChatId: number): Promise<ChartSubscription> => {
+  const existing = await prisma.chartSubscription.findFirst({
+    where: { targetChatId },
+    orderBy: { createdAt: "asc" },
+  });
+  return existing ?? createSubscription(prisma, targetChatId);
+};
+
+export const resolveSelectedSubscription = async (
+  prisma: PrismaClient,
+  user: { selectedTargetId: number | null; selectedSubscriptionId: number | null }
+): Promise<ChartSubscription | null> => {
+  if (!user.selectedTargetId) {
+    return null;
+  }
+  if (user.selectedSubscriptionId) {
+    const selected = await prisma.chartSubscription.findUnique({ where: { id: user.selectedSubscriptionId } });
+    if (selected && selected.targetChatId === user.selectedTargetId) {
+      return selected;
+    }
+  }
+  return prisma.chartSubscription.findFirst({
+    where: { targetChatId: user.selectedTargetId },
+    orderBy: { createdAt: "asc" },
+  });
+};
@@ -0,0 +1,124 @@
+import { createCipheriv, createDecipheriv, createHash, randomBytes } from "node:crypto";
+
+const FORMAT_PREFIX = "enc:v1:";
+const ALGORITHM = "aes-256-gcm";
+const KEY_BYTES = 32;
+const IV_BYTES = 12;
+const TAG_BYTES = 16;
+
+type MasterKey = {
+  id: string;
+  key: Buffer;
+};
+
+type TokenKeyring = {
+  current: MasterKey | null;
+  previous: MasterKey[];
+};
+
+export type TokenEncryptionErrorCode = "invalid_key" | "key_missing" | "unknown_key" | "corrupted";
+
+export class TokenEncryptionError extends Error {
+  code: TokenEncryptionErrorCode;
+
+  constructor(message: string, code: TokenEncryptionErrorCode) {
+    super(message);
+    this.name = "TokenEncryptionError";
+    this.code = code;
+  }
+}
+
+export const formatTokenEncryptionErrorCode = (error: TokenEncryptionError): string =>
+  `TOKEN_${error.code.toUpperCase()}`;
+
+export const buildTokenEncryptionUserMessage = (error: TokenEncryptionError): string =>
+  error.code === "corrupted"
+    ? `توکن ذخیره‌شده خرابه؛ از منوی 🗝️ دوباره ثبتش کن. کد خطا: ${formatTokenEncryptionErrorCode(error)}`
+    : `کلید رمزنگاری توکن‌ها (TOKEN_ENCRYPTION_KEY) روی سرور درست تنظیم نشده؛ به ادمین بات خبر بده. کد خطا: ${formatTokenEncryptionErrorCode(error)}`;
+
+const keyring: TokenKeyring = { current: null, previous: [] };
+
+const parseMasterKey = (value: string): MasterKey => {
+  const key = Buffer.from(value.trim(), "base64");
+  if (key.length !== KEY_BYTES) {
+    throw new TokenEncryptionError(`Token encryption key must be ${KEY_BYTES} bytes encoded as base64`, "invalid_key");
+  }
+  return { id: createHash("sha256").update(key).digest("hex").slice(0, 12), key };
+};
+
+export const configureTokenEncryption = (options: { key: string | null; previousKeys?: string[] }) => {
+  keyring.current = options.key ? parseMasterKey(options.key) : null;
+  keyring.previous = (options.previousKeys ?? []).filter((value) => value.trim()).map(parseMasterKey);
+};
+
+export const isTokenEncryptionEnabled = (): boolean => keyring.current !== null;
+
+export const getTokenKeyId = (): string | null => keyring.current?.id ?? null;
+
+export const isEncryptedToken = (value: string): boolean => value.startsWith(FORMAT_PREFIX);
+
+export const getEncryptedTokenKeyId = (value: string): string | null =>
+  isEncryptedToken(value) ? value.slice(FORMAT_PREFIX.length).split(":")[0] ?? null : null;
+
+const seal = (key: Buffer, plaintext: Buffer, aad: string): string => {
+  const iv = randomBytes(IV_BYTES);
+  const cipher = createCipheriv(ALGORITHM, key, iv);
+  cipher.setAAD(Buffer.from(aad));
+  const ciphertext = Buffer.concat([cipher.update(plaintext), cipher.final()]);
+  return Buffer.concat([iv, cipher.getAuthTag(), ciphertext]).toString("base64");
+};
+
+const open = (key: Buffer, sealed: string, aad: string): Buffer => {
+  const raw = Buffer.from(sealed, "base64");
+  if (raw.length <= IV_BYTES + TAG_BYTES) {
+    throw new TokenEncryptionError("Encrypted token payload is truncated", "corrupted");
+  }
+  const decipher = createDecipheriv(ALGORITHM, key, raw.subarray(0, IV_BYTES));
+  decipher.setAAD(Buffer.from(aad));
+  decipher.setAuthTag(raw.subarray(IV_BYTES, IV_BYTES + TAG_BYTES));
+  try {
+    return Buffer.concat([decipher.update(raw.subarray(IV_BYTES + TAG_BYTES)), decipher.final()]);
+  } catch {
+    throw new TokenEncryptionError("Encrypted token failed authentication", "corrupted");
+  }
+};
+
+export const encryptToken = (token: string): string => {
+  const master = keyring.current;
+  if (!master) {
+    throw new TokenEncryptionError("TOKEN_ENCRYPTION_KEY is required to store tokens", "key_missing");
+  }
+  const dataKey = randomBytes(KEY_BYTES);
+  const wrappedKey = seal(master.key, dataKey, `key:${master.id}`);
+  const payload = seal(dataKey, Buffer.from(token, "utf8"), `token:${master.id}`);
+  return `${FORMAT_PREFIX}${master.id}:${wrappedKey}:${payload}`;
+};
+
+export const decryptToken = (value: string): string => {
+  if (!isEncryptedToken(value)) {
+    return value;
+  }
+  const [keyId, wrappedKey, payload] = value.slice(FORMAT_PREFIX.length).split(":");
+  if (!keyId || !wrappedKey || !payload) {
+    throw new TokenEncryptionError("Encrypted token has an invalid format", "corrupted");
+  }
+  if (!keyring.current) {
+    throw new TokenEncryptionError("TOKEN_ENCRYPTION_KEY is required to read stored tokens", "key_missing");
+  }
+  const master = [keyring.current, ...keyring.previous].find((candidate) => candidate.id === keyId);
+  if (!master) {
+    throw new TokenEncryptionError(`No configured key matches stored token key ${keyId}`, "unknown_key");
+  }
+  const dataKey = open(master.key, wrappedKey, `key:${keyId}`);
+  return open(dataKey, payload, `token:${keyId}`).toString("utf8");
+};
+
+export const decryptOptionalToken = (value: string | null | undefined): string | null =>
+  value ? decryptToken(value) : null;
+
+export const needsReencryption = (value: string, force = false): boolean => {
+  if (!keyring.current) {
+    return false;
+  }
+  return force || getEncryptedTokenKeyId(value) !== keyring.current.id;
+};
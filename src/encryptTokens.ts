@@ -0,0 +1,26 @@
+import { loadConfig } from "./config.js";
+import { prisma } from "./db/prisma.js";
+import { reencryptStoredTokens } from "./db/settings.js";
+import { configureTokenEncryption, getTokenKeyId } from "./db/tokenCrypto.js";
+import { logError, logInfo } from "./logger.js";
+
+const force = process.argv.slice(2).includes("--force");
+
+const run = async () => {
+  const config = loadConfig();
+  if (!config.tokenEncryption.key) {
+    throw new Error("Missing required env var: TOKEN_ENCRYPTION_KEY");
+  }
+  configureTokenEncryption(config.tokenEncryption);
+  const result = await reencryptStoredTokens(prisma, { force });
+  await logInfo("token_encryption_migrated", { keyId: getTokenKeyId(), force, ...result });
+};
+
+run()
+  .catch(async (error) => {
+    await logError("token_encryption_migration_failed", { scope: "token_encryption_migration", force }, error);
+    process.exitCode = 1;
+  })
+  .finally(async () => {
+    await prisma.$disconnect();
+  });
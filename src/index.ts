@@ -3,18 +3,51 @@ import { loadConfig } from "./config.js";
 import { prisma } from "./db/prisma.js";
 import { createBot, type BotState } from "./bot.js";
 import { runSchedulerTick } from "./scheduler/tick.js";
+import { runOutagePoll, type OutagePollState } from "./scheduler/outages.js";
+import { runTokenChecks, type TokenCheckState } from "./scheduler/tokenChecks.js";
 import { logError, logInfo, logWarn } from "./logger.js";
-import { buildRadarUrl } from "./radar/client.js";
+import { buildRadarUrl, configureRadarBaseUrls } from "./radar/client.js";
+import { radarResponseCache } from "./radar/fetch.js";
+import { chartRenderCache } from "./radar/generate.js";
+import { configureChartRenderer } from "./radar/chartRenderer.js";
+import { radarRateLimiter } from "./radar/rateLimiter.js";
+import { getFixtureConfig } from "./radar/fixtures.js";
+import { configurePublicContracts } from "./radar/publicContract.js";
+import { configureTokenEncryption } from "./db/tokenCrypto.js";
 
 const config = loadConfig();
 console.log("Config loaded", {
   publicUrl: config.publicUrl,
   maxSendsPerTick: config.maxSendsPerTick,
   radarMode: config.radar.mode,
+  radarCacheTtlSec: config.radar.cacheTtlSec,
+  radarRateLimitPerMinute: config.radar.rateLimitPerMinute,
+  chartRenderer: config.chart.renderer,
+});
+radarResponseCache.configure(config.radar.cacheTtlSec * 1000);
+chartRenderCache.configure(config.radar.cacheTtlSec * 1000);
+configureChartRenderer(config.chart);
+radarRateLimiter.configure({
+  capacity: config.radar.rateLimitBurst,
+  refillPerMinute: config.radar.rateLimitPerMinute,
+});
+configurePublicContracts({ ttlMs: config.radar.publicContractTtlMinutes * 60 * 1000 });
+configureRadarBaseUrls({
+  publicBaseUrl: config.radar.publicBaseUrl,
+  tokenBaseUrl: config.radar.tokenBaseUrl,
 });
 void logInfo("radar_client_ready", {
   exampleUrl: buildRadarUrl("/http/top/locations/http_protocol/HTTPS", { limit: 10, dateRange: "7d" }),
+  publicBaseUrl: config.radar.publicBaseUrl,
+  tokenBaseUrl: config.radar.tokenBaseUrl,
+  fixtures: getFixtureConfig(),
 });
+configureTokenEncryption(config.tokenEncryption);
+if (!config.tokenEncryption.key) {
+  void logWarn("token_encryption_disabled", {
+    hint: "Set TOKEN_ENCRYPTION_KEY; new Radar tokens cannot be stored without it",
+  });
+}
 if (!config.pm.enabled) {
   void logWarn("pm_disabled", {
     reason: !config.pm.endpoint ? "PM_ENDPOINT missing" : "PM_BEARER_TOKEN missing",
@@ -38,8 +71,9 @@ const botState: BotState = {
   lastSendByUserId: new Map(),
   lastRadarSourceByUserId: new Map(),
   inFlightByUserId: new Map(),
+  lastChartByUserId: new Map(),
 };
-const { bot, sendChartToChat } = createBot(prisma, config, botState);
+const { bot, sendChartToChat, sendTextToChat } = createBot(prisma, config, botState);
 
 const version = process.env.npm_package_version ?? "unknown";
 
@@ -92,8 +126,12 @@ const start = async () => {
   }
 
   const schedulerState = { isTickRunning: false };
+  const outageState: OutagePollState = { isPolling: false, lastPollAt: null };
+  const tokenCheckState: TokenCheckState = { isRunning: false };
   const tick = async () => {
-    await runSchedulerTick(prisma, config, { sendChartToChat }, schedulerState);
+    await runSchedulerTick(prisma, config, { sendChartToChat, sendTextToChat }, schedulerState);
+    await runOutagePoll(prisma, config, { sendTextToChat }, outageState);
+    await runTokenChecks(prisma, config, { sendTextToChat }, tokenCheckState);
   };
 
   setInterval(tick, 60 * 1000);
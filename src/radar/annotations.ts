@@ -0,0 +1,144 @@
+import { requestRadar, type RadarAuthMode, type RadarRetryPolicy } from "./client.js";
+import type { RadarRequestPriority } from "./rateLimiter.js";
+import { formatLocationTitle, isCountryCode } from "./countries.js";
+import { formatTimestamp } from "./dateRange.js";
+
+export type RadarAnnotationSource = "outage" | "annotation";
+
+export type RadarAnnotation = {
+  id: string;
+  source: RadarAnnotationSource;
+  eventType: string | null;
+  description: string | null;
+  scope: string | null;
+  startDate: Date | null;
+  endDate: Date | null;
+  locations: string[];
+  asns: number[];
+  linkedUrl: string | null;
+  outageCause: string | null;
+  outageType: string | null;
+};
+
+export type RadarAnnotationFetchConfig = {
+  mode: RadarAuthMode;
+  token?: string | null;
+  timeoutMs: number;
+  retry?: RadarRetryPolicy;
+  priority?: RadarRequestPriority;
+  dateRange: string;
+  limit: number;
+};
+
+type RadarAnnotationsPayload = {
+  success?: boolean;
+  result?: { annotations?: Array<Record<string, unknown>> };
+};
+
+const RADAR_ANNOTATION_PATHS: Record<RadarAnnotationSource, string> = {
+  outage: "/annotations/outages",
+  annotation: "/annotations",
+};
+
+const toStringOrNull = (value: unknown): string | null =>
+  typeof value === "string" && value.trim() ? value.trim() : null;
+
+const toDateOrNull = (value: unknown): Date | null => {
+  if (typeof value !== "string" || !value) {
+    return null;
+  }
+  const parsed = new Date(value);
+  return Number.isNaN(parsed.getTime()) ? null : parsed;
+};
+
+const extractLocations = (record: Record<string, unknown>): string[] => {
+  const codes = new Set<string>();
+  const locations = Array.isArray(record.locations) ? record.locations : [];
+  locations.forEach((location) => {
+    if (typeof location === "string" && isCountryCode(location)) {
+      codes.add(location.toUpperCase());
+    }
+  });
+  const details = Array.isArray(record.locationsDetails) ? record.locationsDetails : [];
+  details.forEach((detail) => {
+    const code = (detail as { code?: unknown })?.code;
+    if (typeof code === "string" && isCountryCode(code)) {
+      codes.add(code.toUpperCase());
+    }
+  });
+  return Array.from(codes);
+};
+
+export const parseRadarAnnotation = (
+  record: Record<string, unknown>,
+  source: RadarAnnotationSource
+): RadarAnnotation | null => {
+  const id = record.id === undefined || record.id === null ? null : String(record.id);
+  if (!id) {
+    return null;
+  }
+  const outage = (record.outage ?? {}) as Record<string, unknown>;
+  const asns = Array.isArray(record.asns) ? record.asns.map(Number).filter((asn) => Number.isFinite(asn)) : [];
+  return {
+    id,
+    source,
+    eventType: toStringOrNull(record.eventType),
+    description: toStringOrNull(record.description),
+    scope: toStringOrNull(record.scope),
+    startDate: toDateOrNull(record.startDate),
+    endDate: toDateOrNull(record.endDate),
+    locations: extractLocations(record),
+    asns,
+    linkedUrl: toStringOrNull(record.linkedUrl),
+    outageCause: toStringOrNull(outage.outageCause),
+    outageType: toStringOrNull(outage.outageType),
+  };
+};
+
+const fetchAnnotationSource = async (
+  source: RadarAnnotationSource,
+  config: RadarAnnotationFetchConfig
+): Promise<RadarAnnotation[]> => {
+  const { data } = await requestRadar<RadarAnnotationsPayload>(
+    RADAR_ANNOTATION_PATHS[source],
+    { dateRange: config.dateRange, limit: config.limit, format: "json" },
+    config.mode,
+    config.token ?? undefined,
+    { timeoutMs: config.timeoutMs, retry: config.retry, priority: config.priority }
+  );
+  const records = data?.result?.annotations ?? [];
+  return records
+    .map((record) => parseRadarAnnotation(record, source))
+    .filter((annotation): annotation is RadarAnnotation => annotation !== null);
+};
+
+export const fetchRadarAnnotations = async (config: RadarAnnotationFetchConfig): Promise<RadarAnnotation[]> => {
+  const outages = await fetchAnnotationSource("outage", config);
+  const annotations = await fetchAnnotationSource("annotation", config);
+  const byId = new Map<string, RadarAnnotation>();
+  [...outages, ...annotations].forEach((annotation) => {
+    if (!byId.has(annotation.id)) {
+      byId.set(annotation.id, annotation);
+    }
+  });
+  return Array.from(byId.values());
+};
+
+export const formatAnnotationAlert = (annotation: RadarAnnotation, locations: string[], timezone: string): string => {
+  const heading = annotation.source === "outage" ? "🚨 اختلال اینترنت" : "📌 رویداد Cloudflare Radar";
+  const details = [
+    annotation.outageType ? `نوع: ${annotation.outageType}` : null,
+    annotation.outageCause ? `علت: ${annotation.outageCause}` : null,
+  ].filter(Boolean);
+  return [
+    `${heading} — ${locations.map((location) => formatLocationTitle(location)).join("، ")}`,
+    details.length ? details.join(" | ") : null,
+    annotation.asns.length ? `ASN: ${annotation.asns.map((asn) => `AS${asn}`).join(", ")}` : null,
+    annotation.startDate ? `شروع: ${formatTimestamp(timezone, annotation.startDate)}` : null,
+    `پایان: ${annotation.endDate ? formatTimestamp(timezone, annotation.endDate) : "ادامه دارد"}`,
+    annotation.description,
+    annotation.linkedUrl,
+  ]
+    .filter((line): line is string => Boolean(line))
+    .join("\n");
+};
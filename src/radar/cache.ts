@@ -0,0 +1,112 @@
+import { createHash } from "node:crypto";
+
+export type TtlCacheStats = {
+  ttlMs: number;
+  size: number;
+  hits: number;
+  misses: number;
+  inFlightHits: number;
+};
+
+export type TtlCache<T> = {
+  getOrLoad: (key: string, loader: () => Promise<T>, shouldCache?: (value: T) => boolean) => Promise<T>;
+  configure: (ttlMs: number) => void;
+  clear: () => void;
+  stats: () => TtlCacheStats;
+};
+
+export const createTtlCache = <T>(initialTtlMs = 0, maxEntries = 500): TtlCache<T> => {
+  let ttlMs = initialTtlMs;
+  const entries = new Map<string, { value: T; expiresAt: number }>();
+  const inFlight = new Map<string, Promise<T>>();
+  const counters = { hits: 0, misses: 0, inFlightHits: 0 };
+
+  const prune = (now: number) => {
+    for (const [key, entry] of entries) {
+      if (entry.expiresAt <= now) {
+        entries.delete(key);
+      }
+    }
+    while (entries.size > maxEntries) {
+      const oldestKey = entries.keys().next().value as string;
+      entries.delete(oldestKey);
+    }
+  };
+
+  const getOrLoad = async (
+    key: string,
+    loader: () => Promise<T>,
+    shouldCache: (value: T) => boolean = () => true
+  ): Promise<T> => {
+    if (ttlMs <= 0) {
+      return loader();
+    }
+    const now = Date.now();
+    const cached = entries.get(key);
+    if (cached && cached.expiresAt > now) {
+      counters.hits += 1;
+      return cached.value;
+    }
+    const pending = inFlight.get(key);
+    if (pending) {
+      counters.inFlightHits += 1;
+      return pending;
+    }
+    counters.misses += 1;
+    const promise = loader()
+      .then((value) => {
+        if (shouldCache(value)) {
+          entries.set(key, { value, expiresAt: Date.now() + ttlMs });
+          prune(Date.now());
+        }
+        return value;
+      })
+      .finally(() => {
+        inFlight.delete(key);
+      });
+    inFlight.set(key, promise);
+    return promise;
+  };
+
+  return {
+    getOrLoad,
+    configure: (nextTtlMs: number) => {
+      ttlMs = Math.max(0, nextTtlMs);
+      entries.clear();
+    },
+    clear: () => {
+      entries.clear();
+      inFlight.clear();
+      counters.hits = 0;
+      counters.misses = 0;
+      counters.inFlightHits = 0;
+    },
+    stats: () => ({ ttlMs, size: entries.size, ...counters }),
+  };
+};
+
+export const formatCacheHitRatio = (stats: TtlCacheStats): string => {
+  const served = stats.hits + stats.inFlightHits;
+  const total = served + stats.misses;
+  return total ? `${((served / total) * 100).toFixed(1)}%` : "-";
+};
+
+const sortParams = (params: Record<string, unknown>): Array<[string, unknown]> =>
+  Object.entries(params)
+    .filter(([, value]) => value !== undefined && value !== null)
+    .sort(([a], [b]) => a.localeCompare(b));
+
+export const fingerprintSecret = (secret?: string | null): string =>
+  secret ? createHash("sha256").update(secret).digest("hex").slice(0, 16) : "none";
+
+export const buildRadarCacheKey = (
+  path: string,
+  params: Record<string, unknown>,
+  source: "public" | "token",
+  token?: string | null
+): string => {
+  const auth = source === "token" ? `token:${fingerprintSecret(token)}` : "public";
+  return `${path}?${JSON.stringify(sortParams(params))}#${auth}`;
+};
+
+export const hashCacheKey = (value: unknown): string => createHash("sha256").update(JSON.stringify(value)).digest("hex");
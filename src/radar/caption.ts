@@ -0,0 +1,63 @@
+import type { RadarChartData } from "./fetch.js";
+import { formatComparisonLines, type RadarComparisonData } from "./compare.js";
+import { formatLocationTitle, localizeCountryLabel, type LabelLanguage } from "./countries.js";
+import { formatTimestamp } from "./dateRange.js";
+import type { RadarMultiLocationData } from "./multiLocation.js";
+import type { RadarTrendData } from "./trend.js";
+
+export const buildRadarCaption = (data: RadarChartData, timezone: string, language: LabelLanguage = "en"): string => {
+  return [
+    `Cloudflare Radar ${formatLocationTitle(data.params.location, language)} — ${data.label}`,
+    formatTimestamp(timezone),
+  ].join("\n");
+};
+
+export const buildComparisonCaption = (
+  comparison: RadarComparisonData,
+  timezone: string,
+  language: LabelLanguage = "en"
+): string => {
+  const formatLabel =
+    comparison.current.labelType === "country"
+      ? (label: string) => localizeCountryLabel(label, language)
+      : (label: string) => label;
+  return [
+    buildRadarCaption(comparison.current, timezone, language),
+    "📊 تغییر نسبت به دوره قبل:",
+    ...formatComparisonLines(comparison.changes, formatLabel),
+  ].join("\n");
+};
+
+export const buildMultiLocationCaption = (
+  data: RadarMultiLocationData,
+  timezone: string,
+  language: LabelLanguage = "en"
+): string => {
+  return [
+    `Cloudflare Radar — ${data.label}`,
+    formatTimestamp(timezone),
+    `🌍 مقایسه: ${data.datasets.map((dataset) => formatLocationTitle(dataset.location, language)).join("، ")}`,
+  ].join("\n");
+};
+
+const formatTrendValue = (trend: RadarTrendData, value: number | null): string => {
+  if (value === null) {
+    return trend.definition.metric === "RANK" ? "خارج از لیست" : "-";
+  }
+  return trend.definition.metric === "RANK" ? `#${Math.round(value)}` : `${Number(value.toFixed(2))}`;
+};
+
+export const buildTrendCaption = (trend: RadarTrendData, timezone: string, language: LabelLanguage = "en"): string => {
+  const { definition } = trend;
+  const label = trend.labelType === "country" ? localizeCountryLabel(definition.label, language) : definition.label;
+  const last = trend.points[trend.points.length - 1];
+  return [
+    `Cloudflare Radar ${formatLocationTitle(trend.location, language)} — ${trend.endpointLabel}`,
+    `📈 روند ${label} (${definition.metric === "RANK" ? "رتبه" : "مقدار"}) — ${definition.days} روز اخیر، ${
+      definition.bucket === "WEEK" ? "هفتگی" : "روزانه"
+    }`,
+    `آخرین: ${formatTrendValue(trend, last?.value ?? null)}`,
+    `🗄 از تاریخچه ذخیره‌شده (${trend.samples} نمونه)`,
+    formatTimestamp(timezone),
+  ].join("\n");
+};
@@ -0,0 +1,119 @@
+import { logWarn } from "../logger.js";
+import { localChartRenderer } from "./localRenderer.js";
+import { quickChartRenderer } from "./quickchartRenderer.js";
+import type { MapRegion } from "./worldMap.js";
+
+export type ChartRendererName = "quickchart" | "local";
+
+export type ChartRenderColor = {
+  border: string;
+  fill: string;
+  line: string;
+};
+
+export type ChartRenderDataset = {
+  label: string;
+  values: Array<number | null>;
+  color: ChartRenderColor;
+  fill: boolean;
+};
+
+export type ChartRenderMap = {
+  region: MapRegion;
+  codes: string[];
+  noDataLabel: string;
+};
+
+export type ChartRenderSpec = {
+  type: "bar" | "line" | "map";
+  title: string;
+  labels: string[];
+  datasets: ChartRenderDataset[];
+  showLegend: boolean;
+  reverseY: boolean;
+  width: number;
+  height: number;
+  map?: ChartRenderMap;
+};
+
+export type ChartRendererOptions = {
+  renderer: ChartRendererName;
+  fallbackToLocal: boolean;
+  quickchartUrl: string;
+  quickchartTimeoutMs: number;
+  fontFiles: string[];
+};
+
+export type ChartRenderer = {
+  name: ChartRendererName;
+  supports: Array<ChartRenderSpec["type"]>;
+  render: (spec: ChartRenderSpec, options: ChartRendererOptions) => Promise<Buffer>;
+};
+
+const renderers = new Map<ChartRendererName, ChartRenderer>([
+  [quickChartRenderer.name, quickChartRenderer],
+  [localChartRenderer.name, localChartRenderer],
+]);
+let lastUsedRenderer: ChartRendererName | null = null;
+let rendererOptions: ChartRendererOptions = {
+  renderer: "quickchart",
+  fallbackToLocal: true,
+  quickchartUrl: "https://quickchart.io/chart",
+  quickchartTimeoutMs: 10_000,
+  fontFiles: [],
+};
+
+export const registerChartRenderer = (renderer: ChartRenderer) => {
+  renderers.set(renderer.name, renderer);
+};
+
+export const configureChartRenderer = (options: Partial<ChartRendererOptions>) => {
+  rendererOptions = { ...rendererOptions, ...options };
+};
+
+export type ChartRendererStatus = {
+  renderer: ChartRendererName;
+  fallbackToLocal: boolean;
+  lastUsed: ChartRendererName | null;
+};
+
+export const getChartRendererStatus = (): ChartRendererStatus => ({
+  renderer: rendererOptions.renderer,
+  fallbackToLocal: rendererOptions.fallbackToLocal,
+  lastUsed: lastUsedRenderer,
+});
+
+const resolveRendererChain = (type: ChartRenderSpec["type"]): ChartRenderer[] => {
+  const names: ChartRendererName[] =
+    rendererOptions.renderer === "local" || !rendererOptions.fallbackToLocal
+      ? [rendererOptions.renderer]
+      : [rendererOptions.renderer, "local"];
+  const chain = names.flatMap((name) => renderers.get(name) ?? []).filter((renderer) => renderer.supports.includes(type));
+  return chain.length ? chain : [...renderers.values()].filter((renderer) => renderer.supports.includes(type));
+};
+
+export const renderChart = async (spec: ChartRenderSpec): Promise<{ buffer: Buffer; renderer: ChartRendererName }> => {
+  const chain = resolveRendererChain(spec.type);
+  if (!chain.length) {
+    throw new Error(`No chart renderer registered for ${spec.type} charts`);
+  }
+  let lastError: unknown;
+  for (const [index, renderer] of chain.entries()) {
+    try {
+      const buffer = await renderer.render(spec, rendererOptions);
+      lastUsedRenderer = renderer.name;
+      return { buffer, renderer: renderer.name };
+    } catch (error) {
+      lastError = error;
+      const next = chain[index + 1];
+      if (next) {
+        await logWarn("chart_render_fallback_used", {
+          renderer: renderer.name,
+          fallback: next.name,
+          reason: error instanceof Error ? error.message : String(error),
+        });
+      }
+    }
+  }
+  throw lastError;
+};
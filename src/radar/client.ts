@@ -1,5 +1,8 @@
 import axios from "axios";
-import { logInfo, logWarn } from "../logger.js";
+import { logWarn } from "../logger.js";
+import { fingerprintSecret } from "./cache.js";
+import { radarRateLimiter, type RadarRequestPriority } from "./rateLimiter.js";
+import { FixtureMissingError, normalizeFixtureUrl, withFixture } from "./fixtures.js";
 
 export const CF_ORIGIN = "https://api.cloudflare.com";
 export const CF_API_BASE = `${CF_ORIGIN}/client/v4`;
@@ -9,10 +12,31 @@ export type RadarAuthMode = "public" | "token" | "auto";
 
 export type RadarQueryParamValue = string | number | boolean | Array<string | number> | undefined;
 
+export type RadarRetryPolicy = {
+  retryMax: number;
+  retryBaseDelayMs: number;
+};
+
+export type RadarRequestOptions = {
+  timeoutMs?: number;
+  retry?: RadarRetryPolicy;
+  priority?: RadarRequestPriority;
+  absoluteRange?: boolean;
+};
+
+export type RadarRequestAttempt = {
+  attempt: number;
+  status: number | null;
+  durationMs: number;
+  errorCode?: RadarTransportErrorCode;
+  retryDelayMs?: number;
+};
+
 export type RadarRequestMeta = {
   url: string;
   status: number;
   modeUsed: "public" | "token";
+  attempts: RadarRequestAttempt[];
 };
 
 export class RadarAuthError extends Error {
@@ -32,6 +56,7 @@ export class RadarHttpError extends Error {
   params: Record<string, RadarQueryParamValue>;
   modeUsed: "public" | "token";
   responseBodyTrunc: string;
+  attempts: RadarRequestAttempt[];
 
   constructor(message: string, details: Omit<RadarHttpError, "name" | "message">) {
     super(message);
@@ -42,6 +67,37 @@ export class RadarHttpError extends Error {
     this.params = details.params;
     this.modeUsed = details.modeUsed;
     this.responseBodyTrunc = details.responseBodyTrunc;
+    this.attempts = details.attempts;
+  }
+}
+
+export type RadarTransportErrorCode = "timeout" | "network";
+
+export class RadarTransportError extends Error {
+  code: RadarTransportErrorCode;
+  url: string;
+  path: string;
+  params: Record<string, RadarQueryParamValue>;
+  modeUsed: "public" | "token";
+  attempts: RadarRequestAttempt[];
+
+  constructor(
+    code: RadarTransportErrorCode,
+    message: string,
+    details: Omit<RadarTransportError, "name" | "message" | "code">,
+    cause?: unknown
+  ) {
+    super(message);
+    this.name = "RadarTransportError";
+    this.code = code;
+    this.url = details.url;
+    this.path = details.path;
+    this.params = details.params;
+    this.modeUsed = details.modeUsed;
+    this.attempts = details.attempts;
+    if (cause instanceof Error && cause.stack) {
+      this.stack = cause.stack;
+    }
   }
 }
 
@@ -62,6 +118,11 @@ export class RadarRouteInvalidError extends Error {
 const USER_AGENT = "CloudFlureBot/2.0";
 const RESPONSE_BODY_LIMIT = 2000;
 const DEFAULT_TIMEOUT_MS = 15_000;
+const DEFAULT_RETRY_POLICY: RadarRetryPolicy = { retryMax: 0, retryBaseDelayMs: 500 };
+const MAX_RETRY_DELAY_MS = 30_000;
+const TIMEOUT_ERROR_CODES = new Set(["ECONNABORTED", "ETIMEDOUT"]);
+
+const sleep = (ms: number) => new Promise((resolve) => setTimeout(resolve, ms));
 
 const truncate = (value: string, maxChars: number) => (value.length > maxChars ? `${value.slice(0, maxChars)}…` : value);
 
@@ -84,13 +145,57 @@ const looksLikeRouteInvalid = (responseBody: string): boolean => {
   }
 };
 
+export type RadarBaseUrls = {
+  publicBaseUrl: string;
+  tokenBaseUrl: string;
+};
+
+const normalizeBaseUrl = (value: string): string => {
+  const trimmed = value.trim().replace(/\/+$/, "");
+  let parsed: URL;
+  try {
+    parsed = new URL(trimmed);
+  } catch {
+    throw new Error(`Invalid Radar base URL: ${value}`);
+  }
+  if (parsed.protocol !== "https:" && parsed.protocol !== "http:") {
+    throw new Error(`Invalid Radar base URL protocol: ${value}`);
+  }
+  if (parsed.search || parsed.hash) {
+    throw new Error(`Radar base URL must not contain a query or fragment: ${value}`);
+  }
+  return trimmed;
+};
+
+let radarBaseUrls: RadarBaseUrls = { publicBaseUrl: RADAR_BASE_URL, tokenBaseUrl: RADAR_BASE_URL };
+
+export const configureRadarBaseUrls = (urls: RadarBaseUrls) => {
+  radarBaseUrls = {
+    publicBaseUrl: normalizeBaseUrl(urls.publicBaseUrl),
+    tokenBaseUrl: normalizeBaseUrl(urls.tokenBaseUrl),
+  };
+};
+
+export const getRadarBaseUrl = (modeUsed: "public" | "token"): string =>
+  modeUsed === "token" ? radarBaseUrls.tokenBaseUrl : radarBaseUrls.publicBaseUrl;
+
+const isWithinBaseUrl = (finalUrl: URL, baseUrl: URL): boolean => {
+  const basePath = baseUrl.pathname.replace(/\/+$/, "");
+  return (
+    finalUrl.origin === baseUrl.origin &&
+    finalUrl.pathname.startsWith(`${basePath}/`) &&
+    finalUrl.pathname.length > basePath.length + 1
+  );
+};
+
 export const buildRadarUrl = (
   endpoint: string,
-  params: Record<string, RadarQueryParamValue>
+  params: Record<string, RadarQueryParamValue>,
+  baseUrl: string = radarBaseUrls.publicBaseUrl
 ): string => {
   const normalizedEndpoint = endpoint.startsWith("/") ? endpoint : `/${endpoint}`;
-  const baseUrl = RADAR_BASE_URL.replace(/\/$/, "");
-  const url = new URL(`${baseUrl}${normalizedEndpoint}`);
+  const normalizedBase = baseUrl.replace(/\/+$/, "");
+  const url = new URL(`${normalizedBase}${normalizedEndpoint}`);
   Object.entries(params).forEach(([key, value]) => {
     if (value === undefined || value === null) {
       return;
@@ -104,7 +209,7 @@ export const buildRadarUrl = (
     url.searchParams.set(key, String(value));
   });
   const finalUrl = url.toString();
-  if (!finalUrl.includes("/client/v4/radar/")) {
+  if (!isWithinBaseUrl(url, new URL(normalizedBase))) {
     throw new RadarRouteInvalidError("مسیر API اشتباه است (RADAR_ROUTE_INVALID). در حال اصلاح.", {
       url: finalUrl,
       endpoint: normalizedEndpoint,
@@ -121,14 +226,58 @@ export const isRadarTokenValidFormat = (token?: string | null): boolean => {
   return /^[A-Za-z0-9_\-.]{20,}$/.test(token.trim());
 };
 
+export const parseRetryAfterMs = (value: unknown, now: number = Date.now()): number | null => {
+  if (typeof value !== "string" && typeof value !== "number") {
+    return null;
+  }
+  const raw = String(value).trim();
+  if (!raw) {
+    return null;
+  }
+  const seconds = Number(raw);
+  if (Number.isFinite(seconds)) {
+    return Math.max(0, seconds * 1000);
+  }
+  const date = Date.parse(raw);
+  return Number.isNaN(date) ? null : Math.max(0, date - now);
+};
+
+export const computeRetryDelayMs = (
+  attempt: number,
+  baseDelayMs: number,
+  retryAfter?: unknown,
+  random: () => number = Math.random
+): number => {
+  const retryAfterMs = parseRetryAfterMs(retryAfter);
+  if (retryAfterMs !== null) {
+    return Math.min(retryAfterMs, MAX_RETRY_DELAY_MS);
+  }
+  const backoff = baseDelayMs * 2 ** (attempt - 1);
+  const jitter = Math.floor(random() * baseDelayMs);
+  return Math.min(backoff + jitter, MAX_RETRY_DELAY_MS);
+};
+
+const isRetryableStatus = (status: number): boolean => status === 429 || status >= 500;
+
+const classifyTransportError = (error: unknown): RadarTransportErrorCode => {
+  const code = (error as { code?: unknown } | null)?.code;
+  return typeof code === "string" && TIMEOUT_ERROR_CODES.has(code) ? "timeout" : "network";
+};
+
+export const radarRateLimitKey = (modeUsed: "public" | "token", token?: string | null): string =>
+  modeUsed === "token" ? `token:${fingerprintSecret(token)}` : "public";
+
 const executeRequest = async <T>(
   path: string,
   params: Record<string, RadarQueryParamValue>,
   modeUsed: "public" | "token",
   token: string | undefined,
-  timeoutMs: number
+  options: RadarRequestOptions = {}
 ): Promise<{ data: T; meta: RadarRequestMeta }> => {
-  const url = buildRadarUrl(path, params);
+  const url = buildRadarUrl(path, params, getRadarBaseUrl(modeUsed));
+  const timeoutMs = options.timeoutMs ?? DEFAULT_TIMEOUT_MS;
+  const retry = options.retry ?? DEFAULT_RETRY_POLICY;
+  const rateLimitKey = radarRateLimitKey(modeUsed, token);
   const headers: Record<string, string> = {
     Accept: "application/json",
     "User-Agent": USER_AGENT,
@@ -137,13 +286,58 @@ const executeRequest = async <T>(
     headers.Authorization = `Bearer ${token}`;
   }
 
-  const response = await axios.get(url, {
-    timeout: timeoutMs,
-    headers,
-    validateStatus: () => true,
-  });
-  const status = response.status;
-  if (status < 200 || status >= 300) {
+  const fixtureRequest = { url: normalizeFixtureUrl(url, { absoluteRange: options.absoluteRange }), modeUsed };
+  const attempts: RadarRequestAttempt[] = [];
+  for (let attempt = 1; ; attempt += 1) {
+    await radarRateLimiter.acquire(rateLimitKey, options.priority);
+    const startedAt = Date.now();
+    const canRetry = attempt <= retry.retryMax;
+    let response;
+    try {
+      response = await withFixture("radar", fixtureRequest, async () => {
+        const result = await axios.get(url, {
+          timeout: timeoutMs,
+          headers,
+          validateStatus: () => true,
+        });
+        return { status: result.status, headers: result.headers as Record<string, unknown>, data: result.data };
+      });
+    } catch (error) {
+      const errorCode = classifyTransportError(error);
+      const record: RadarRequestAttempt = { attempt, status: null, durationMs: Date.now() - startedAt, errorCode };
+      attempts.push(record);
+      if (canRetry && !(error instanceof FixtureMissingError)) {
+        record.retryDelayMs = computeRetryDelayMs(attempt, retry.retryBaseDelayMs);
+        await logWarn("radar_request_retry", { finalUrl: url, endpoint: path, authMode: modeUsed, ...record });
+        await sleep(record.retryDelayMs);
+        continue;
+      }
+      throw new RadarTransportError(
+        errorCode,
+        error instanceof FixtureMissingError
+          ? error.message
+          : errorCode === "timeout"
+            ? "Radar API request timed out"
+            : "Radar API request failed",
+        { url, path, params, modeUsed, attempts },
+        error
+      );
+    }
+
+    const status = response.status;
+    const record: RadarRequestAttempt = { attempt, status, durationMs: Date.now() - startedAt };
+    attempts.push(record);
+    if (status >= 200 && status < 300) {
+      return { data: response.data as T, meta: { url, status, modeUsed, attempts } };
+    }
+    if (canRetry && isRetryableStatus(status)) {
+      const retryAfter = status === 429 ? response.headers?.["retry-after"] : undefined;
+      record.retryDelayMs = computeRetryDelayMs(attempt, retry.retryBaseDelayMs, retryAfter);
+      await logWarn("radar_request_retry", { finalUrl: url, endpoint: path, authMode: modeUsed, ...record });
+      await sleep(record.retryDelayMs);
+      continue;
+    }
+
     const responseBody =
       typeof response.data === "string" ? response.data : JSON.stringify(response.data ?? "");
     const responseBodyTrunc = truncate(responseBody, RESPONSE_BODY_LIMIT);
@@ -154,6 +348,7 @@ const executeRequest = async <T>(
       params,
       status,
       authMode: modeUsed,
+      attempts,
       responseBody: responseBodyTrunc,
       classification: routeInvalid ? "RADAR_ROUTE_INVALID" : "RADAR_HTTP_ERROR",
       userMessage: routeInvalid ? "مسیر API اشتباه است (RADAR_ROUTE_INVALID). در حال اصلاح." : undefined,
@@ -165,9 +360,9 @@ const executeRequest = async <T>(
       params,
       modeUsed,
       responseBodyTrunc,
+      attempts,
     });
   }
-  return { data: response.data as T, meta: { url, status, modeUsed } };
 };
 
 const isFallbackStatus = (status: number): boolean => status >= 400 && status < 500;
@@ -177,24 +372,23 @@ export const requestRadar = async <T>(
   params: Record<string, RadarQueryParamValue>,
   mode: RadarAuthMode,
   token?: string,
-  options?: { timeoutMs?: number }
+  options?: RadarRequestOptions
 ): Promise<{ data: T; meta: RadarRequestMeta }> => {
-  const timeoutMs = options?.timeoutMs ?? DEFAULT_TIMEOUT_MS;
   const tokenValue = token?.trim();
   if (mode === "public") {
-    return executeRequest<T>(path, params, "public", undefined, timeoutMs);
+    return executeRequest<T>(path, params, "public", undefined, options);
   }
 
   if (mode === "token") {
     if (!tokenValue) {
       throw new RadarAuthError("missing_token", "Radar API token is missing");
     }
-    return executeRequest<T>(path, params, "token", tokenValue, timeoutMs);
+    return executeRequest<T>(path, params, "token", tokenValue, options);
   }
 
   if (tokenValue) {
     try {
-      return await executeRequest<T>(path, params, "token", tokenValue, timeoutMs);
+      return await executeRequest<T>(path, params, "token", tokenValue, options);
     } catch (error) {
       if (error instanceof RadarHttpError && isFallbackStatus(error.status)) {
         if (looksLikeRouteInvalid(error.responseBodyTrunc)) {
@@ -206,93 +400,11 @@ export const requestRadar = async <T>(
           params,
           modeUsed: "token",
         });
-        return executeRequest<T>(path, params, "public", undefined, timeoutMs);
+        return executeRequest<T>(path, params, "public", undefined, options);
       }
       throw error;
     }
   }
 
-  return executeRequest<T>(path, params, "public", undefined, timeoutMs);
-};
-
-type PublicContract = {
-  path: string;
-  paramMode: "dateRange" | "sinceUntil";
-  extraParams?: Record<string, string>;
-};
-
-let cachedPublicContract: PublicContract | null = null;
-
-const deriveContractFromError = (responseBody: string): Partial<PublicContract> => {
-  const normalized = responseBody.toLowerCase();
-  if (normalized.includes("since") && normalized.includes("until")) {
-    return { paramMode: "sinceUntil" };
-  }
-  if (normalized.includes("daterange")) {
-    return { paramMode: "dateRange" };
-  }
-  return {};
-};
-
-const buildProbeDateRangeParams = () => ({ dateRange: "7d", limit: 10 });
-
-const buildProbeSinceUntilParams = () => {
-  const until = new Date();
-  const since = new Date(until.getTime() - 7 * 24 * 60 * 60 * 1000);
-  return {
-    since: since.toISOString(),
-    until: until.toISOString(),
-    limit: 10,
-  };
-};
-
-export const probeRadarPublicEndpoint = async (): Promise<PublicContract> => {
-  if (cachedPublicContract) {
-    return cachedPublicContract;
-  }
-
-  const basePath = "/http/top/locations/http_protocol/HTTPS";
-  const candidates: Array<{
-    path: string;
-    paramMode: "dateRange" | "sinceUntil";
-    extraParams?: Record<string, string>;
-    params: Record<string, string | number | boolean | undefined>;
-  }> = [
-    { path: basePath, paramMode: "dateRange", params: buildProbeDateRangeParams() },
-    { path: basePath, paramMode: "sinceUntil", params: buildProbeSinceUntilParams() },
-  ];
-
-  let lastErrorBody = "";
-  for (const candidate of candidates) {
-    const mergedParams = { ...candidate.params, ...(candidate.extraParams ?? {}) };
-    try {
-      await executeRequest(basePath, mergedParams, "public", undefined, DEFAULT_TIMEOUT_MS);
-      cachedPublicContract = {
-        path: candidate.path,
-        paramMode: candidate.paramMode,
-        extraParams: candidate.extraParams,
-      };
-      await logInfo("radar_public_contract_detected", cachedPublicContract);
-      return cachedPublicContract;
-    } catch (error) {
-      if (error instanceof RadarHttpError) {
-        lastErrorBody = error.responseBodyTrunc;
-        const derived = deriveContractFromError(error.responseBodyTrunc);
-        if (derived.paramMode && derived.paramMode !== candidate.paramMode) {
-          const params = derived.paramMode === "sinceUntil" ? buildProbeSinceUntilParams() : buildProbeDateRangeParams();
-          candidates.push({ path: basePath, paramMode: derived.paramMode, params });
-        }
-      }
-    }
-  }
-
-  cachedPublicContract = {
-    path: basePath,
-    paramMode: "dateRange",
-  };
-  await logWarn("radar_public_contract_fallback", {
-    endpoint: basePath,
-    responseBody: truncate(lastErrorBody, RESPONSE_BODY_LIMIT),
-  });
-  return cachedPublicContract;
+  return executeRequest<T>(path, params, "public", undefined, options);
 };
@@ -0,0 +1,117 @@
+import { fetchRadarData, type RadarChartData, type RadarFetchConfig } from "./fetch.js";
+import type { RadarEndpointDefinition, RadarEndpointName, RadarEndpointParams } from "./endpoints.js";
+import type { RadarChartSeries } from "./generate.js";
+
+export type RadarChange = {
+  label: string;
+  current: number;
+  previous: number | null;
+  changePct: number | null;
+};
+
+export type RadarComparisonData = {
+  current: RadarChartData;
+  previous: RadarChartData;
+  previousValues: Array<number | null>;
+  changes: RadarChange[];
+};
+
+const MAX_CAPTION_CHANGES = 10;
+
+const computeChangePct = (current: number, previous: number | null): number | null => {
+  if (previous === null || previous === 0) {
+    return null;
+  }
+  return ((current - previous) / Math.abs(previous)) * 100;
+};
+
+const average = (values: Array<number | null>): number | null => {
+  const numeric = values.filter((value): value is number => value !== null && Number.isFinite(value));
+  if (!numeric.length) {
+    return null;
+  }
+  return numeric.reduce((sum, value) => sum + value, 0) / numeric.length;
+};
+
+export const alignPreviousValues = (current: RadarChartData, previous: RadarChartData): Array<number | null> => {
+  if (current.kind === "timeseries") {
+    return current.labels.map((_, index) => previous.values[index] ?? null);
+  }
+  const byLabel = new Map(previous.labels.map((label, index) => [label, previous.values[index]]));
+  return current.labels.map((label) => byLabel.get(label) ?? null);
+};
+
+export const buildComparisonChanges = (
+  current: RadarChartData,
+  previousValues: Array<number | null>
+): RadarChange[] => {
+  if (current.kind === "timeseries") {
+    const currentAvg = average(current.values) ?? 0;
+    const previousAvg = average(previousValues);
+    return [
+      {
+        label: "avg",
+        current: currentAvg,
+        previous: previousAvg,
+        changePct: computeChangePct(currentAvg, previousAvg),
+      },
+    ];
+  }
+  return current.labels.map((label, index) => {
+    const value = current.values[index];
+    const previous = previousValues[index] ?? null;
+    return { label, current: value, previous, changePct: computeChangePct(value, previous) };
+  });
+};
+
+export const fetchRadarComparison = async (
+  params: RadarEndpointParams,
+  config: RadarFetchConfig,
+  endpoint: RadarEndpointDefinition | RadarEndpointName
+): Promise<RadarComparisonData> => {
+  const current = await fetchRadarData(params, config, endpoint);
+  const previous = await fetchRadarData(params, config, endpoint, { window: "previous" });
+  const previousValues = alignPreviousValues(current, previous);
+  return {
+    current,
+    previous,
+    previousValues,
+    changes: buildComparisonChanges(current, previousValues),
+  };
+};
+
+export const buildComparisonSeries = (comparison: RadarComparisonData): RadarChartSeries => {
+  const { current } = comparison;
+  return {
+    kind: current.kind,
+    labelType: current.labelType,
+    labels: current.labels,
+    values: current.values,
+    title: current.label,
+    location: current.params.location ?? null,
+    aggInterval: current.aggInterval,
+    datasets: [
+      { label: `${current.label} (current)`, values: current.values },
+      { label: `${current.label} (previous)`, values: comparison.previousValues },
+    ],
+  };
+};
+
+export const formatChangePct = (changePct: number | null): string => {
+  if (changePct === null || !Number.isFinite(changePct)) {
+    return "—";
+  }
+  const arrow = changePct > 0 ? "▲" : changePct < 0 ? "▼" : "•";
+  const sign = changePct > 0 ? "+" : "";
+  return `${arrow} ${sign}${changePct.toFixed(1)}%`;
+};
+
+export const formatComparisonLines = (
+  changes: RadarChange[],
+  formatLabel: (label: string) => string = (label) => label
+): string[] => {
+  return changes.slice(0, MAX_CAPTION_CHANGES).map((change) => {
+    const label = change.label === "avg" ? "میانگین" : formatLabel(change.label);
+    return `${label}: ${formatChangePct(change.changePct)}`;
+  });
+};
@@ -0,0 +1,54 @@
+import { ISO_COUNTRIES } from "./countryTable.js";
+
+export type LabelLanguage = "fa" | "en";
+
+const GLOBAL_FLAG = "🌐";
+const GLOBAL_NAMES: Record<LabelLanguage, string> = { en: "Global", fa: "جهانی" };
+const REGIONAL_INDICATOR_OFFSET = 0x1f1e6 - "A".charCodeAt(0);
+
+export const toLabelLanguage = (value?: string | null): LabelLanguage => (value?.toLowerCase() === "en" ? "en" : "fa");
+
+export const isCountryCode = (value: string): boolean => /^[A-Z]{2}$/.test(value.trim().toUpperCase());
+
+export const countryFlag = (code?: string | null): string => {
+  if (!code || !isCountryCode(code)) {
+    return GLOBAL_FLAG;
+  }
+  return String.fromCodePoint(
+    ...code
+      .trim()
+      .toUpperCase()
+      .split("")
+      .map((char) => char.charCodeAt(0) + REGIONAL_INDICATOR_OFFSET)
+  );
+};
+
+export const countryName = (code?: string | null, language: LabelLanguage = "en"): string => {
+  if (!code || !isCountryCode(code)) {
+    return GLOBAL_NAMES[language];
+  }
+  const normalized = code.trim().toUpperCase();
+  return ISO_COUNTRIES[normalized]?.[language] ?? normalized;
+};
+
+export const isKnownCountryCode = (value: string): boolean =>
+  isCountryCode(value) && ISO_COUNTRIES[value.trim().toUpperCase()] !== undefined;
+
+export const formatLocationTitle = (code?: string | null, language: LabelLanguage = "en"): string =>
+  `${countryFlag(code)} ${countryName(code, language)}`;
+
+export const localizeCountryLabel = (label: string, language: LabelLanguage): string =>
+  isKnownCountryCode(label) ? formatLocationTitle(label, language) : label;
+
+const labelAliases = (label: string): Set<string> => {
+  const normalized = label.trim().toUpperCase();
+  if (!isKnownCountryCode(normalized)) {
+    return new Set([normalized]);
+  }
+  return new Set([normalized, countryName(normalized, "en").toUpperCase(), countryName(normalized, "fa")]);
+};
+
+export const findLabelIndex = (labels: string[], label: string): number => {
+  const aliases = labelAliases(label);
+  return labels.findIndex((item) => aliases.has(item.trim().toUpperCase()));
+};
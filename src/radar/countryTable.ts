@@ -0,0 +1,257 @@
+export type CountryNames = {
+  en: string;
+  fa: string;
+};
+
+export const ISO_COUNTRIES: Record<string, CountryNames> = {
+  AD: { en: "Andorra", fa: "آندورا" },
+  AE: { en: "United Arab Emirates", fa: "امارات متحدهٔ عربی" },
+  AF: { en: "Afghanistan", fa: "افغانستان" },
+  AG: { en: "Antigua & Barbuda", fa: "آنتیگوا و باربودا" },
+  AI: { en: "Anguilla", fa: "آنگویلا" },
+  AL: { en: "Albania", fa: "آلبانی" },
+  AM: { en: "Armenia", fa: "ارمنستان" },
+  AO: { en: "Angola", fa: "آنگولا" },
+  AQ: { en: "Antarctica", fa: "جنوبگان" },
+  AR: { en: "Argentina", fa: "آرژانتین" },
+  AS: { en: "American Samoa", fa: "ساموآی امریکا" },
+  AT: { en: "Austria", fa: "اتریش" },
+  AU: { en: "Australia", fa: "استرالیا" },
+  AW: { en: "Aruba", fa: "آروبا" },
+  AX: { en: "Åland Islands", fa: "جزایر آلاند" },
+  AZ: { en: "Azerbaijan", fa: "جمهوری آذربایجان" },
+  BA: { en: "Bosnia & Herzegovina", fa: "بوسنی و هرزگوین" },
+  BB: { en: "Barbados", fa: "باربادوس" },
+  BD: { en: "Bangladesh", fa: "بنگلادش" },
+  BE: { en: "Belgium", fa: "بلژیک" },
+  BF: { en: "Burkina Faso", fa: "بورکینافاسو" },
+  BG: { en: "Bulgaria", fa: "بلغارستان" },
+  BH: { en: "Bahrain", fa: "بحرین" },
+  BI: { en: "Burundi", fa: "بوروندی" },
+  BJ: { en: "Benin", fa: "بنین" },
+  BL: { en: "St. Barthélemy", fa: "سن بارتلمی" },
+  BM: { en: "Bermuda", fa: "برمودا" },
+  BN: { en: "Brunei", fa: "برونئی" },
+  BO: { en: "Bolivia", fa: "بولیوی" },
+  BQ: { en: "Caribbean Netherlands", fa: "جزایر کارائیب هلند" },
+  BR: { en: "Brazil", fa: "برزیل" },
+  BS: { en: "Bahamas", fa: "باهاما" },
+  BT: { en: "Bhutan", fa: "بوتان" },
+  BV: { en: "Bouvet Island", fa: "جزیرهٔ بووه" },
+  BW: { en: "Botswana", fa: "بوتسوانا" },
+  BY: { en: "Belarus", fa: "بلاروس" },
+  BZ: { en: "Belize", fa: "بلیز" },
+  CA: { en: "Canada", fa: "کانادا" },
+  CC: { en: "Cocos (Keeling) Islands", fa: "جزایر کوکوس" },
+  CD: { en: "Congo - Kinshasa", fa: "کنگو - کینشاسا" },
+  CF: { en: "Central African Republic", fa: "جمهوری افریقای مرکزی" },
+  CG: { en: "Congo - Brazzaville", fa: "کنگو - برازویل" },
+  CH: { en: "Switzerland", fa: "سوئیس" },
+  CI: { en: "Côte d’Ivoire", fa: "ساحل عاج" },
+  CK: { en: "Cook Islands", fa: "جزایر کوک" },
+  CL: { en: "Chile", fa: "شیلی" },
+  CM: { en: "Cameroon", fa: "کامرون" },
+  CN: { en: "China", fa: "چین" },
+  CO: { en: "Colombia", fa: "کلمبیا" },
+  CR: { en: "Costa Rica", fa: "کاستاریکا" },
+  CU: { en: "Cuba", fa: "کوبا" },
+  CV: { en: "Cape Verde", fa: "کیپ‌ورد" },
+  CW: { en: "Curaçao", fa: "کوراسائو" },
+  CX: { en: "Christmas Island", fa: "جزیرهٔ کریسمس" },
+  CY: { en: "Cyprus", fa: "قبرس" },
+  CZ: { en: "Czechia", fa: "چک" },
+  DE: { en: "Germany", fa: "آلمان" },
+  DJ: { en: "Djibouti", fa: "جیبوتی" },
+  DK: { en: "Denmark", fa: "دانمارک" },
+  DM: { en: "Dominica", fa: "دومینیکا" },
+  DO: { en: "Dominican Republic", fa: "جمهوری دومینیکن" },
+  DZ: { en: "Algeria", fa: "الجزایر" },
+  EC: { en: "Ecuador", fa: "اکوادور" },
+  EE: { en: "Estonia", fa: "استونی" },
+  EG: { en: "Egypt", fa: "مصر" },
+  EH: { en: "Western Sahara", fa: "صحرای غربی" },
+  ER: { en: "Eritrea", fa: "اریتره" },
+  ES: { en: "Spain", fa: "اسپانیا" },
+  ET: { en: "Ethiopia", fa: "اتیوپی" },
+  FI: { en: "Finland", fa: "فنلاند" },
+  FJ: { en: "Fiji", fa: "فیجی" },
+  FK: { en: "Falkland Islands", fa: "جزایر فالکلند" },
+  FM: { en: "Micronesia", fa: "میکرونزی" },
+  FO: { en: "Faroe Islands", fa: "جزایر فارو" },
+  FR: { en: "France", fa: "فرانسه" },
+  GA: { en: "Gabon", fa: "گابن" },
+  GB: { en: "United Kingdom", fa: "بریتانیا" },
+  GD: { en: "Grenada", fa: "گرنادا" },
+  GE: { en: "Georgia", fa: "گرجستان" },
+  GF: { en: "French Guiana", fa: "گویان فرانسه" },
+  GG: { en: "Guernsey", fa: "گرنزی" },
+  GH: { en: "Ghana", fa: "غنا" },
+  GI: { en: "Gibraltar", fa: "جبل‌الطارق" },
+  GL: { en: "Greenland", fa: "گرینلند" },
+  GM: { en: "Gambia", fa: "گامبیا" },
+  GN: { en: "Guinea", fa: "گینه" },
+  GP: { en: "Guadeloupe", fa: "گوادلوپ" },
+  GQ: { en: "Equatorial Guinea", fa: "گینهٔ استوایی" },
+  GR: { en: "Greece", fa: "یونان" },
+  GS: { en: "South Georgia & South Sandwich Islands", fa: "جورجیای جنوبی و جزایر ساندویچ جنوبی" },
+  GT: { en: "Guatemala", fa: "گواتمالا" },
+  GU: { en: "Guam", fa: "گوام" },
+  GW: { en: "Guinea-Bissau", fa: "گینهٔ بیسائو" },
+  GY: { en: "Guyana", fa: "گویان" },
+  HK: { en: "Hong Kong SAR China", fa: "هنگ‌کنگ، منطقهٔ ویژهٔ اداری چین" },
+  HM: { en: "Heard & McDonald Islands", fa: "هرد و جزایر مک‌دونالد" },
+  HN: { en: "Honduras", fa: "هندوراس" },
+  HR: { en: "Croatia", fa: "کرواسی" },
+  HT: { en: "Haiti", fa: "هائیتی" },
+  HU: { en: "Hungary", fa: "مجارستان" },
+  ID: { en: "Indonesia", fa: "اندونزی" },
+  IE: { en: "Ireland", fa: "ایرلند" },
+  IL: { en: "Israel", fa: "اسرائیل" },
+  IM: { en: "Isle of Man", fa: "جزیرهٔ من" },
+  IN: { en: "India", fa: "هند" },
+  IO: { en: "British Indian Ocean Territory", fa: "قلمرو بریتانیا در اقیانوس هند" },
+  IQ: { en: "Iraq", fa: "عراق" },
+  IR: { en: "Iran", fa: "ایران" },
+  IS: { en: "Iceland", fa: "ایسلند" },
+  IT: { en: "Italy", fa: "ایتالیا" },
+  JE: { en: "Jersey", fa: "جرزی" },
+  JM: { en: "Jamaica", fa: "جامائیکا" },
+  JO: { en: "Jordan", fa: "اردن" },
+  JP: { en: "Japan", fa: "ژاپن" },
+  KE: { en: "Kenya", fa: "کنیا" },
+  KG: { en: "Kyrgyzstan", fa: "قرقیزستان" },
+  KH: { en: "Cambodia", fa: "کامبوج" },
+  KI: { en: "Kiribati", fa: "کیریباتی" },
+  KM: { en: "Comoros", fa: "کومور" },
+  KN: { en: "St. Kitts & Nevis", fa: "سنت کیتس و نویس" },
+  KP: { en: "North Korea", fa: "کرهٔ شمالی" },
+  KR: { en: "South Korea", fa: "کرهٔ جنوبی" },
+  KW: { en: "Kuwait", fa: "کویت" },
+  KY: { en: "Cayman Islands", fa: "جزایر کِیمن" },
+  KZ: { en: "Kazakhstan", fa: "قزاقستان" },
+  LA: { en: "Laos", fa: "لائوس" },
+  LB: { en: "Lebanon", fa: "لبنان" },
+  LC: { en: "St. Lucia", fa: "سنت لوسیا" },
+  LI: { en: "Liechtenstein", fa: "لیختن‌اشتاین" },
+  LK: { en: "Sri Lanka", fa: "سری‌لانکا" },
+  LR: { en: "Liberia", fa: "لیبریا" },
+  LS: { en: "Lesotho", fa: "لسوتو" },
+  LT: { en: "Lithuania", fa: "لیتوانی" },
+  LU: { en: "Luxembourg", fa: "لوکزامبورگ" },
+  LV: { en: "Latvia", fa: "لتونی" },
+  LY: { en: "Libya", fa: "لیبی" },
+  MA: { en: "Morocco", fa: "مراکش" },
+  MC: { en: "Monaco", fa: "موناکو" },
+  MD: { en: "Moldova", fa: "مولداوی" },
+  ME: { en: "Montenegro", fa: "مونته‌نگرو" },
+  MF: { en: "St. Martin", fa: "سنت مارتین" },
+  MG: { en: "Madagascar", fa: "ماداگاسکار" },
+  MH: { en: "Marshall Islands", fa: "جزایر مارشال" },
+  MK: { en: "North Macedonia", fa: "مقدونیهٔ شمالی" },
+  ML: { en: "Mali", fa: "مالی" },
+  MM: { en: "Myanmar (Burma)", fa: "میانمار (برمه)" },
+  MN: { en: "Mongolia", fa: "مغولستان" },
+  MO: { en: "Macao SAR China", fa: "ماکائو، منطقهٔ ویژهٔ اداری چین" },
+  MP: { en: "Northern Mariana Islands", fa: "جزایر ماریانای شمالی" },
+  MQ: { en: "Martinique", fa: "مارتینیک" },
+  MR: { en: "Mauritania", fa: "موریتانی" },
+  MS: { en: "Montserrat", fa: "مونت‌سرات" },
+  MT: { en: "Malta", fa: "مالت" },
+  MU: { en: "Mauritius", fa: "موریس" },
+  MV: { en: "Maldives", fa: "مالدیو" },
+  MW: { en: "Malawi", fa: "مالاوی" },
+  MX: { en: "Mexico", fa: "مکزیک" },
+  MY: { en: "Malaysia", fa: "مالزی" },
+  MZ: { en: "Mozambique", fa: "موزامبیک" },
+  NA: { en: "Namibia", fa: "نامیبیا" },
+  NC: { en: "New Caledonia", fa: "کالدونیای جدید" },
+  NE: { en: "Niger", fa: "نیجر" },
+  NF: { en: "Norfolk Island", fa: "جزیرهٔ نورفولک" },
+  NG: { en: "Nigeria", fa: "نیجریه" },
+  NI: { en: "Nicaragua", fa: "نیکاراگوئه" },
+  NL: { en: "Netherlands", fa: "هلند" },
+  NO: { en: "Norway", fa: "نروژ" },
+  NP: { en: "Nepal", fa: "نپال" },
+  NR: { en: "Nauru", fa: "نائورو" },
+  NU: { en: "Niue", fa: "نیوئه" },
+  NZ: { en: "New Zealand", fa: "نیوزیلند" },
+  OM: { en: "Oman", fa: "عمان" },
+  PA: { en: "Panama", fa: "پاناما" },
+  PE: { en: "Peru", fa: "پرو" },
+  PF: { en: "French Polynesia", fa: "پلی‌نزی فرانسه" },
+  PG: { en: "Papua New Guinea", fa: "پاپوا گینهٔ نو" },
+  PH: { en: "Philippines", fa: "فیلیپین" },
+  PK: { en: "Pakistan", fa: "پاکستان" },
+  PL: { en: "Poland", fa: "لهستان" },
+  PM: { en: "St. Pierre & Miquelon", fa: "سن پیر و میکلن" },
+  PN: { en: "Pitcairn Islands", fa: "جزایر پیت‌کرن" },
+  PR: { en: "Puerto Rico", fa: "پورتوریکو" },
+  PS: { en: "Palestinian Territories", fa: "سرزمین‌های فلسطینی" },
+  PT: { en: "Portugal", fa: "پرتغال" },
+  PW: { en: "Palau", fa: "پالائو" },
+  PY: { en: "Paraguay", fa: "پاراگوئه" },
+  QA: { en: "Qatar", fa: "قطر" },
+  RE: { en: "Réunion", fa: "رئونیون" },
+  RO: { en: "Romania", fa: "رومانی" },
+  RS: { en: "Serbia", fa: "صربستان" },
+  RU: { en: "Russia", fa: "روسیه" },
+  RW: { en: "Rwanda", fa: "رواندا" },
+  SA: { en: "Saudi Arabia", fa: "عربستان سعودی" },
+  SB: { en: "Solomon Islands", fa: "جزایر سلیمان" },
+  SC: { en: "Seychelles", fa: "سیشل" },
+  SD: { en: "Sudan", fa: "سودان" },
+  SE: { en: "Sweden", fa: "سوئد" },
+  SG: { en: "Singapore", fa: "سنگاپور" },
+  SH: { en: "St. Helena", fa: "سنت هلن" },
+  SI: { en: "Slovenia", fa: "اسلوونی" },
+  SJ: { en: "Svalbard & Jan Mayen", fa: "سوالبارد و یان ماین" },
+  SK: { en: "Slovakia", fa: "اسلواکی" },
+  SL: { en: "Sierra Leone", fa: "سیرالئون" },
+  SM: { en: "San Marino", fa: "سان‌مارینو" },
+  SN: { en: "Senegal", fa: "سنگال" },
+  SO: { en: "Somalia", fa: "سومالی" },
+  SR: { en: "Suriname", fa: "سورینام" },
+  SS: { en: "South Sudan", fa: "سودان جنوبی" },
+  ST: { en: "São Tomé & Príncipe", fa: "سائوتومه و پرینسیپ" },
+  SV: { en: "El Salvador", fa: "السالوادور" },
+  SX: { en: "Sint Maarten", fa: "سنت مارتن" },
+  SY: { en: "Syria", fa: "سوریه" },
+  SZ: { en: "Eswatini", fa: "اسواتینی" },
+  TC: { en: "Turks & Caicos Islands", fa: "جزایر تورکس و کایکوس" },
+  TD: { en: "Chad", fa: "چاد" },
+  TF: { en: "French Southern Territories", fa: "سرزمین‌های جنوبی فرانسه" },
+  TG: { en: "Togo", fa: "توگو" },
+  TH: { en: "Thailand", fa: "تایلند" },
+  TJ: { en: "Tajikistan", fa: "تاجیکستان" },
+  TK: { en: "Tokelau", fa: "توکلائو" },
+  TL: { en: "Timor-Leste", fa: "تیمور-لسته" },
+  TM: { en: "Turkmenistan", fa: "ترکمنستان" },
+  TN: { en: "Tunisia", fa: "تونس" },
+  TO: { en: "Tonga", fa: "تونگا" },
+  TR: { en: "Türkiye", fa: "ترکیه" },
+  TT: { en: "Trinidad & Tobago", fa: "ترینیداد و توباگو" },
+  TV: { en: "Tuvalu", fa: "تووالو" },
+  TW: { en: "Taiwan", fa: "تایوان" },
+  TZ: { en: "Tanzania", fa: "تانزانیا" },
+  UA: { en: "Ukraine", fa: "اوکراین" },
+  UG: { en: "Uganda", fa: "اوگاندا" },
+  UM: { en: "U.S. Outlying Islands", fa: "جزایر دورافتادهٔ ایالات متحده" },
+  US: { en: "United States", fa: "ایالات متحده" },
+  UY: { en: "Uruguay", fa: "اروگوئه" },
+  UZ: { en: "Uzbekistan", fa: "ازبکستان" },
+  VA: { en: "Vatican City", fa: "واتیکان" },
+  VC: { en: "St. Vincent & Grenadines", fa: "سنت وینسنت و گرنادین" },
+  VE: { en: "Venezuela", fa: "ونزوئلا" },
+  VG: { en: "British Virgin Islands", fa: "جزایر ویرجین بریتانیا" },
+  VI: { en: "U.S. Virgin Islands", fa: "جزایر ویرجین ایالات متحده" },
+  VN: { en: "Vietnam", fa: "ویتنام" },
+  VU: { en: "Vanuatu", fa: "وانواتو" },
+  WF: { en: "Wallis & Futuna", fa: "والیس و فوتونا" },
+  WS: { en: "Samoa", fa: "ساموآ" },
+  XK: { en: "Kosovo", fa: "کوزوو" },
+  YE: { en: "Yemen", fa: "یمن" },
+  YT: { en: "Mayotte", fa: "مایوت" },
+  ZA: { en: "South Africa", fa: "افریقای جنوبی" },
+  ZM: { en: "Zambia", fa: "زامبیا" },
+  ZW: { en: "Zimbabwe", fa: "زیمبابوه" },
+};
@@ -0,0 +1,171 @@
+import type { RadarCustomRange } from "./dateRange.js";
+import { gregorianToJalali, JALALI_MONTHS, jalaliToGregorian, type CalendarDate } from "./jalali.js";
+
+type ParsedDatePart = CalendarDate & { calendar: "gregorian" | "jalali"; hasYear: boolean };
+
+const HOUR_MS = 60 * 60 * 1000;
+
+const DURATION_UNITS: Record<string, number> = {
+  h: HOUR_MS,
+  hour: HOUR_MS,
+  hours: HOUR_MS,
+  ساعت: HOUR_MS,
+  d: 24 * HOUR_MS,
+  day: 24 * HOUR_MS,
+  days: 24 * HOUR_MS,
+  روز: 24 * HOUR_MS,
+  w: 7 * 24 * HOUR_MS,
+  week: 7 * 24 * HOUR_MS,
+  weeks: 7 * 24 * HOUR_MS,
+  هفته: 7 * 24 * HOUR_MS,
+};
+
+const RELATIVE_PATTERN = /^(?:last\s+)?(\d+)\s*([a-z؀-ۿ]+)(?:\s+(?:اخیر|گذشته|ago))?$/;
+const RANGE_SEPARATOR = /\s+(?:تا|to|until)\s+|\s+-\s+|\s*\.\.\s*/;
+const NUMERIC_DATE_PATTERN = /^(\d{4})[-/](\d{1,2})[-/](\d{1,2})$/;
+const NAMED_DATE_PATTERN = /^(\d{1,2})\s+(\S+)(?:\s+(\d{4}))?$/;
+const MIN_GREGORIAN_YEAR = 1700;
+
+const normalizeDigits = (text: string): string =>
+  text
+    .replace(/[۰-۹]/g, (digit) => String(digit.charCodeAt(0) - 0x06f0))
+    .replace(/[٠-٩]/g, (digit) => String(digit.charCodeAt(0) - 0x0660));
+
+const parseRelativeRange = (text: string): RadarCustomRange | null => {
+  const match = text.match(RELATIVE_PATTERN);
+  const unit = match ? DURATION_UNITS[match[2]] : undefined;
+  if (!match || !unit) {
+    return null;
+  }
+  const amount = Number(match[1]);
+  return amount > 0 ? { kind: "relative", durationMs: amount * unit } : null;
+};
+
+const parseDatePart = (text: string): ParsedDatePart | null => {
+  const numeric = text.match(NUMERIC_DATE_PATTERN);
+  if (numeric) {
+    const year = Number(numeric[1]);
+    return {
+      calendar: year >= MIN_GREGORIAN_YEAR ? "gregorian" : "jalali",
+      year,
+      month: Number(numeric[2]),
+      day: Number(numeric[3]),
+      hasYear: true,
+    };
+  }
+  const named = text.match(NAMED_DATE_PATTERN);
+  const month = named ? JALALI_MONTHS[named[2]] : undefined;
+  if (!named || !month) {
+    return null;
+  }
+  return {
+    calendar: "jalali",
+    year: named[3] ? Number(named[3]) : 0,
+    month,
+    day: Number(named[1]),
+    hasYear: Boolean(named[3]),
+  };
+};
+
+const getTimezoneOffsetMs = (timestamp: number, timezone: string): number => {
+  const parts = new Intl.DateTimeFormat("en-US", {
+    timeZone: timezone,
+    hourCycle: "h23",
+    year: "numeric",
+    month: "numeric",
+    day: "numeric",
+    hour: "numeric",
+    minute: "numeric",
+    second: "numeric",
+  }).formatToParts(new Date(timestamp));
+  const read = (type: Intl.DateTimeFormatPartTypes) => Number(parts.find((part) => part.type === type)?.value);
+  return Date.UTC(read("year"), read("month") - 1, read("day"), read("hour"), read("minute"), read("second")) - timestamp;
+};
+
+const startOfDayInZone = (date: CalendarDate, timezone: string): Date => {
+  const guess = Date.UTC(date.year, date.month - 1, date.day);
+  const firstPass = guess - getTimezoneOffsetMs(guess, timezone);
+  return new Date(guess - getTimezoneOffsetMs(firstPass, timezone));
+};
+
+const toGregorian = (part: ParsedDatePart): CalendarDate | null => {
+  if (part.calendar === "jalali") {
+    return jalaliToGregorian(part);
+  }
+  const check = new Date(Date.UTC(part.year, part.month - 1, part.day));
+  return check.getUTCMonth() === part.month - 1 && check.getUTCDate() === part.day ? part : null;
+};
+
+const nextDay = (date: CalendarDate): CalendarDate => {
+  const next = new Date(Date.UTC(date.year, date.month - 1, date.day + 1));
+  return { year: next.getUTCFullYear(), month: next.getUTCMonth() + 1, day: next.getUTCDate() };
+};
+
+const resolveAbsoluteRange = (
+  start: ParsedDatePart,
+  end: ParsedDatePart,
+  timezone: string,
+  yearOffset: number
+): RadarCustomRange | null => {
+  const startDate = toGregorian(start.hasYear ? start : { ...start, year: start.year - yearOffset });
+  const endDate = toGregorian(end.hasYear ? end : { ...end, year: end.year - yearOffset });
+  if (!startDate || !endDate) {
+    return null;
+  }
+  return {
+    kind: "absolute",
+    since: startOfDayInZone(startDate, timezone),
+    until: startOfDayInZone(nextDay(endDate), timezone),
+  };
+};
+
+const parseAbsoluteRange = (text: string, timezone: string, now: Date): RadarCustomRange | null => {
+  const pieces = text.split(RANGE_SEPARATOR);
+  if (pieces.length !== 2) {
+    return null;
+  }
+  const end = parseDatePart(pieces[1]);
+  if (!end) {
+    return null;
+  }
+  const start = /^\d{1,2}$/.test(pieces[0]) ? { ...end, day: Number(pieces[0]) } : parseDatePart(pieces[0]);
+  if (!start || start.calendar !== end.calendar) {
+    return null;
+  }
+  if (start.hasYear && end.hasYear) {
+    return resolveAbsoluteRange(start, end, timezone, 0);
+  }
+  const currentYear = gregorianToJalali(now, timezone).year;
+  const withYear = (part: ParsedDatePart) => (part.hasYear ? part : { ...part, year: currentYear });
+  const range = resolveAbsoluteRange(withYear(start), withYear(end), timezone, 0);
+  if (range?.kind === "absolute" && range.since.getTime() > now.getTime()) {
+    return resolveAbsoluteRange(withYear(start), withYear(end), timezone, 1);
+  }
+  return range;
+};
+
+export const parseCustomRangeInput = (
+  text: string,
+  options: { timezone: string; now?: Date }
+): RadarCustomRange | null => {
+  const normalized = normalizeDigits(text).trim().toLowerCase().replace(/\s+/g, " ");
+  if (!normalized) {
+    return null;
+  }
+  return parseRelativeRange(normalized) ?? parseAbsoluteRange(normalized, options.timezone, options.now ?? new Date());
+};
+
+const formatZonedDate = (date: Date, timezone: string): string => {
+  const jalali = gregorianToJalali(date, timezone);
+  const gregorian = new Intl.DateTimeFormat("en-CA", { timeZone: timezone }).format(date);
+  return `${jalali.year}/${String(jalali.month).padStart(2, "0")}/${String(jalali.day).padStart(2, "0")} (${gregorian})`;
+};
+
+export const formatCustomRange = (range: RadarCustomRange, timezone: string): string => {
+  if (range.kind === "relative") {
+    const hours = Math.round(range.durationMs / HOUR_MS);
+    return hours % 24 === 0 ? `${hours / 24} روز اخیر` : `${hours} ساعت اخیر`;
+  }
+  const lastDay = new Date(range.until.getTime() - 1);
+  return `${formatZonedDate(range.since, timezone)} تا ${formatZonedDate(lastDay, timezone)}`;
+};
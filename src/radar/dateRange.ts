@@ -45,25 +45,146 @@ const shiftDate = (base: Date, preset: RadarDateRangePreset): Date => {
   return next;
 };
 
+export type RadarApiRangeWindow = {
+  primary: RadarApiDateRangeParams;
+  fallback?: RadarApiDateRangeParams;
+};
+
+const DAY_MS = 24 * 60 * 60 * 1000;
+const WINDOW_BUCKET_MS = 60 * 1000;
+
+export const floorToWindowBucket = (date: Date): Date =>
+  new Date(Math.floor(date.getTime() / WINDOW_BUCKET_MS) * WINDOW_BUCKET_MS);
+
+const CONTROL_SUFFIX = "Control";
+
+const buildPreviousWindow = (preset: RadarDateRangePreset, now: Date): RadarApiRangeWindow => {
+  const dayRange = DAY_RANGE_MAP[preset];
+  const fallbackRange = dayRange ?? FALLBACK_DAY_RANGE_MAP[preset] ?? "30d";
+  let since: Date;
+  let until: Date;
+  if (dayRange) {
+    const days = Number(dayRange.replace("d", ""));
+    until = new Date(now.getTime() - days * DAY_MS);
+    since = new Date(until.getTime() - days * DAY_MS);
+  } else {
+    until = shiftDate(now, preset);
+    since = shiftDate(until, preset);
+  }
+  return {
+    primary: { since: since.toISOString(), until: until.toISOString() },
+    fallback: { dateRange: `${fallbackRange}${CONTROL_SUFFIX}` },
+  };
+};
+
+export type RadarCustomRange =
+  | { kind: "relative"; durationMs: number }
+  | { kind: "absolute"; since: Date; until: Date };
+
+export type RadarCustomRangeIssue = "future" | "reversed" | "too_short" | "too_long";
+
+export const MAX_RADAR_WINDOW_DAYS = 366;
+export const MAX_RADAR_WINDOW_MS = MAX_RADAR_WINDOW_DAYS * DAY_MS;
+export const MIN_CUSTOM_RANGE_MS = 60 * 60 * 1000;
+
+const RELATIVE_PREFIX = "last:";
+
+export const resolveCustomRange = (range: RadarCustomRange, now: Date = new Date()): { since: Date; until: Date } => {
+  if (range.kind === "relative") {
+    return { since: new Date(now.getTime() - range.durationMs), until: now };
+  }
+  return { since: range.since, until: range.until.getTime() > now.getTime() ? now : range.until };
+};
+
+export const validateCustomRange = (
+  range: RadarCustomRange,
+  now: Date = new Date()
+): RadarCustomRangeIssue | null => {
+  if (range.kind === "absolute" && range.since.getTime() >= now.getTime()) {
+    return "future";
+  }
+  const { since, until } = resolveCustomRange(range, now);
+  const durationMs = until.getTime() - since.getTime();
+  if (durationMs <= 0) {
+    return "reversed";
+  }
+  if (durationMs < MIN_CUSTOM_RANGE_MS) {
+    return "too_short";
+  }
+  return durationMs > MAX_RADAR_WINDOW_MS ? "too_long" : null;
+};
+
+export const serializeCustomRange = (range: RadarCustomRange): string =>
+  range.kind === "relative"
+    ? `${RELATIVE_PREFIX}${Math.round(range.durationMs / 60000)}m`
+    : `${range.since.toISOString()}/${range.until.toISOString()}`;
+
+export const parseStoredCustomRange = (value?: string | null): RadarCustomRange | null => {
+  if (!value) {
+    return null;
+  }
+  if (value.startsWith(RELATIVE_PREFIX)) {
+    const minutes = Number(value.slice(RELATIVE_PREFIX.length).replace(/m$/, ""));
+    return Number.isFinite(minutes) && minutes > 0 ? { kind: "relative", durationMs: minutes * 60000 } : null;
+  }
+  const [since, until] = value.split("/").map((part) => new Date(part));
+  if (!since || !until || Number.isNaN(since.getTime()) || Number.isNaN(until.getTime())) {
+    return null;
+  }
+  return { kind: "absolute", since, until };
+};
+
+const buildCustomRangeWindow = (
+  range: RadarCustomRange,
+  now: Date
+): RadarApiRangeWindow & { previous: RadarApiRangeWindow } => {
+  const { since, until } = resolveCustomRange(range, now);
+  const previousSince = new Date(since.getTime() - (until.getTime() - since.getTime()));
+  return {
+    primary: { since: since.toISOString(), until: until.toISOString() },
+    previous: { primary: { since: previousSince.toISOString(), until: since.toISOString() } },
+  };
+};
+
 export const rangePresetToApiParams = (
   preset: RadarDateRangePreset,
-  now: Date = new Date()
-): { primary: RadarApiDateRangeParams; fallback?: RadarApiDateRangeParams } => {
+  now: Date = new Date(),
+  customRange?: RadarCustomRange | null
+): RadarApiRangeWindow & { previous: RadarApiRangeWindow } => {
+  const anchor = floorToWindowBucket(now);
+  if (customRange) {
+    return buildCustomRangeWindow(customRange, anchor);
+  }
+  const previous = buildPreviousWindow(preset, anchor);
   const dayRange = DAY_RANGE_MAP[preset];
   if (dayRange) {
-    return { primary: { dateRange: dayRange } };
+    return { primary: { dateRange: dayRange }, previous };
   }
 
-  const since = shiftDate(now, preset);
+  const since = shiftDate(anchor, preset);
   return {
     primary: {
       since: since.toISOString(),
-      until: now.toISOString(),
+      until: anchor.toISOString(),
     },
     fallback: {
       dateRange: FALLBACK_DAY_RANGE_MAP[preset] ?? "30d",
     },
+    previous,
   };
 };
 
 export const isDayRangePreset = (preset: RadarDateRangePreset): boolean => DAY_RANGE_MAP[preset] !== null;
+
+export const formatTimestamp = (timezone: string, value: Date = new Date()): string => {
+  const formatter = new Intl.DateTimeFormat("en-GB", {
+    timeZone: timezone,
+    year: "numeric",
+    month: "2-digit",
+    day: "2-digit",
+    hour: "2-digit",
+    minute: "2-digit",
+    hour12: false,
+  });
+  return formatter.format(value).replace(",", "");
+};
@@ -1,4 +1,21 @@
-export type RadarEndpointName = "trafficCountries";
+import { MAX_RADAR_WINDOW_DAYS, MAX_RADAR_WINDOW_MS } from "./dateRange.js";
+import { summaryResponse, timeseriesResponse, topListResponse, type RadarResponseParser } from "./responseSchemas.js";
+
+export type RadarEndpointName =
+  | "trafficCountries"
+  | "topAses"
+  | "attacksL3Origins"
+  | "attacksL3Targets"
+  | "attacksL7Origins"
+  | "attacksL7Targets"
+  | "dnsQueryTypes"
+  | "httpDeviceType"
+  | "httpBotClass"
+  | "httpIpVersion"
+  | "httpTimeseries"
+  | "netflowsTimeseries"
+  | "attacksL3Timeseries"
+  | "attacksL7Timeseries";
 
 export type RadarEndpointParams = {
   dateRange?: string;
@@ -6,8 +23,11 @@ export type RadarEndpointParams = {
   until?: string;
   limit?: number;
   location?: string;
+  aggInterval?: string;
 };
 
+export type RadarResultShape = "top" | "summary" | "timeseries";
+
 export type RadarEndpointDefinition = {
   name: RadarEndpointName;
   path: string;
@@ -15,8 +35,11 @@ export type RadarEndpointDefinition = {
   supportsPublic: boolean;
   requiredParams: Array<keyof RadarEndpointParams>;
   optionalParams: Array<keyof RadarEndpointParams>;
-  defaults: Required<Pick<RadarEndpointParams, "dateRange" | "limit">> &
-    Partial<Pick<RadarEndpointParams, "location">>;
+  defaults: Required<Pick<RadarEndpointParams, "dateRange">> &
+    Partial<Pick<RadarEndpointParams, "limit" | "location" | "aggInterval">>;
+  resultShape: RadarResultShape;
+  supportsMap?: boolean;
+  parseResponse: RadarResponseParser;
 };
 
 export class RadarConfigError extends Error {
@@ -32,29 +55,211 @@ const DATE_RANGE_ALIASES: Record<string, string> = {
   "1y": "365d",
 };
 
+const ALLOWED_AGG_INTERVALS = new Set(["15m", "1h", "1d", "1w"]);
+
 const ALLOWED_DATE_RANGES = new Set(["1d", "2d", "3d", "7d", "14d", "21d", "30d", "60d", "90d", "365d", "1y"]);
 
-export const DEFAULT_RADAR_ENDPOINT: RadarEndpointDefinition = {
-  name: "trafficCountries",
-  path: "/http/top/locations/http_protocol/HTTPS",
-  label: "Top Countries",
-  supportsPublic: true,
-  requiredParams: ["dateRange"],
-  optionalParams: ["limit"],
-  defaults: {
-    dateRange: "7d",
-    limit: 10,
+const TOP_LOCATION_DEFAULTS = { dateRange: "7d", limit: 10 };
+
+export const RADAR_ENDPOINTS: Record<RadarEndpointName, RadarEndpointDefinition> = {
+  trafficCountries: {
+    name: "trafficCountries",
+    path: "/http/top/locations/http_protocol/HTTPS",
+    label: "Top Countries",
+    supportsPublic: true,
+    requiredParams: ["dateRange"],
+    optionalParams: ["limit"],
+    defaults: TOP_LOCATION_DEFAULTS,
+    resultShape: "top",
+    supportsMap: true,
+    parseResponse: topListResponse("clientCountryAlpha2", "country"),
+  },
+  topAses: {
+    name: "topAses",
+    path: "/http/top/ases",
+    label: "Top ASes",
+    supportsPublic: true,
+    requiredParams: ["dateRange"],
+    optionalParams: ["limit", "location"],
+    defaults: TOP_LOCATION_DEFAULTS,
+    resultShape: "top",
+    parseResponse: topListResponse("clientASName"),
+  },
+  attacksL3Origins: {
+    name: "attacksL3Origins",
+    path: "/attacks/layer3/top/locations/origin",
+    label: "L3 Attack Origins",
+    supportsPublic: false,
+    requiredParams: ["dateRange"],
+    optionalParams: ["limit", "location"],
+    defaults: TOP_LOCATION_DEFAULTS,
+    resultShape: "top",
+    supportsMap: true,
+    parseResponse: topListResponse("originCountryAlpha2", "country"),
+  },
+  attacksL3Targets: {
+    name: "attacksL3Targets",
+    path: "/attacks/layer3/top/locations/target",
+    label: "L3 Attack Targets",
+    supportsPublic: false,
+    requiredParams: ["dateRange"],
+    optionalParams: ["limit", "location"],
+    defaults: TOP_LOCATION_DEFAULTS,
+    resultShape: "top",
+    supportsMap: true,
+    parseResponse: topListResponse("targetCountryAlpha2", "country"),
+  },
+  attacksL7Origins: {
+    name: "attacksL7Origins",
+    path: "/attacks/layer7/top/locations/origin",
+    label: "L7 Attack Origins",
+    supportsPublic: false,
+    requiredParams: ["dateRange"],
+    optionalParams: ["limit", "location"],
+    defaults: TOP_LOCATION_DEFAULTS,
+    resultShape: "top",
+    supportsMap: true,
+    parseResponse: topListResponse("originCountryAlpha2", "country"),
+  },
+  attacksL7Targets: {
+    name: "attacksL7Targets",
+    path: "/attacks/layer7/top/locations/target",
+    label: "L7 Attack Targets",
+    supportsPublic: false,
+    requiredParams: ["dateRange"],
+    optionalParams: ["limit", "location"],
+    defaults: TOP_LOCATION_DEFAULTS,
+    resultShape: "top",
+    supportsMap: true,
+    parseResponse: topListResponse("targetCountryAlpha2", "country"),
+  },
+  dnsQueryTypes: {
+    name: "dnsQueryTypes",
+    path: "/dns/summary/query_type",
+    label: "DNS Query Types",
+    supportsPublic: true,
+    requiredParams: ["dateRange"],
+    optionalParams: ["location"],
+    defaults: { dateRange: "7d" },
+    resultShape: "summary",
+    parseResponse: summaryResponse(),
+  },
+  httpDeviceType: {
+    name: "httpDeviceType",
+    path: "/http/summary/device_type",
+    label: "HTTP Device Type",
+    supportsPublic: true,
+    requiredParams: ["dateRange"],
+    optionalParams: ["location"],
+    defaults: { dateRange: "7d" },
+    resultShape: "summary",
+    parseResponse: summaryResponse(),
+  },
+  httpBotClass: {
+    name: "httpBotClass",
+    path: "/http/summary/bot_class",
+    label: "HTTP Bot vs Human",
+    supportsPublic: true,
+    requiredParams: ["dateRange"],
+    optionalParams: ["location"],
+    defaults: { dateRange: "7d" },
+    resultShape: "summary",
+    parseResponse: summaryResponse(),
+  },
+  httpIpVersion: {
+    name: "httpIpVersion",
+    path: "/http/summary/ip_version",
+    label: "HTTP IP Version",
+    supportsPublic: true,
+    requiredParams: ["dateRange"],
+    optionalParams: ["location"],
+    defaults: { dateRange: "7d" },
+    resultShape: "summary",
+    parseResponse: summaryResponse(),
+  },
+  httpTimeseries: {
+    name: "httpTimeseries",
+    path: "/http/timeseries",
+    label: "HTTP Traffic",
+    supportsPublic: true,
+    requiredParams: ["dateRange"],
+    optionalParams: ["location", "aggInterval"],
+    defaults: { dateRange: "7d" },
+    resultShape: "timeseries",
+    parseResponse: timeseriesResponse(),
+  },
+  netflowsTimeseries: {
+    name: "netflowsTimeseries",
+    path: "/netflows/timeseries",
+    label: "Network Traffic",
+    supportsPublic: true,
+    requiredParams: ["dateRange"],
+    optionalParams: ["location", "aggInterval"],
+    defaults: { dateRange: "7d" },
+    resultShape: "timeseries",
+    parseResponse: timeseriesResponse(),
+  },
+  attacksL3Timeseries: {
+    name: "attacksL3Timeseries",
+    path: "/attacks/layer3/timeseries",
+    label: "L3 Attacks",
+    supportsPublic: false,
+    requiredParams: ["dateRange"],
+    optionalParams: ["location", "aggInterval"],
+    defaults: { dateRange: "7d" },
+    resultShape: "timeseries",
+    parseResponse: timeseriesResponse(),
+  },
+  attacksL7Timeseries: {
+    name: "attacksL7Timeseries",
+    path: "/attacks/layer7/timeseries",
+    label: "L7 Attacks",
+    supportsPublic: false,
+    requiredParams: ["dateRange"],
+    optionalParams: ["location", "aggInterval"],
+    defaults: { dateRange: "7d" },
+    resultShape: "timeseries",
+    parseResponse: timeseriesResponse(),
   },
 };
 
+export const DEFAULT_RADAR_ENDPOINT: RadarEndpointDefinition = RADAR_ENDPOINTS.trafficCountries;
+
+export const RADAR_ENDPOINT_NAMES = Object.keys(RADAR_ENDPOINTS) as RadarEndpointName[];
+
+export const isRadarEndpointName = (value: string): value is RadarEndpointName =>
+  Object.prototype.hasOwnProperty.call(RADAR_ENDPOINTS, value);
+
+export const resolveRadarEndpoint = (
+  endpoint: RadarEndpointDefinition | RadarEndpointName | string | null | undefined
+): RadarEndpointDefinition => {
+  if (!endpoint) {
+    return DEFAULT_RADAR_ENDPOINT;
+  }
+  if (typeof endpoint !== "string") {
+    return endpoint;
+  }
+  if (!isRadarEndpointName(endpoint)) {
+    throw new RadarConfigError(`Unknown Radar endpoint: ${endpoint}`);
+  }
+  return RADAR_ENDPOINTS[endpoint];
+};
+
+export const supportsParam = (endpoint: RadarEndpointDefinition, param: keyof RadarEndpointParams): boolean =>
+  endpoint.requiredParams.includes(param) || endpoint.optionalParams.includes(param);
+
+const CONTROL_SUFFIX = "Control";
+
 const normalizeDateRange = (value: string): string => {
   const trimmed = value.trim();
-  const alias = DATE_RANGE_ALIASES[trimmed];
-  const normalized = alias ?? trimmed;
+  const isControl = trimmed.endsWith(CONTROL_SUFFIX);
+  const base = isControl ? trimmed.slice(0, -CONTROL_SUFFIX.length) : trimmed;
+  const alias = DATE_RANGE_ALIASES[base];
+  const normalized = alias ?? base;
   if (!ALLOWED_DATE_RANGES.has(normalized)) {
     throw new RadarConfigError(`Invalid dateRange: ${value}`);
   }
-  return normalized;
+  return isControl ? `${normalized}${CONTROL_SUFFIX}` : normalized;
 };
 
 const normalizeIsoDate = (value: string, field: "since" | "until"): string => {
@@ -76,6 +281,14 @@ const normalizeLimit = (value: number): number => {
   return rounded;
 };
 
+const normalizeAggInterval = (value: string): string => {
+  const trimmed = value.trim().toLowerCase();
+  if (!ALLOWED_AGG_INTERVALS.has(trimmed)) {
+    throw new RadarConfigError(`Invalid aggInterval: ${value}`);
+  }
+  return trimmed;
+};
+
 const normalizeLocation = (value: string): string => {
   const trimmed = value.trim().toUpperCase();
   if (!/^[A-Z]{2}$/.test(trimmed)) {
@@ -87,12 +300,15 @@ const normalizeLocation = (value: string): string => {
 export const buildEndpointParams = (
   params: RadarEndpointParams,
   endpoint: RadarEndpointDefinition = DEFAULT_RADAR_ENDPOINT
-): Required<Pick<RadarEndpointParams, "limit">> &
-  Partial<Pick<RadarEndpointParams, "location" | "dateRange" | "since" | "until">> => {
-  const normalized: Required<Pick<RadarEndpointParams, "limit">> &
-    Partial<Pick<RadarEndpointParams, "location" | "dateRange" | "since" | "until">> = {
-    limit: normalizeLimit(params.limit ?? endpoint.defaults.limit),
-  };
+): RadarEndpointParams => {
+  const normalized: RadarEndpointParams = {};
+
+  if (supportsParam(endpoint, "limit")) {
+    const limit = params.limit ?? endpoint.defaults.limit;
+    if (limit !== undefined) {
+      normalized.limit = normalizeLimit(limit);
+    }
+  }
 
   if (params.since || params.until) {
     if (!params.since || !params.until) {
@@ -100,6 +316,13 @@ export const buildEndpointParams = (
     }
     normalized.since = normalizeIsoDate(params.since, "since");
     normalized.until = normalizeIsoDate(params.until, "until");
+    const windowMs = new Date(normalized.until).getTime() - new Date(normalized.since).getTime();
+    if (windowMs <= 0) {
+      throw new RadarConfigError("since must be before until");
+    }
+    if (windowMs > MAX_RADAR_WINDOW_MS) {
+      throw new RadarConfigError(`since/until window must not exceed ${MAX_RADAR_WINDOW_DAYS} days`);
+    }
   } else {
     const dateRange = params.dateRange ?? endpoint.defaults.dateRange;
     if (!dateRange) {
@@ -108,8 +331,20 @@ export const buildEndpointParams = (
     normalized.dateRange = normalizeDateRange(dateRange);
   }
 
-  if (params.location) {
-    normalized.location = normalizeLocation(params.location);
+  const location = params.location ?? endpoint.defaults.location;
+  if (location) {
+    if (!supportsParam(endpoint, "location")) {
+      throw new RadarConfigError(`location is not supported for ${endpoint.name}`);
+    }
+    normalized.location = normalizeLocation(location);
+  }
+
+  const aggInterval = params.aggInterval ?? endpoint.defaults.aggInterval;
+  if (aggInterval) {
+    if (!supportsParam(endpoint, "aggInterval")) {
+      throw new RadarConfigError(`aggInterval is not supported for ${endpoint.name}`);
+    }
+    normalized.aggInterval = normalizeAggInterval(aggInterval);
   }
 
   return normalized;
@@ -0,0 +1,120 @@
+import type { RadarChartData } from "./fetch.js";
+
+export type RadarExportFormat = "csv" | "json";
+
+export type RadarExportScope = "last" | "fresh" | "history";
+
+export type RadarExportRequest = {
+  format: RadarExportFormat;
+  scope: RadarExportScope;
+  days?: number;
+};
+
+export type RadarExportRecord = {
+  data: RadarChartData;
+  fetchedAt: Date;
+};
+
+export const MAX_EXPORT_HISTORY_DAYS = 365;
+
+const FRESH_INPUTS = new Set(["new", "fresh", "جدید", "تازه"]);
+
+const CSV_COLUMNS = [
+  "fetched_at",
+  "endpoint",
+  "path",
+  "source",
+  "location",
+  "date_range_preset",
+  "window",
+  "date_range",
+  "since",
+  "until",
+  "params",
+  "kind",
+  "rank",
+  "label",
+  "value",
+];
+
+export const parseExportRequest = (text: string): RadarExportRequest | null => {
+  const [formatInput, option, ...rest] = text.trim().toLowerCase().split(/\s+/);
+  if ((formatInput !== "csv" && formatInput !== "json") || rest.length) {
+    return null;
+  }
+  if (!option) {
+    return { format: formatInput, scope: "last" };
+  }
+  if (FRESH_INPUTS.has(option)) {
+    return { format: formatInput, scope: "fresh" };
+  }
+  const days = Number(option);
+  if (!Number.isInteger(days) || days < 1 || days > MAX_EXPORT_HISTORY_DAYS) {
+    return null;
+  }
+  return { format: formatInput, scope: "history", days };
+};
+
+const escapeCsvField = (value: string | number | null | undefined): string => {
+  const text = value === null || value === undefined ? "" : String(value);
+  return /[",\n\r]/.test(text) ? `"${text.replace(/"/g, '""')}"` : text;
+};
+
+export const buildRadarCsv = (records: RadarExportRecord[]): string => {
+  const rows = records.flatMap(({ data, fetchedAt }) =>
+    data.labels.map((label, index) => [
+      fetchedAt.toISOString(),
+      data.endpointName,
+      data.endpoint,
+      data.source,
+      data.params.location ?? "",
+      data.dateRangePreset,
+      data.window ?? "current",
+      data.params.dateRange ?? "",
+      data.params.since ?? "",
+      data.params.until ?? "",
+      JSON.stringify(data.params),
+      data.kind,
+      data.kind === "category" ? index + 1 : "",
+      label,
+      data.values[index],
+    ])
+  );
+  return `\uFEFF${[CSV_COLUMNS, ...rows].map((row) => row.map(escapeCsvField).join(",")).join("\n")}\n`;
+};
+
+export const buildRadarJson = (records: RadarExportRecord[], exportedAt: Date = new Date()): string =>
+  JSON.stringify(
+    {
+      exportedAt: exportedAt.toISOString(),
+      count: records.length,
+      datasets: records.map(({ data, fetchedAt }) => ({
+        fetchedAt: fetchedAt.toISOString(),
+        endpoint: data.endpointName,
+        path: data.endpoint,
+        title: data.label,
+        source: data.source,
+        params: data.params,
+        dateRangePreset: data.dateRangePreset,
+        window: data.window ?? "current",
+        kind: data.kind,
+        labelType: data.labelType ?? "text",
+        aggInterval: data.aggInterval ?? null,
+        points: data.labels.map((label, index) => ({ label, value: data.values[index] })),
+      })),
+    },
+    null,
+    2
+  );
+
+export const buildRadarExport = (
+  records: RadarExportRecord[],
+  format: RadarExportFormat,
+  exportedAt: Date = new Date()
+): { content: string; filename: string } => {
+  const stamp = exportedAt.toISOString().slice(0, 19).replace(/[-:]/g, "").replace("T", "-");
+  return {
+    content: format === "csv" ? buildRadarCsv(records) : buildRadarJson(records, exportedAt),
+    filename: `radar-${stamp}.${format}`,
+  };
+};
@@ -1,33 +1,78 @@
 import { logError, logWarn } from "../logger.js";
-import { requestRadar, RadarHttpError, RadarRouteInvalidError, probeRadarPublicEndpoint, isRadarTokenValidFormat } from "./client.js";
+import {
+  requestRadar,
+  RadarHttpError,
+  RadarRouteInvalidError,
+  RadarTransportError,
+  isRadarTokenValidFormat,
+  type RadarRequestAttempt,
+  type RadarRequestMeta,
+  type RadarRetryPolicy,
+} from "./client.js";
+import { buildRadarCacheKey, createTtlCache } from "./cache.js";
+import type { RadarRequestPriority } from "./rateLimiter.js";
+import { getPublicContract, type RadarPublicContract } from "./publicContract.js";
+import type { RadarLabelType, RadarParsedResponse } from "./responseSchemas.js";
+import { RadarSchemaError } from "./schema.js";
 import {
   buildEndpointParams,
   DEFAULT_RADAR_ENDPOINT,
   RadarConfigError,
+  resolveRadarEndpoint,
+  supportsParam,
   type RadarEndpointDefinition,
+  type RadarEndpointName,
   type RadarEndpointParams,
 } from "./endpoints.js";
-import { rangePresetToApiParams, type RadarDateRangePreset, type RadarApiDateRangeParams } from "./dateRange.js";
+import {
+  floorToWindowBucket,
+  rangePresetToApiParams,
+  type RadarApiDateRangeParams,
+  type RadarCustomRange,
+  type RadarDateRangePreset,
+} from "./dateRange.js";
 
 export type RadarMode = "public" | "token" | "auto";
 
+const MAX_SUMMARY_ITEMS = 20;
+
+export type RadarTokenCandidate = {
+  label: string;
+  token: string;
+};
+
 export type RadarFetchConfig = {
   mode: RadarMode;
   token?: string | null;
+  tokens?: RadarTokenCandidate[];
   timeoutMs: number;
+  retry?: RadarRetryPolicy;
+  priority?: RadarRequestPriority;
   dateRangePreset: RadarDateRangePreset;
+  customRange?: RadarCustomRange | null;
+  location?: string | null;
 };
 
+export type RadarChartKind = "category" | "timeseries";
+
 export type RadarChartData = {
+  kind: RadarChartKind;
+  labelType?: RadarLabelType;
   labels: string[];
   values: number[];
+  aggInterval?: string;
   source: "public" | "token";
   endpoint: string;
+  endpointName: RadarEndpointName;
   params: RadarEndpointParams;
   dateRangePreset: RadarDateRangePreset;
+  customRange?: boolean;
   label: string;
+  window?: RadarRangeWindowName;
 };
 
+export type RadarRangeWindowName = "current" | "previous";
+
 export type RadarErrorCode =
   | "RADAR_BAD_REQUEST"
   | "RADAR_UNAUTHORIZED"
@@ -37,6 +82,7 @@ export type RadarErrorCode =
   | "RADAR_NETWORK"
   | "RADAR_INVALID_DATA"
   | "RADAR_EMPTY_DATA"
+  | "RADAR_SCHEMA_MISMATCH"
   | "RADAR_PUBLIC_UNSUPPORTED"
   | "RADAR_TOKEN_MISSING"
   | "RADAR_ROUTE_INVALID";
@@ -50,6 +96,9 @@ export class RadarFetchError extends Error {
   timingMs?: number;
   responseBody?: string;
   modeUsed?: "public" | "token";
+  attempts?: RadarRequestAttempt[];
+  schemaPath?: string;
+  retryCount: number;
 
   constructor(
     code: RadarErrorCode,
@@ -62,6 +111,8 @@ export class RadarFetchError extends Error {
       timingMs?: number;
       responseBody?: string;
       modeUsed?: "public" | "token";
+      attempts?: RadarRequestAttempt[];
+      schemaPath?: string;
     }
   ) {
     super(message);
@@ -73,6 +124,9 @@ export class RadarFetchError extends Error {
     this.timingMs = meta?.timingMs;
     this.responseBody = meta?.responseBody;
     this.modeUsed = meta?.modeUsed;
+    this.attempts = meta?.attempts;
+    this.schemaPath = meta?.schemaPath;
+    this.retryCount = Math.max(0, (meta?.attempts?.length ?? 1) - 1);
   }
 }
 
@@ -83,97 +137,6 @@ export const validateRadarData = (labels: string[], values: number[]): boolean =
   return values.every((value) => Number.isFinite(value));
 };
 
-const normalizeItemValue = (value: unknown): number | null => {
-  const numeric = Number(value);
-  if (Number.isNaN(numeric)) {
-    return null;
-  }
-  return numeric;
-};
-
-const pickLabel = (record: Record<string, unknown>, fallback: string): string => {
-  const labelValue =
-    record.name ?? record.label ?? record.country ?? record.location ?? record.id ?? record.code ?? record.region ?? fallback;
-  return String(labelValue);
-};
-
-const normalizeRecords = (items: Array<Record<string, unknown>>, limit: number): { labels: string[]; values: number[] } => {
-  const labels: string[] = [];
-  const values: number[] = [];
-  for (const item of items) {
-    const value =
-      normalizeItemValue(item.value ?? item.count ?? item.requests ?? item.traffic ?? item.ratio ?? item.total ?? item.share);
-    if (value === null) {
-      continue;
-    }
-    labels.push(pickLabel(item, `Item ${labels.length + 1}`));
-    values.push(value);
-    if (labels.length >= limit) {
-      break;
-    }
-  }
-  return { labels, values };
-};
-
-const extractRecords = (result: unknown): Array<Record<string, unknown>> => {
-  if (!result) {
-    return [];
-  }
-
-  if (Array.isArray(result)) {
-    return result.filter((item) => typeof item === "object" && item !== null) as Array<Record<string, unknown>>;
-  }
-
-  if (typeof result !== "object") {
-    return [];
-  }
-
-  const record = result as Record<string, unknown>;
-  const top = record.top;
-  if (Array.isArray(top)) {
-    return top.filter((item) => typeof item === "object" && item !== null) as Array<Record<string, unknown>>;
-  }
-
-  const data = record.data;
-  if (Array.isArray(data)) {
-    return data.filter((item) => typeof item === "object" && item !== null) as Array<Record<string, unknown>>;
-  }
-
-  const series = record.series;
-  if (Array.isArray(series)) {
-    return series.filter((item) => typeof item === "object" && item !== null) as Array<Record<string, unknown>>;
-  }
-
-  const topKeys = Object.keys(record).filter((key) => key.startsWith("top_"));
-  if (topKeys.length > 0) {
-    return topKeys
-      .sort((a, b) => a.localeCompare(b))
-      .map((key) => record[key])
-      .filter((item) => typeof item === "object" && item !== null) as Array<Record<string, unknown>>;
-  }
-
-  return [];
-};
-
-const buildRadarChartData = (
-  result: unknown,
-  limit: number
-): { labels: string[]; values: number[] } => {
-  const records = extractRecords(result);
-  return normalizeRecords(records, limit);
-};
-
-const extractResultPayload = (payload: unknown): unknown => {
-  if (!payload || typeof payload !== "object") {
-    return payload;
-  }
-  const record = payload as Record<string, unknown>;
-  if ("result" in record) {
-    return record.result;
-  }
-  return payload;
-};
-
 const parseRadarResponseErrors = (responseBody?: string): { message?: string; code?: number | string }[] | undefined => {
   if (!responseBody) {
     return undefined;
@@ -202,7 +165,8 @@ const mapRadarError = (
   endpoint: RadarEndpointDefinition,
   params: RadarEndpointParams,
   responseBody?: string,
-  modeUsed?: "public" | "token"
+  modeUsed?: "public" | "token",
+  attempts?: RadarRequestAttempt[]
 ): RadarFetchError => {
   const parsedErrors = parseRadarResponseErrors(responseBody);
   if (isRouteInvalidError(parsedErrors, responseBody)) {
@@ -213,6 +177,7 @@ const mapRadarError = (
       responseBody,
       modeUsed,
       errors: parsedErrors,
+      attempts,
     });
   }
   const code: RadarErrorCode =
@@ -234,9 +199,30 @@ const mapRadarError = (
     responseBody,
     modeUsed,
     errors: parsedErrors,
+    attempts,
   });
 };
 
+type RadarResponsePayload = {
+  success?: boolean;
+  result?: unknown;
+  errors?: { message?: string; code?: number | string }[];
+};
+
+export const radarResponseCache = createTtlCache<{ data: RadarResponsePayload; meta: RadarRequestMeta }>();
+
+export const resolveRadarTokenCandidates = (config: Pick<RadarFetchConfig, "token" | "tokens">) => {
+  const candidates = config.tokens ?? (config.token ? [{ label: "default", token: config.token }] : []);
+  return candidates.filter(
+    (candidate, index) =>
+      isRadarTokenValidFormat(candidate.token) &&
+      candidates.findIndex((item) => item.token === candidate.token) === index
+  );
+};
+
+const isTokenFailoverError = (error: unknown) =>
+  error instanceof RadarFetchError && (error.code === "RADAR_UNAUTHORIZED" || error.code === "RADAR_RATE_LIMIT");
+
 const fetchFromSource = async (
   params: RadarEndpointParams,
   config: RadarFetchConfig,
@@ -244,24 +230,61 @@ const fetchFromSource = async (
   source: "public" | "token",
   dateRangeParams: RadarApiDateRangeParams
 ): Promise<RadarChartData> => {
-  if (source === "token" && !config.token) {
+  if (source === "public") {
+    return fetchWithCredentials(params, config, endpoint, "public", dateRangeParams);
+  }
+  const candidates = resolveRadarTokenCandidates(config);
+  if (!candidates.length) {
     throw new RadarFetchError("RADAR_TOKEN_MISSING", "Radar API token is missing", {
       endpoint: endpoint.path,
       params,
     });
   }
+  for (const [index, candidate] of candidates.entries()) {
+    try {
+      return await fetchWithCredentials(params, config, endpoint, "token", dateRangeParams, candidate.token);
+    } catch (error) {
+      const next = candidates[index + 1];
+      if (!next || !isTokenFailoverError(error)) {
+        throw error;
+      }
+      await logWarn("radar_token_failover", {
+        endpoint: endpoint.path,
+        failedLabel: candidate.label,
+        nextLabel: next.label,
+        radarErrorCode: (error as RadarFetchError).code,
+      });
+    }
+  }
+  throw new RadarFetchError("RADAR_TOKEN_MISSING", "Radar API token is missing", {
+    endpoint: endpoint.path,
+    params,
+  });
+};
 
+const fetchWithCredentials = async (
+  params: RadarEndpointParams,
+  config: RadarFetchConfig,
+  endpoint: RadarEndpointDefinition,
+  source: "public" | "token",
+  dateRangeParams: RadarApiDateRangeParams,
+  token?: string
+): Promise<RadarChartData> => {
   const normalizedParams = buildEndpointParams({ ...params, ...dateRangeParams }, endpoint);
 
-  let response: { data: { success?: boolean; result?: unknown; errors?: { message?: string; code?: number | string }[] } };
+  let response: { data: RadarResponsePayload };
   let modeUsed: "public" | "token" = source;
   try {
-    const result = await requestRadar<{ success?: boolean; result?: unknown; errors?: { message?: string; code?: number | string }[] }>(
-      endpoint.path,
-      normalizedParams,
-      source,
-      source === "token" ? config.token ?? undefined : undefined,
-      { timeoutMs: config.timeoutMs }
+    const result = await radarResponseCache.getOrLoad(
+      buildRadarCacheKey(endpoint.path, normalizedParams, source, token),
+      () =>
+        requestRadar<RadarResponsePayload>(endpoint.path, normalizedParams, source, token, {
+          timeoutMs: config.timeoutMs,
+          retry: config.retry,
+          priority: config.priority,
+          absoluteRange: config.customRange?.kind === "absolute",
+        }),
+      (loaded) => loaded.data?.success !== false
     );
     response = { data: result.data };
     modeUsed = result.meta.modeUsed;
@@ -274,9 +297,40 @@ const fetchFromSource = async (
         params: error.params,
         modeUsed: error.modeUsed,
         responseBody: error.responseBodyTrunc,
+        attempts: error.attempts,
         dateRangePreset: config.dateRangePreset,
       });
-      throw mapRadarError(error.status, endpoint, normalizedParams, error.responseBodyTrunc, error.modeUsed);
+      throw mapRadarError(
+        error.status,
+        endpoint,
+        normalizedParams,
+        error.responseBodyTrunc,
+        error.modeUsed,
+        error.attempts
+      );
+    }
+    if (error instanceof RadarTransportError) {
+      await logError("radar_fetch_failed", {
+        status: 0,
+        url: error.url,
+        path: error.path,
+        params: error.params,
+        modeUsed: error.modeUsed,
+        transportError: error.code,
+        attempts: error.attempts,
+        dateRangePreset: config.dateRangePreset,
+      }, error);
+      throw new RadarFetchError(
+        error.code === "timeout" ? "RADAR_TIMEOUT" : "RADAR_NETWORK",
+        error.message,
+        {
+          status: 0,
+          endpoint: endpoint.path,
+          params: normalizedParams,
+          modeUsed: error.modeUsed,
+          attempts: error.attempts,
+        }
+      );
     }
     if (error instanceof RadarRouteInvalidError) {
       await logError("radar_route_invalid", {
@@ -343,8 +397,34 @@ const fetchFromSource = async (
     });
   }
 
-  const resultPayload = extractResultPayload(payload);
-  const { labels, values } = buildRadarChartData(resultPayload, normalizedParams.limit ?? endpoint.defaults.limit);
+  let parsed: RadarParsedResponse;
+  try {
+    parsed = endpoint.parseResponse(payload.result, {
+      limit: normalizedParams.limit ?? endpoint.defaults.limit ?? MAX_SUMMARY_ITEMS,
+    });
+  } catch (error) {
+    if (!(error instanceof RadarSchemaError)) {
+      throw error;
+    }
+    const responseBody = JSON.stringify(payload).slice(0, 2000);
+    await logError("radar_schema_mismatch", {
+      endpoint: endpoint.path,
+      endpointName: endpoint.name,
+      schemaPath: error.path,
+      expected: error.expected,
+      modeUsed,
+      responseBody,
+    });
+    throw new RadarFetchError("RADAR_SCHEMA_MISMATCH", error.message, {
+      status: 200,
+      endpoint: endpoint.path,
+      params: normalizedParams,
+      modeUsed,
+      responseBody,
+      schemaPath: error.path,
+    });
+  }
+  const { kind, labelType, labels, values, aggInterval } = parsed;
   if (!validateRadarData(labels, values)) {
     throw new RadarFetchError("RADAR_EMPTY_DATA", "Radar API returned empty data", {
       status: 200,
@@ -356,16 +436,32 @@ const fetchFromSource = async (
   }
 
   return {
+    kind,
+    labelType,
     labels,
     values,
+    aggInterval: aggInterval ?? normalizedParams.aggInterval,
     source: modeUsed,
     endpoint: endpoint.path,
+    endpointName: endpoint.name,
     params: normalizedParams,
     dateRangePreset: config.dateRangePreset,
+    customRange: Boolean(config.customRange),
     label: endpoint.label,
   };
 };
 
+const applyConfigLocation = (
+  params: RadarEndpointParams,
+  config: RadarFetchConfig,
+  endpoint: RadarEndpointDefinition
+): RadarEndpointParams => {
+  if (params.location || !config.location || !supportsParam(endpoint, "location")) {
+    return params;
+  }
+  return { ...params, location: config.location };
+};
+
 const isFallbackForPublic = (error: RadarFetchError): boolean => {
   if (error.code === "RADAR_ROUTE_INVALID") {
     return false;
@@ -373,15 +469,16 @@ const isFallbackForPublic = (error: RadarFetchError): boolean => {
   return (error.status ?? 0) >= 400 && (error.status ?? 0) < 500;
 };
 
-export const fetchRadarData = async (
-  params: RadarEndpointParams,
+const fetchRadarWindow = async (
+  requestedParams: RadarEndpointParams,
   config: RadarFetchConfig,
-  endpoint: RadarEndpointDefinition = DEFAULT_RADAR_ENDPOINT
+  endpointRef: RadarEndpointDefinition | RadarEndpointName,
+  options?: { window?: RadarRangeWindowName }
 ): Promise<RadarChartData> => {
-  const { primary, fallback } = rangePresetToApiParams(config.dateRangePreset);
-  const dateRangeParams = config.mode === "public"
-    ? await resolvePublicDateRangeParams(primary, fallback)
-    : primary;
+  const endpoint = resolveRadarEndpoint(endpointRef);
+  const params = applyConfigLocation(requestedParams, config, endpoint);
+  const ranges = rangePresetToApiParams(config.dateRangePreset, new Date(), config.customRange);
+  const { primary, fallback } = options?.window === "previous" ? ranges.previous : ranges;
 
   const fetchWithFallback = async (
     source: "public" | "token",
@@ -403,6 +500,28 @@ export const fetchRadarData = async (
     }
   };
 
+  const fetchPublicWithContract = async (): Promise<RadarChartData> => {
+    const requestOptions = { timeoutMs: config.timeoutMs, priority: config.priority };
+    const contract = await getPublicContract(endpoint, requestOptions);
+    try {
+      return await fetchWithFallback("public", await applyPublicContract(contract, primary, fallback), true);
+    } catch (error) {
+      if (!(error instanceof RadarFetchError) || error.code !== "RADAR_BAD_REQUEST") {
+        throw error;
+      }
+      const refreshed = await getPublicContract(endpoint, { ...requestOptions, forceRefresh: true });
+      if (refreshed.paramMode === contract.paramMode) {
+        throw error;
+      }
+      await logWarn("radar_public_contract_changed", {
+        endpoint: endpoint.name,
+        previousParamMode: contract.paramMode,
+        paramMode: refreshed.paramMode,
+      });
+      return await fetchWithFallback("public", await applyPublicContract(refreshed, primary, fallback), true);
+    }
+  };
+
   if (config.mode === "public") {
     if (!endpoint.supportsPublic) {
       throw new RadarFetchError("RADAR_PUBLIC_UNSUPPORTED", "Public not available for this chart", {
@@ -410,11 +529,12 @@ export const fetchRadarData = async (
         params,
       });
     }
-    return fetchWithFallback("public", dateRangeParams, true);
+    return fetchPublicWithContract();
   }
 
+  const hasToken = resolveRadarTokenCandidates(config).length > 0;
   if (config.mode === "token") {
-    if (!isRadarTokenValidFormat(config.token ?? null)) {
+    if (!hasToken) {
       throw new RadarFetchError("RADAR_UNAUTHORIZED", "Radar token format is invalid", {
         endpoint: endpoint.path,
         params,
@@ -428,14 +548,14 @@ export const fetchRadarData = async (
     return fetchWithFallback("token", primary, true);
   }
 
-  if (!isRadarTokenValidFormat(config.token ?? null)) {
+  if (!hasToken) {
     await logWarn("radar_auto_invalid_token_fallback_public", {
       endpoint: endpoint.path,
       params,
       modeUsed: "token",
       dateRangePreset: config.dateRangePreset,
     });
-    return fetchWithFallback("public", dateRangeParams, true);
+    return fetchPublicWithContract();
   }
 
   try {
@@ -454,12 +574,22 @@ export const fetchRadarData = async (
         responseBody: radarError.responseBody,
         dateRangePreset: config.dateRangePreset,
       });
-      return await fetchFromSource(params, config, endpoint, "public", dateRangeParams);
+      return await fetchPublicWithContract();
     }
     throw radarError;
   }
 };
 
+export const fetchRadarData = async (
+  requestedParams: RadarEndpointParams,
+  config: RadarFetchConfig,
+  endpointRef: RadarEndpointDefinition | RadarEndpointName = DEFAULT_RADAR_ENDPOINT,
+  options?: { window?: RadarRangeWindowName }
+): Promise<RadarChartData> => ({
+  ...(await fetchRadarWindow(requestedParams, config, endpointRef, options)),
+  window: options?.window ?? "current",
+});
+
 export type RadarDiagnostics = {
   configuredMode: RadarMode;
   effectiveSource: "public" | "token" | null;
@@ -474,10 +604,14 @@ export type RadarDiagnostics = {
 export const diagnoseRadar = async (
   params: RadarEndpointParams,
   config: RadarFetchConfig,
-  endpoint: RadarEndpointDefinition = DEFAULT_RADAR_ENDPOINT
+  endpointRef: RadarEndpointDefinition | RadarEndpointName = DEFAULT_RADAR_ENDPOINT
 ): Promise<RadarDiagnostics> => {
-  const { primary } = rangePresetToApiParams(config.dateRangePreset);
-  const normalizedParams = buildEndpointParams({ ...params, ...primary }, endpoint);
+  const endpoint = resolveRadarEndpoint(endpointRef);
+  const { primary } = rangePresetToApiParams(config.dateRangePreset, new Date(), config.customRange);
+  const normalizedParams = buildEndpointParams(
+    { ...applyConfigLocation(params, config, endpoint), ...primary },
+    endpoint
+  );
   const buildResult = (
     source: "public" | "token",
     status: number,
@@ -494,8 +628,10 @@ export const diagnoseRadar = async (
   });
 
   try {
-    const result = await requestRadar(endpoint.path, normalizedParams, config.mode, config.token ?? undefined, {
+    const [candidate] = resolveRadarTokenCandidates(config);
+    const result = await requestRadar(endpoint.path, normalizedParams, config.mode, candidate?.token, {
       timeoutMs: config.timeoutMs,
+      priority: config.priority,
     });
     return buildResult(result.meta.modeUsed, result.meta.status);
   } catch (error) {
@@ -513,11 +649,11 @@ const truncateErrorBody = (body: string): string => {
   return `${body.slice(0, 200)}…`;
 };
 
-const resolvePublicDateRangeParams = async (
+const applyPublicContract = async (
+  contract: Pick<RadarPublicContract, "paramMode">,
   primary: RadarApiDateRangeParams,
   fallback?: RadarApiDateRangeParams
 ): Promise<RadarApiDateRangeParams> => {
-  const contract = await probeRadarPublicEndpoint();
   if (contract.paramMode === "sinceUntil" && primary.since && primary.until) {
     return primary;
   }
@@ -549,7 +685,7 @@ const convertDateRangeToSinceUntil = (dateRange: string): RadarApiDateRangeParam
   if (!Number.isFinite(days) || days <= 0) {
     return null;
   }
-  const until = new Date();
+  const until = floorToWindowBucket(new Date());
   const since = new Date(until.getTime() - days * 24 * 60 * 60 * 1000);
   return { since: since.toISOString(), until: until.toISOString() };
 };
@@ -0,0 +1,129 @@
+import { createHash } from "node:crypto";
+import { mkdir, readFile, writeFile } from "node:fs/promises";
+import path from "node:path";
+
+export type FixtureMode = "off" | "record" | "replay";
+
+export type FixtureKind = "radar" | "quickchart";
+
+export type FixtureHttpResponse<T = unknown> = {
+  status: number;
+  headers?: Record<string, unknown>;
+  data: T;
+};
+
+type StoredFixture = {
+  kind: FixtureKind;
+  request: unknown;
+  recordedAt: string;
+  response: {
+    status: number;
+    headers: Record<string, string>;
+    data: unknown;
+    encoding: "json" | "base64";
+  };
+};
+
+const DEFAULT_FIXTURES_DIR = "fixtures";
+const STORED_HEADERS = ["content-type", "retry-after"];
+const RELATIVE_TIME_PARAMS = ["since", "until", "dateStart", "dateEnd"];
+const HOUR_MS = 60 * 60 * 1000;
+
+export class FixtureMissingError extends Error {
+  code: "FIXTURE_MISSING";
+  file: string;
+
+  constructor(kind: FixtureKind, file: string) {
+    super(`No recorded ${kind} fixture at ${file}`);
+    this.name = "FixtureMissingError";
+    this.code = "FIXTURE_MISSING";
+    this.file = file;
+  }
+}
+
+export const getFixtureConfig = (): { mode: FixtureMode; dir: string } => {
+  const rawMode = process.env.RADAR_FIXTURES_MODE?.trim().toLowerCase();
+  const mode: FixtureMode = rawMode === "record" || rawMode === "replay" ? rawMode : "off";
+  const dir = process.env.RADAR_FIXTURES_DIR?.trim() || DEFAULT_FIXTURES_DIR;
+  return { mode, dir };
+};
+
+export const normalizeFixtureUrl = (
+  rawUrl: string,
+  options: { absoluteRange?: boolean; now?: number } = {}
+): string => {
+  const url = new URL(rawUrl);
+  const now = options.now ?? Date.now();
+  if (!options.absoluteRange) {
+    RELATIVE_TIME_PARAMS.forEach((key) => {
+      const value = url.searchParams.get(key);
+      const parsed = value ? Date.parse(value) : Number.NaN;
+      if (!Number.isNaN(parsed)) {
+        url.searchParams.set(key, `now-${Math.round((now - parsed) / HOUR_MS)}h`);
+      }
+    });
+  }
+  url.searchParams.sort();
+  return url.toString();
+};
+
+const fixtureFile = (dir: string, kind: FixtureKind, request: unknown): string => {
+  const key = createHash("sha256").update(JSON.stringify(request)).digest("hex").slice(0, 32);
+  return path.join(dir, kind, `${key}.json`);
+};
+
+const pickHeaders = (headers?: Record<string, unknown>): Record<string, string> => {
+  const picked: Record<string, string> = {};
+  STORED_HEADERS.forEach((name) => {
+    const value = headers?.[name];
+    if (value !== undefined && value !== null) {
+      picked[name] = String(value);
+    }
+  });
+  return picked;
+};
+
+const encodeData = (data: unknown, binary: boolean): unknown =>
+  binary ? Buffer.from(data as ArrayBuffer).toString("base64") : data;
+
+export const withFixture = async <T>(
+  kind: FixtureKind,
+  request: unknown,
+  perform: () => Promise<FixtureHttpResponse<T>>,
+  options: { binary?: boolean } = {}
+): Promise<FixtureHttpResponse<T>> => {
+  const { mode, dir } = getFixtureConfig();
+  if (mode === "off") {
+    return perform();
+  }
+
+  const file = fixtureFile(dir, kind, request);
+  if (mode === "replay") {
+    let raw: string;
+    try {
+      raw = await readFile(file, "utf8");
+    } catch {
+      throw new FixtureMissingError(kind, file);
+    }
+    const stored = JSON.parse(raw) as StoredFixture;
+    const data =
+      stored.response.encoding === "base64" ? Buffer.from(String(stored.response.data), "base64") : stored.response.data;
+    return { status: stored.response.status, headers: stored.response.headers, data: data as T };
+  }
+
+  const response = await perform();
+  const stored: StoredFixture = {
+    kind,
+    request,
+    recordedAt: new Date().toISOString(),
+    response: {
+      status: response.status,
+      headers: pickHeaders(response.headers),
+      data: encodeData(response.data, Boolean(options.binary)),
+      encoding: options.binary ? "base64" : "json",
+    },
+  };
+  await mkdir(path.dirname(file), { recursive: true });
+  await writeFile(file, `${JSON.stringify(stored, null, 2)}\n`);
+  return response;
+};
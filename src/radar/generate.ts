@@ -1,4 +1,10 @@
-import axios from "axios";
+import { formatLocationTitle, localizeCountryLabel, type LabelLanguage } from "./countries.js";
+import type { RadarChartData } from "./fetch.js";
+import { formatTimestamp } from "./dateRange.js";
+import type { RadarLabelType } from "./responseSchemas.js";
+import { createTtlCache, hashCacheKey } from "./cache.js";
+import { renderChart, type ChartRenderColor, type ChartRenderSpec } from "./chartRenderer.js";
+import type { MapRegion } from "./worldMap.js";
 
 const WIDTH = 1280;
 const HEIGHT = 720;
@@ -18,99 +24,145 @@ export class ChartRenderError extends Error {
   }
 }
 
+export const chartRenderCache = createTtlCache<Buffer>();
+
+export type RadarChartDataset = {
+  label: string;
+  values: Array<number | null>;
+};
+
+export type RadarChartStyle = "BAR" | "MAP";
+
 export type RadarChartSeries = {
+  kind?: "category" | "timeseries";
+  style?: RadarChartStyle;
+  mapRegion?: MapRegion;
+  labelType?: RadarLabelType;
   labels: string[];
   values: number[];
   title: string;
+  location?: string | null;
+  aggInterval?: string;
+  invertYAxis?: boolean;
+  datasets?: RadarChartDataset[];
 };
 
-const formatTimestamp = (timezone: string): string => {
+const DATASET_COLORS: ChartRenderColor[] = [
+  { border: "#f38020", fill: "rgba(243, 128, 32, 0.6)", line: "rgba(243, 128, 32, 0.15)" },
+  { border: "#6b7280", fill: "rgba(107, 114, 128, 0.5)", line: "rgba(107, 114, 128, 0.1)" },
+  { border: "#2563eb", fill: "rgba(37, 99, 235, 0.5)", line: "rgba(37, 99, 235, 0.1)" },
+  { border: "#16a34a", fill: "rgba(22, 163, 74, 0.5)", line: "rgba(22, 163, 74, 0.1)" },
+  { border: "#9333ea", fill: "rgba(147, 51, 234, 0.5)", line: "rgba(147, 51, 234, 0.1)" },
+];
+
+export const buildChartSeries = (data: RadarChartData): RadarChartSeries => ({
+  kind: data.kind,
+  labelType: data.labelType,
+  labels: data.labels,
+  values: data.values,
+  title: data.label,
+  location: data.params.location ?? null,
+  aggInterval: data.aggInterval,
+});
+
+const DAILY_INTERVALS = new Set(["1d", "1w"]);
+const DAY_MS = 24 * 60 * 60 * 1000;
+
+const isDailySeries = (labels: string[], aggInterval?: string): boolean => {
+  if (aggInterval) {
+    return DAILY_INTERVALS.has(aggInterval);
+  }
+  if (labels.length < 2) {
+    return false;
+  }
+  return new Date(labels[1]).getTime() - new Date(labels[0]).getTime() >= DAY_MS;
+};
+
+const formatTimeLabels = (labels: string[], timezone: string, aggInterval?: string): string[] => {
+  const daily = isDailySeries(labels, aggInterval);
   const formatter = new Intl.DateTimeFormat("en-GB", {
     timeZone: timezone,
-    year: "numeric",
     month: "2-digit",
     day: "2-digit",
-    hour: "2-digit",
-    minute: "2-digit",
-    hour12: false,
+    ...(daily ? {} : { hour: "2-digit", minute: "2-digit", hour12: false }),
+  });
+  return labels.map((label) => {
+    const parsed = new Date(label);
+    return Number.isNaN(parsed.getTime()) ? label : formatter.format(parsed).replace(",", "");
   });
-  return formatter.format(new Date()).replace(",", "");
 };
 
+export const canRenderAsMap = (series: Pick<RadarChartSeries, "kind" | "labelType">): boolean =>
+  series.kind !== "timeseries" && series.labelType === "country";
+
 const sliceSeries = (series: RadarChartSeries): RadarChartSeries => {
-  if (series.labels.length <= MAX_POINTS) {
+  if (series.kind === "timeseries" || series.labels.length <= MAX_POINTS) {
     return series;
   }
   return {
     ...series,
     labels: series.labels.slice(0, MAX_POINTS),
     values: series.values.slice(0, MAX_POINTS),
+    datasets: series.datasets?.map((dataset) => ({ ...dataset, values: dataset.values.slice(0, MAX_POINTS) })),
   };
 };
 
-export const generateRadarChartPng = async (series: RadarChartSeries, timezone: string): Promise<Buffer> => {
+const formatCategoryLabels = (series: RadarChartSeries, language: LabelLanguage): string[] =>
+  series.labelType === "country" ? series.labels.map((label) => localizeCountryLabel(label, language)) : series.labels;
+
+const resolveDatasets = (series: RadarChartSeries): RadarChartDataset[] =>
+  series.datasets?.length ? series.datasets : [{ label: series.title, values: series.values }];
+
+const isValidSeries = (series: RadarChartSeries): boolean => {
   if (!Array.isArray(series.labels) || series.labels.length === 0 || series.labels.length !== series.values.length) {
+    return false;
+  }
+  return resolveDatasets(series).every((dataset) => dataset.values.length === series.labels.length);
+};
+
+export const generateRadarChartPng = async (
+  series: RadarChartSeries,
+  timezone: string,
+  language: LabelLanguage = "en"
+): Promise<Buffer> => {
+  if (!isValidSeries(series)) {
     throw new ChartRenderError("CHART_INVALID_DATA", "Radar data validation failed");
   }
 
-  const trimmed = sliceSeries(series);
-
-  const configuration = {
-    type: "bar",
-    data: {
-      labels: trimmed.labels,
-      datasets: [
-        {
-          data: trimmed.values,
-          label: trimmed.title,
-          backgroundColor: "rgba(243, 128, 32, 0.6)",
-          borderColor: "#f38020",
-          borderWidth: 1,
-        },
-      ],
-    },
-    options: {
-      responsive: false,
-      plugins: {
-        legend: { display: false },
-        title: {
-          display: true,
-          text: `Cloudflare Radar 🇮🇷 — ${formatTimestamp(timezone)}`,
-          color: "#1f2937",
-          font: { size: 24, family: "Arial" },
-        },
-      },
-      scales: {
-        x: {
-          grid: { display: false },
-          ticks: {
-            maxRotation: 0,
-            autoSkip: false,
-            color: "#374151",
+  const isMap = series.style === "MAP" && canRenderAsMap(series);
+  const trimmed = isMap ? series : sliceSeries(series);
+  const isTimeseries = trimmed.kind === "timeseries";
+  const datasets = resolveDatasets(trimmed);
+
+  const spec: ChartRenderSpec = {
+    type: isMap ? "map" : isTimeseries ? "line" : "bar",
+    title: `Cloudflare Radar ${formatLocationTitle(trimmed.location, language)} — ${formatTimestamp(timezone)}`,
+    labels: isTimeseries
+      ? formatTimeLabels(trimmed.labels, timezone, trimmed.aggInterval)
+      : formatCategoryLabels(trimmed, language),
+    datasets: datasets.map((dataset, index) => ({
+      label: dataset.label,
+      values: dataset.values,
+      color: DATASET_COLORS[index % DATASET_COLORS.length],
+      fill: isTimeseries && index === 0,
+    })),
+    showLegend: datasets.length > 1,
+    reverseY: Boolean(trimmed.invertYAxis),
+    width: WIDTH,
+    height: HEIGHT,
+    ...(isMap
+      ? {
+          map: {
+            region: trimmed.mapRegion ?? "WORLD",
+            codes: trimmed.labels,
+            noDataLabel: language === "fa" ? "بدون داده" : "No data",
           },
-        },
-        y: {
-          grid: { color: "#e5e7eb" },
-          ticks: { color: "#374151" },
-        },
-      },
-    },
+        }
+      : {}),
   };
 
   try {
-    const response = await axios.post(
-      "https://quickchart.io/chart",
-      {
-        chart: configuration,
-        format: "png",
-        width: WIDTH,
-        height: HEIGHT,
-        backgroundColor: "white",
-      },
-      { responseType: "arraybuffer", timeout: 10_000 }
-    );
-
-    return Buffer.from(response.data);
+    return await chartRenderCache.getOrLoad(hashCacheKey(spec), async () => (await renderChart(spec)).buffer);
   } catch (error) {
     throw new ChartRenderError("CHART_RENDER_FAILED", "Chart rendering failed", error);
   }
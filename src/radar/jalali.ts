@@ -0,0 +1,80 @@
+export type CalendarDate = {
+  year: number;
+  month: number;
+  day: number;
+};
+
+const DAY_MS = 24 * 60 * 60 * 1000;
+
+export const JALALI_MONTHS: Record<string, number> = {
+  فروردین: 1,
+  اردیبهشت: 2,
+  خرداد: 3,
+  تیر: 4,
+  مرداد: 5,
+  شهریور: 6,
+  مهر: 7,
+  آبان: 8,
+  آذر: 9,
+  دی: 10,
+  بهمن: 11,
+  اسفند: 12,
+  farvardin: 1,
+  ordibehesht: 2,
+  khordad: 3,
+  tir: 4,
+  mordad: 5,
+  shahrivar: 6,
+  mehr: 7,
+  aban: 8,
+  azar: 9,
+  dey: 10,
+  bahman: 11,
+  esfand: 12,
+};
+
+const formatters = new Map<string, Intl.DateTimeFormat>();
+
+const getPersianFormatter = (timezone: string): Intl.DateTimeFormat => {
+  const cached = formatters.get(timezone);
+  if (cached) {
+    return cached;
+  }
+  const formatter = new Intl.DateTimeFormat("en-US-u-ca-persian", {
+    timeZone: timezone,
+    year: "numeric",
+    month: "numeric",
+    day: "numeric",
+  });
+  formatters.set(timezone, formatter);
+  return formatter;
+};
+
+export const gregorianToJalali = (date: Date, timezone: string = "UTC"): CalendarDate => {
+  const parts = getPersianFormatter(timezone).formatToParts(date);
+  const read = (type: Intl.DateTimeFormatPartTypes) => Number(parts.find((part) => part.type === type)?.value);
+  return { year: read("year"), month: read("month"), day: read("day") };
+};
+
+const jalaliDayIndex = (date: CalendarDate): number =>
+  date.year * 366 + (date.month <= 6 ? (date.month - 1) * 31 : 186 + (date.month - 7) * 30) + date.day;
+
+export const jalaliToGregorian = (date: CalendarDate): CalendarDate | null => {
+  if (date.month < 1 || date.month > 12 || date.day < 1 || date.day > 31) {
+    return null;
+  }
+  let guess = Date.UTC(date.year + 621, 2, 20) + (jalaliDayIndex({ ...date, year: 0 }) - 1) * DAY_MS;
+  for (let attempt = 0; attempt < 4; attempt += 1) {
+    const diff = jalaliDayIndex(date) - jalaliDayIndex(gregorianToJalali(new Date(guess)));
+    if (diff === 0) {
+      break;
+    }
+    guess += diff * DAY_MS;
+  }
+  const resolved = gregorianToJalali(new Date(guess));
+  if (resolved.year !== date.year || resolved.month !== date.month || resolved.day !== date.day) {
+    return null;
+  }
+  const gregorian = new Date(guess);
+  return { year: gregorian.getUTCFullYear(), month: gregorian.getUTCMonth() + 1, day: gregorian.getUTCDate() };
+};
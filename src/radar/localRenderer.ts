@@ -0,0 +1,320 @@
+import { renderAsync } from "@resvg/resvg-js";
+import type { ChartRenderer, ChartRenderSpec } from "./chartRenderer.js";
+import { projectWorldMap } from "./worldMap.js";
+
+const FONT_FAMILY = "Vazirmatn, Arial, DejaVu Sans, sans-serif";
+const TITLE_COLOR = "#1f2937";
+const TICK_COLOR = "#374151";
+const GRID_COLOR = "#e5e7eb";
+const TICK_FONT_SIZE = 12;
+const TITLE_FONT_SIZE = 24;
+const Y_TICK_COUNT = 6;
+const MAX_X_TICKS = 12;
+const MAX_ROTATED_LABEL_CHARS = 24;
+const MAP_NO_DATA_COLOR = "#e5e7eb";
+const MAP_SCALE_COLORS = ["#fde0c5", "#facb98", "#f8a65b", "#f38020", "#b45309"];
+const MAP_PANEL_WIDTH = 250;
+const MAP_PANEL_ROWS = 15;
+
+type PlotArea = {
+  left: number;
+  top: number;
+  width: number;
+  height: number;
+};
+
+const escapeXml = (text: string): string =>
+  text.replace(/&/g, "&amp;").replace(/</g, "&lt;").replace(/>/g, "&gt;").replace(/"/g, "&quot;");
+
+const formatTick = (value: number): string => {
+  const rounded = Math.round(value * 100) / 100;
+  return Math.abs(rounded) >= 1000 ? rounded.toLocaleString("en-US") : String(rounded);
+};
+
+const truncateLabel = (label: string, maxChars: number): string =>
+  label.length > maxChars ? `${label.slice(0, Math.max(1, maxChars - 1))}…` : label;
+
+const estimateTextWidth = (text: string, fontSize: number): number => text.length * fontSize * 0.6;
+
+const niceStep = (range: number, count: number): number => {
+  const rough = range / Math.max(1, count - 1);
+  const magnitude = 10 ** Math.floor(Math.log10(rough));
+  const normalized = rough / magnitude;
+  const factor = normalized <= 1 ? 1 : normalized <= 2 ? 2 : normalized <= 5 ? 5 : 10;
+  return factor * magnitude;
+};
+
+export const buildValueScale = (
+  values: number[],
+  includeZero: boolean
+): { min: number; max: number; ticks: number[] } => {
+  let min = values.length ? Math.min(...values) : 0;
+  let max = values.length ? Math.max(...values) : 1;
+  if (includeZero) {
+    min = Math.min(0, min);
+    max = Math.max(0, max);
+  }
+  if (min === max) {
+    min -= 1;
+    max += 1;
+  }
+  const step = niceStep(max - min, Y_TICK_COUNT);
+  const start = Math.floor(min / step) * step;
+  const end = Math.ceil(max / step) * step;
+  const ticks: number[] = [];
+  for (let tick = start; tick <= end + step / 2; tick += step) {
+    ticks.push(Math.round(tick / step) * step);
+  }
+  return { min: start, max: end, ticks };
+};
+
+const renderLegend = (spec: ChartRenderSpec, y: number): string => {
+  const items = spec.datasets.map((dataset) => ({
+    dataset,
+    width: 18 + 6 + estimateTextWidth(dataset.label, TICK_FONT_SIZE) + 20,
+  }));
+  const total = items.reduce((sum, item) => sum + item.width, 0);
+  let x = (spec.width - total) / 2;
+  return items
+    .map(({ dataset, width }) => {
+      const fill = spec.type === "line" ? dataset.color.line : dataset.color.fill;
+      const markup = [
+        `<rect x="${x}" y="${y - 10}" width="18" height="12" fill="${fill}" stroke="${dataset.color.border}" stroke-width="1"/>`,
+        `<text x="${x + 24}" y="${y}" font-size="${TICK_FONT_SIZE}" fill="${TICK_COLOR}">${escapeXml(dataset.label)}</text>`,
+      ].join("");
+      x += width;
+      return markup;
+    })
+    .join("");
+};
+
+const renderXLabels = (
+  spec: ChartRenderSpec,
+  plot: PlotArea,
+  slotWidth: number,
+  rotate: boolean,
+  centerOf: (index: number) => number
+): string => {
+  const step = spec.type === "line" ? Math.max(1, Math.ceil(spec.labels.length / MAX_X_TICKS)) : 1;
+  const y = plot.top + plot.height + 18;
+  return spec.labels
+    .map((label, index) => {
+      if (index % step !== 0) {
+        return "";
+      }
+      const x = centerOf(index);
+      if (rotate) {
+        const text = escapeXml(truncateLabel(label, MAX_ROTATED_LABEL_CHARS));
+        return `<text x="${x}" y="${y}" font-size="${TICK_FONT_SIZE}" fill="${TICK_COLOR}" text-anchor="end" transform="rotate(-35 ${x} ${y})">${text}</text>`;
+      }
+      const maxChars = Math.max(3, Math.floor((slotWidth * step) / (TICK_FONT_SIZE * 0.6)));
+      const text = escapeXml(truncateLabel(label, maxChars));
+      return `<text x="${x}" y="${y}" font-size="${TICK_FONT_SIZE}" fill="${TICK_COLOR}" text-anchor="middle">${text}</text>`;
+    })
+    .join("");
+};
+
+const renderBars = (spec: ChartRenderSpec, plot: PlotArea, toY: (value: number) => number, baseline: number) => {
+  const slotWidth = plot.width / spec.labels.length;
+  const groupWidth = slotWidth * 0.8;
+  const barWidth = groupWidth / spec.datasets.length;
+  return spec.datasets
+    .map((dataset, datasetIndex) =>
+      dataset.values
+        .map((value, index) => {
+          if (value === null || !Number.isFinite(value)) {
+            return "";
+          }
+          const x = plot.left + index * slotWidth + (slotWidth - groupWidth) / 2 + datasetIndex * barWidth;
+          const y = toY(value);
+          const top = Math.min(y, baseline);
+          const height = Math.max(1, Math.abs(baseline - y));
+          return `<rect x="${x.toFixed(2)}" y="${top.toFixed(2)}" width="${barWidth.toFixed(2)}" height="${height.toFixed(2)}" fill="${dataset.color.fill}" stroke="${dataset.color.border}" stroke-width="1"/>`;
+        })
+        .join("")
+    )
+    .join("");
+};
+
+const renderLines = (spec: ChartRenderSpec, plot: PlotArea, toY: (value: number) => number, baseline: number) => {
+  const stepX = spec.labels.length > 1 ? plot.width / (spec.labels.length - 1) : 0;
+  const toX = (index: number) => plot.left + (spec.labels.length > 1 ? index * stepX : plot.width / 2);
+  return spec.datasets
+    .map((dataset) => {
+      const points = dataset.values.flatMap((value, index) =>
+        value === null || !Number.isFinite(value) ? [] : [`${toX(index).toFixed(2)},${toY(value).toFixed(2)}`]
+      );
+      if (!points.length) {
+        return "";
+      }
+      const area =
+        dataset.fill && points.length > 1
+          ? `<polygon points="${points[0].split(",")[0]},${baseline} ${points.join(" ")} ${points[points.length - 1].split(",")[0]},${baseline}" fill="${dataset.color.line}"/>`
+          : "";
+      return `${area}<polyline points="${points.join(" ")}" fill="none" stroke="${dataset.color.border}" stroke-width="2" stroke-linejoin="round"/>`;
+    })
+    .join("");
+};
+
+export const buildMapClasses = (values: number[]): Array<{ min: number; max: number; color: string }> => {
+  const sorted = [...values].sort((a, b) => a - b);
+  const count = Math.min(MAP_SCALE_COLORS.length, new Set(sorted).size);
+  const colors = MAP_SCALE_COLORS.slice(MAP_SCALE_COLORS.length - count);
+  return colors.map((color, index) => ({
+    min: sorted[Math.floor((index * sorted.length) / count)],
+    max: index === count - 1 ? sorted[sorted.length - 1] : sorted[Math.floor(((index + 1) * sorted.length) / count)],
+    color,
+  }));
+};
+
+const renderMapLegend = (classes: ReturnType<typeof buildMapClasses>, noDataLabel: string, width: number, y: number) => {
+  const items = [
+    ...classes.map((item) => ({ color: item.color, label: `${formatTick(item.min)}–${formatTick(item.max)}` })),
+    { color: MAP_NO_DATA_COLOR, label: noDataLabel },
+  ].map((item) => ({ ...item, width: 18 + 6 + estimateTextWidth(item.label, TICK_FONT_SIZE) + 20 }));
+  const total = items.reduce((sum, item) => sum + item.width, 0);
+  let x = (width - total) / 2;
+  return items
+    .map((item) => {
+      const markup = [
+        `<rect x="${x}" y="${y - 10}" width="18" height="12" fill="${item.color}" stroke="#9ca3af" stroke-width="0.5"/>`,
+        `<text x="${x + 24}" y="${y}" font-size="${TICK_FONT_SIZE}" fill="${TICK_COLOR}">${escapeXml(item.label)}</text>`,
+      ].join("");
+      x += item.width;
+      return markup;
+    })
+    .join("");
+};
+
+const renderMapPanel = (spec: ChartRenderSpec, values: Array<number | null>, x: number, top: number) =>
+  spec.labels
+    .slice(0, MAP_PANEL_ROWS)
+    .map((label, index) => {
+      const y = top + index * 26;
+      const value = values[index];
+      return [
+        `<text x="${x}" y="${y}" font-size="13" fill="${TICK_COLOR}">${index + 1}.</text>`,
+        `<text x="${x + 28}" y="${y}" font-size="13" fill="${TITLE_COLOR}">${escapeXml(truncateLabel(label, 22))}</text>`,
+        `<text x="${x + MAP_PANEL_WIDTH - 20}" y="${y}" font-size="13" fill="${TICK_COLOR}" text-anchor="end">${
+          value === null || value === undefined ? "-" : formatTick(value)
+        }</text>`,
+      ].join("");
+    })
+    .join("");
+
+export const buildMapSvg = (spec: ChartRenderSpec): string => {
+  const values = spec.datasets[0]?.values ?? [];
+  const codes = spec.map?.codes ?? [];
+  const valueByCode = new Map<string, number>();
+  codes.forEach((code, index) => {
+    const value = values[index];
+    if (value !== null && value !== undefined && Number.isFinite(value)) {
+      valueByCode.set(code.toUpperCase(), value);
+    }
+  });
+  const classes = buildMapClasses([...valueByCode.values()]);
+  const colorFor = (value: number) =>
+    [...classes].reverse().find((item) => value >= item.min)?.color ?? classes[0]?.color ?? MAP_NO_DATA_COLOR;
+  const box = { x: 20, y: 70, width: spec.width - MAP_PANEL_WIDTH - 40, height: spec.height - 70 - 50 };
+  const countries = projectWorldMap(spec.map?.region ?? "WORLD", box)
+    .map((country) => {
+      const value = country.code ? valueByCode.get(country.code) : undefined;
+      const fill = value === undefined ? MAP_NO_DATA_COLOR : colorFor(value);
+      return `<path d="${country.path}" fill="${fill}" stroke="#ffffff" stroke-width="0.6" stroke-linejoin="round"/>`;
+    })
+    .join("");
+
+  return [
+    `<svg xmlns="http://www.w3.org/2000/svg" width="${spec.width}" height="${spec.height}" viewBox="0 0 ${spec.width} ${spec.height}" font-family="${FONT_FAMILY}">`,
+    `<rect width="${spec.width}" height="${spec.height}" fill="white"/>`,
+    `<text x="${spec.width / 2}" y="42" font-size="${TITLE_FONT_SIZE}" fill="${TITLE_COLOR}" text-anchor="middle">${escapeXml(spec.title)}</text>`,
+    `<clipPath id="map-area"><rect x="${box.x}" y="${box.y}" width="${box.width}" height="${box.height}"/></clipPath>`,
+    `<g clip-path="url(#map-area)">${countries}</g>`,
+    renderMapPanel(spec, values, spec.width - MAP_PANEL_WIDTH, box.y + 20),
+    renderMapLegend(classes, spec.map?.noDataLabel ?? "No data", spec.width, spec.height - 16),
+    "</svg>",
+  ].join("");
+};
+
+export const buildChartSvg = (spec: ChartRenderSpec): string => {
+  if (spec.type === "map") {
+    return buildMapSvg(spec);
+  }
+  const values = spec.datasets.flatMap((dataset) =>
+    dataset.values.filter((value): value is number => value !== null && Number.isFinite(value))
+  );
+  const scale = buildValueScale(values, spec.type === "bar");
+  const tickLabelWidth = Math.max(...scale.ticks.map((tick) => estimateTextWidth(formatTick(tick), TICK_FONT_SIZE)));
+  const plotWidth = spec.width - tickLabelWidth - 60;
+  const barSlot = plotWidth / Math.max(1, spec.labels.length);
+  const longestLabel = Math.max(0, ...spec.labels.map((label) => estimateTextWidth(label, TICK_FONT_SIZE)));
+  const rotate = spec.type === "bar" && longestLabel > barSlot * 0.95;
+  const xLabelHeight = rotate
+    ? Math.min(longestLabel, estimateTextWidth("x".repeat(MAX_ROTATED_LABEL_CHARS), TICK_FONT_SIZE)) * 0.6 + 24
+    : 30;
+  const legendHeight = spec.showLegend ? 32 : 0;
+  const plot: PlotArea = {
+    left: tickLabelWidth + 30,
+    top: 70,
+    width: plotWidth,
+    height: spec.height - 70 - xLabelHeight - legendHeight - 10,
+  };
+  const toY = (value: number) => {
+    const ratio = (value - scale.min) / (scale.max - scale.min);
+    return spec.reverseY ? plot.top + ratio * plot.height : plot.top + plot.height - ratio * plot.height;
+  };
+  const baseline = spec.type === "bar" ? toY(Math.min(Math.max(0, scale.min), scale.max)) : plot.top + plot.height;
+  const grid = scale.ticks
+    .map((tick) => {
+      const y = toY(tick).toFixed(2);
+      return [
+        `<line x1="${plot.left}" y1="${y}" x2="${plot.left + plot.width}" y2="${y}" stroke="${GRID_COLOR}" stroke-width="1"/>`,
+        `<text x="${plot.left - 8}" y="${y}" font-size="${TICK_FONT_SIZE}" fill="${TICK_COLOR}" text-anchor="end" dominant-baseline="middle">${formatTick(tick)}</text>`,
+      ].join("");
+    })
+    .join("");
+  const lineStep = spec.labels.length > 1 ? plot.width / (spec.labels.length - 1) : 0;
+  const centerOf =
+    spec.type === "bar"
+      ? (index: number) => plot.left + index * barSlot + barSlot / 2
+      : (index: number) => plot.left + (spec.labels.length > 1 ? index * lineStep : plot.width / 2);
+
+  return [
+    `<svg xmlns="http://www.w3.org/2000/svg" width="${spec.width}" height="${spec.height}" viewBox="0 0 ${spec.width} ${spec.height}" font-family="${FONT_FAMILY}">`,
+    `<rect width="${spec.width}" height="${spec.height}" fill="white"/>`,
+    `<text x="${spec.width / 2}" y="42" font-size="${TITLE_FONT_SIZE}" fill="${TITLE_COLOR}" text-anchor="middle">${escapeXml(spec.title)}</text>`,
+    grid,
+    spec.type === "bar" ? renderBars(spec, plot, toY, baseline) : renderLines(spec, plot, toY, baseline),
+    `<line x1="${plot.left}" y1="${plot.top + plot.height}" x2="${plot.left + plot.width}" y2="${plot.top + plot.height}" stroke="${TICK_COLOR}" stroke-width="1"/>`,
+    renderXLabels(spec, plot, barSlot, rotate, centerOf),
+    spec.showLegend ? renderLegend(spec, spec.height - 16) : "",
+    "</svg>",
+  ].join("");
+};
+
+const stripEmoji = (text: string): string =>
+  text
+    .replace(/[\u{1F1E6}-\u{1F1FF}]|\p{Extended_Pictographic}\uFE0F?/gu, "")
+    .replace(/\s{2,}/g, " ")
+    .trim();
+
+const withoutEmoji = (spec: ChartRenderSpec): ChartRenderSpec => ({
+  ...spec,
+  title: stripEmoji(spec.title),
+  labels: spec.labels.map(stripEmoji),
+  datasets: spec.datasets.map((dataset) => ({ ...dataset, label: stripEmoji(dataset.label) })),
+});
+
+export const localChartRenderer: ChartRenderer = {
+  name: "local",
+  supports: ["bar", "line", "map"],
+  render: async (spec, options) => {
+    const svg = buildChartSvg(options.fontFiles.length ? spec : withoutEmoji(spec));
+    const image = await renderAsync(svg, {
+      background: "white",
+      font: { loadSystemFonts: true, fontFiles: options.fontFiles },
+      logLevel: "off",
+    });
+    return image.asPng();
+  },
+};
@@ -0,0 +1,107 @@
+import { fetchRadarData, type RadarChartData, type RadarChartKind, type RadarFetchConfig } from "./fetch.js";
+import {
+  RadarConfigError,
+  resolveRadarEndpoint,
+  supportsParam,
+  type RadarEndpointDefinition,
+  type RadarEndpointName,
+  type RadarEndpointParams,
+} from "./endpoints.js";
+import { formatLocationTitle, isKnownCountryCode, type LabelLanguage } from "./countries.js";
+import type { RadarChartSeries } from "./generate.js";
+
+export const MIN_COMPARE_LOCATIONS = 2;
+export const MAX_COMPARE_LOCATIONS = 5;
+
+export type RadarMultiLocationData = {
+  kind: RadarChartKind;
+  label: string;
+  labels: string[];
+  results: RadarChartData[];
+  datasets: Array<{ location: string; values: Array<number | null> }>;
+};
+
+const mergeLabels = (results: RadarChartData[], kind: RadarChartKind): string[] => {
+  const seen = new Set<string>();
+  const merged: string[] = [];
+  results.forEach((result) => {
+    result.labels.forEach((label) => {
+      if (!seen.has(label)) {
+        seen.add(label);
+        merged.push(label);
+      }
+    });
+  });
+  if (kind === "timeseries") {
+    return merged.sort((a, b) => new Date(a).getTime() - new Date(b).getTime());
+  }
+  return merged;
+};
+
+export const mergeLocationResults = (locations: string[], results: RadarChartData[]): RadarMultiLocationData => {
+  const kind = results[0]?.kind ?? "category";
+  const labels = mergeLabels(results, kind);
+  const datasets = results.map((result, index) => {
+    const byLabel = new Map(result.labels.map((label, valueIndex) => [label, result.values[valueIndex]]));
+    return {
+      location: locations[index],
+      values: labels.map((label) => byLabel.get(label) ?? null),
+    };
+  });
+  return { kind, label: results[0]?.label ?? "", labels, results, datasets };
+};
+
+export const fetchRadarLocations = async (
+  params: RadarEndpointParams,
+  config: RadarFetchConfig,
+  endpointRef: RadarEndpointDefinition | RadarEndpointName,
+  locations: string[]
+): Promise<RadarMultiLocationData> => {
+  const endpoint = resolveRadarEndpoint(endpointRef);
+  if (!supportsParam(endpoint, "location")) {
+    throw new RadarConfigError(`location is not supported for ${endpoint.name}`);
+  }
+  if (locations.length < MIN_COMPARE_LOCATIONS || locations.length > MAX_COMPARE_LOCATIONS) {
+    throw new RadarConfigError(`Between ${MIN_COMPARE_LOCATIONS} and ${MAX_COMPARE_LOCATIONS} locations are required`);
+  }
+  const results: RadarChartData[] = [];
+  for (const location of locations) {
+    results.push(await fetchRadarData({ ...params, location }, config, endpoint));
+  }
+  return mergeLocationResults(
+    results.map((result) => result.params.location ?? ""),
+    results
+  );
+};
+
+export const buildMultiLocationSeries = (
+  data: RadarMultiLocationData,
+  language: LabelLanguage = "en"
+): RadarChartSeries => {
+  const first = data.results[0];
+  return {
+    kind: data.kind,
+    labelType: first?.labelType,
+    labels: data.labels,
+    values: data.datasets[0]?.values.map((value) => value ?? 0) ?? [],
+    title: data.label,
+    location: null,
+    aggInterval: first?.aggInterval,
+    datasets: data.datasets.map((dataset) => ({
+      label: formatLocationTitle(dataset.location, language),
+      values: dataset.values,
+    })),
+  };
+};
+
+export const parseCompareLocations = (text: string): string[] | null => {
+  const codes = text
+    .split(/[\s,،]+/)
+    .map((code) => code.trim().toUpperCase())
+    .filter(Boolean);
+  const unique = Array.from(new Set(codes));
+  if (unique.length < MIN_COMPARE_LOCATIONS || unique.length > MAX_COMPARE_LOCATIONS) {
+    return null;
+  }
+  return unique.every((code) => isKnownCountryCode(code)) ? unique : null;
+};
@@ -0,0 +1,133 @@
+import { logInfo, logWarn } from "../logger.js";
+import { RadarHttpError, requestRadar, type RadarRequestOptions } from "./client.js";
+import {
+  buildEndpointParams,
+  type RadarEndpointDefinition,
+  type RadarEndpointName,
+  type RadarEndpointParams,
+} from "./endpoints.js";
+
+export type RadarPublicParamMode = "dateRange" | "sinceUntil";
+
+export type RadarPublicContract = {
+  endpoint: RadarEndpointName;
+  path: string;
+  paramMode: RadarPublicParamMode;
+  detected: boolean;
+  probedAt: Date;
+  expiresAt: Date;
+};
+
+const DEFAULT_CONTRACT_TTL_MS = 6 * 60 * 60 * 1000;
+const PROBE_WINDOW_MS = 7 * 24 * 60 * 60 * 1000;
+
+const contracts = new Map<RadarEndpointName, RadarPublicContract>();
+const inFlight = new Map<RadarEndpointName, Promise<RadarPublicContract>>();
+let contractTtlMs = DEFAULT_CONTRACT_TTL_MS;
+
+export const configurePublicContracts = (options: { ttlMs: number }) => {
+  contractTtlMs = Math.max(0, options.ttlMs);
+};
+
+export const resetPublicContracts = () => {
+  contracts.clear();
+  inFlight.clear();
+};
+
+export const listPublicContracts = (): RadarPublicContract[] =>
+  Array.from(contracts.values()).sort((a, b) => a.endpoint.localeCompare(b.endpoint));
+
+export const invalidatePublicContract = (endpoint: RadarEndpointDefinition) => {
+  contracts.delete(endpoint.name);
+};
+
+const deriveParamModeFromError = (responseBody: string): RadarPublicParamMode | null => {
+  const normalized = responseBody.toLowerCase();
+  if (normalized.includes("since") && normalized.includes("until")) {
+    return "sinceUntil";
+  }
+  if (normalized.includes("daterange")) {
+    return "dateRange";
+  }
+  return null;
+};
+
+const buildProbeParams = (endpoint: RadarEndpointDefinition, paramMode: RadarPublicParamMode): RadarEndpointParams => {
+  if (paramMode === "dateRange") {
+    return buildEndpointParams({ dateRange: "7d" }, endpoint);
+  }
+  const until = new Date();
+  const since = new Date(until.getTime() - PROBE_WINDOW_MS);
+  return buildEndpointParams({ since: since.toISOString(), until: until.toISOString() }, endpoint);
+};
+
+const probeEndpoint = async (
+  endpoint: RadarEndpointDefinition,
+  options: RadarRequestOptions
+): Promise<RadarPublicContract> => {
+  const candidates: RadarPublicParamMode[] = ["dateRange", "sinceUntil"];
+  const tried = new Set<RadarPublicParamMode>();
+  let lastErrorBody = "";
+  let detectedMode: RadarPublicParamMode | null = null;
+
+  while (candidates.length && !detectedMode) {
+    const paramMode = candidates.shift() as RadarPublicParamMode;
+    if (tried.has(paramMode)) {
+      continue;
+    }
+    tried.add(paramMode);
+    try {
+      await requestRadar(endpoint.path, buildProbeParams(endpoint, paramMode), "public", undefined, options);
+      detectedMode = paramMode;
+    } catch (error) {
+      if (!(error instanceof RadarHttpError)) {
+        throw error;
+      }
+      lastErrorBody = error.responseBodyTrunc;
+      const derived = deriveParamModeFromError(error.responseBodyTrunc);
+      if (derived && !tried.has(derived)) {
+        candidates.unshift(derived);
+      }
+    }
+  }
+
+  const probedAt = new Date();
+  const contract: RadarPublicContract = {
+    endpoint: endpoint.name,
+    path: endpoint.path,
+    paramMode: detectedMode ?? "dateRange",
+    detected: detectedMode !== null,
+    probedAt,
+    expiresAt: new Date(probedAt.getTime() + contractTtlMs),
+  };
+  if (contract.detected) {
+    await logInfo("radar_public_contract_detected", { endpoint: endpoint.name, paramMode: contract.paramMode });
+  } else {
+    await logWarn("radar_public_contract_fallback", { endpoint: endpoint.path, responseBody: lastErrorBody });
+  }
+  return contract;
+};
+
+export const getPublicContract = async (
+  endpoint: RadarEndpointDefinition,
+  options: RadarRequestOptions & { forceRefresh?: boolean } = {}
+): Promise<RadarPublicContract> => {
+  const cached = contracts.get(endpoint.name);
+  if (cached && !options.forceRefresh && cached.expiresAt.getTime() > Date.now()) {
+    return cached;
+  }
+  const pending = inFlight.get(endpoint.name);
+  if (pending) {
+    return pending;
+  }
+  const probe = probeEndpoint(endpoint, { timeoutMs: options.timeoutMs, priority: options.priority })
+    .then((contract) => {
+      contracts.set(endpoint.name, contract);
+      return contract;
+    })
+    .finally(() => {
+      inFlight.delete(endpoint.name);
+    });
+  inFlight.set(endpoint.name, probe);
+  return probe;
+};
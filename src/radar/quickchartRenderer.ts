@@ -0,0 +1,78 @@
+import axios from "axios";
+import type { ChartRenderer, ChartRenderSpec } from "./chartRenderer.js";
+import { withFixture } from "./fixtures.js";
+
+export const buildQuickChartConfiguration = (spec: ChartRenderSpec) => {
+  const isLine = spec.type === "line";
+  return {
+    type: spec.type,
+    data: {
+      labels: spec.labels,
+      datasets: spec.datasets.map((dataset) => ({
+        data: dataset.values,
+        label: dataset.label,
+        backgroundColor: isLine ? dataset.color.line : dataset.color.fill,
+        borderColor: dataset.color.border,
+        borderWidth: isLine ? 2 : 1,
+        ...(isLine ? { fill: dataset.fill, pointRadius: 0, tension: 0.2, spanGaps: true } : {}),
+      })),
+    },
+    options: {
+      responsive: false,
+      plugins: {
+        legend: { display: spec.showLegend, position: "bottom" },
+        title: {
+          display: true,
+          text: spec.title,
+          color: "#1f2937",
+          font: { size: 24, family: "Arial" },
+        },
+      },
+      scales: {
+        x: {
+          grid: { display: false },
+          ticks: isLine
+            ? { maxRotation: 0, autoSkip: true, maxTicksLimit: 12, color: "#374151" }
+            : {
+                maxRotation: 0,
+                autoSkip: false,
+                color: "#374151",
+              },
+        },
+        y: {
+          reverse: spec.reverseY,
+          grid: { color: "#e5e7eb" },
+          ticks: { color: "#374151" },
+        },
+      },
+    },
+  };
+};
+
+export const quickChartRenderer: ChartRenderer = {
+  name: "quickchart",
+  supports: ["bar", "line"],
+  render: async (spec, options) => {
+    const configuration = buildQuickChartConfiguration(spec);
+    const body = {
+      chart: configuration,
+      format: "png",
+      width: spec.width,
+      height: spec.height,
+      backgroundColor: "white",
+    };
+    const response = await withFixture(
+      "quickchart",
+      body,
+      async () => {
+        const result = await axios.post(options.quickchartUrl, body, {
+          responseType: "arraybuffer",
+          timeout: options.quickchartTimeoutMs,
+        });
+        return { status: result.status, headers: result.headers as Record<string, unknown>, data: result.data };
+      },
+      { binary: true }
+    );
+    return Buffer.from(response.data as ArrayBuffer);
+  },
+};
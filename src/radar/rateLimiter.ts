@@ -0,0 +1,132 @@
+export type RadarRequestPriority = "interactive" | "scheduled";
+
+export type RateLimitPolicy = {
+  capacity: number;
+  refillPerMinute: number;
+};
+
+export type RateLimitBucketSnapshot = {
+  key: string;
+  tokens: number;
+  capacity: number;
+  queued: Record<RadarRequestPriority, number>;
+};
+
+export type RateLimiter = {
+  acquire: (key: string, priority?: RadarRequestPriority) => Promise<void>;
+  configure: (policy: RateLimitPolicy) => void;
+  snapshot: () => RateLimitBucketSnapshot[];
+};
+
+type Bucket = {
+  tokens: number;
+  updatedAt: number;
+  queues: Record<RadarRequestPriority, Array<() => void>>;
+  timer: ReturnType<typeof setTimeout> | null;
+};
+
+const PRIORITY_ORDER: RadarRequestPriority[] = ["interactive", "scheduled"];
+
+export const createRateLimiter = (initialPolicy: RateLimitPolicy = { capacity: 0, refillPerMinute: 0 }): RateLimiter => {
+  let policy = initialPolicy;
+  const buckets = new Map<string, Bucket>();
+
+  const isEnabled = () => policy.capacity > 0 && policy.refillPerMinute > 0;
+  const refillPerMs = () => policy.refillPerMinute / 60_000;
+
+  const getBucket = (key: string): Bucket => {
+    const existing = buckets.get(key);
+    if (existing) {
+      return existing;
+    }
+    const bucket: Bucket = {
+      tokens: policy.capacity,
+      updatedAt: Date.now(),
+      queues: { interactive: [], scheduled: [] },
+      timer: null,
+    };
+    buckets.set(key, bucket);
+    return bucket;
+  };
+
+  const refill = (bucket: Bucket, now: number) => {
+    bucket.tokens = Math.min(policy.capacity, bucket.tokens + (now - bucket.updatedAt) * refillPerMs());
+    bucket.updatedAt = now;
+  };
+
+  const nextWaiter = (bucket: Bucket): (() => void) | undefined => {
+    for (const priority of PRIORITY_ORDER) {
+      const waiter = bucket.queues[priority].shift();
+      if (waiter) {
+        return waiter;
+      }
+    }
+    return undefined;
+  };
+
+  const hasWaiters = (bucket: Bucket) => PRIORITY_ORDER.some((priority) => bucket.queues[priority].length > 0);
+
+  const drain = (bucket: Bucket) => {
+    bucket.timer = null;
+    refill(bucket, Date.now());
+    while (bucket.tokens >= 1 && hasWaiters(bucket)) {
+      bucket.tokens -= 1;
+      nextWaiter(bucket)?.();
+    }
+    if (hasWaiters(bucket)) {
+      const waitMs = Math.max(1, Math.ceil((1 - bucket.tokens) / refillPerMs()));
+      bucket.timer = setTimeout(() => drain(bucket), waitMs);
+    }
+  };
+
+  const acquire = async (key: string, priority: RadarRequestPriority = "interactive"): Promise<void> => {
+    if (!isEnabled()) {
+      return;
+    }
+    const bucket = getBucket(key);
+    refill(bucket, Date.now());
+    if (!hasWaiters(bucket) && bucket.tokens >= 1) {
+      bucket.tokens -= 1;
+      return;
+    }
+    await new Promise<void>((resolve) => {
+      bucket.queues[priority].push(resolve);
+      if (!bucket.timer) {
+        drain(bucket);
+      }
+    });
+  };
+
+  const configure = (nextPolicy: RateLimitPolicy) => {
+    policy = nextPolicy;
+    buckets.forEach((bucket) => {
+      if (bucket.timer) {
+        clearTimeout(bucket.timer);
+      }
+      bucket.tokens = Math.min(bucket.tokens, policy.capacity);
+      if (!isEnabled()) {
+        PRIORITY_ORDER.forEach((priority) => bucket.queues[priority].splice(0).forEach((resolve) => resolve()));
+        bucket.timer = null;
+        return;
+      }
+      drain(bucket);
+    });
+  };
+
+  const snapshot = (): RateLimitBucketSnapshot[] => {
+    const now = Date.now();
+    return Array.from(buckets.entries()).map(([key, bucket]) => {
+      refill(bucket, now);
+      return {
+        key,
+        tokens: Math.floor(bucket.tokens),
+        capacity: policy.capacity,
+        queued: { interactive: bucket.queues.interactive.length, scheduled: bucket.queues.scheduled.length },
+      };
+    });
+  };
+
+  return { acquire, configure, snapshot };
+};
+
+export const radarRateLimiter = createRateLimiter();
@@ -0,0 +1,85 @@
+import {
+  arrayOf,
+  numericField,
+  objectOf,
+  optional,
+  RadarSchemaError,
+  recordOf,
+  stringField,
+  timestampField,
+  type RadarSchema,
+} from "./schema.js";
+
+export type RadarLabelType = "country" | "text";
+
+export type RadarParsedResponse = {
+  kind: "category" | "timeseries";
+  labelType: RadarLabelType;
+  labels: string[];
+  values: number[];
+  aggInterval?: string;
+};
+
+export type RadarResponseParser = (result: unknown, options: { limit: number }) => RadarParsedResponse;
+
+const metaSchema = optional(objectOf({ aggInterval: optional(stringField) }));
+
+const topItemSchema =
+  (labelKey: string): RadarSchema<{ label: string; value: number }> =>
+  (value, path) => {
+    const item = objectOf({ value: numericField })(value, path);
+    return { label: stringField((value as Record<string, unknown>)[labelKey], `${path}.${labelKey}`), value: item.value };
+  };
+
+export const topListResponse = (labelKey: string, labelType: RadarLabelType = "text"): RadarResponseParser => {
+  const schema = objectOf({ top_0: arrayOf(topItemSchema(labelKey)) });
+  return (result, { limit }) => {
+    const items = schema(result, "result").top_0.slice(0, limit);
+    return {
+      kind: "category",
+      labelType,
+      labels: items.map((item) => item.label),
+      values: items.map((item) => item.value),
+    };
+  };
+};
+
+export const summaryResponse = (): RadarResponseParser => {
+  const schema = objectOf({ summary_0: recordOf(numericField) });
+  return (result, { limit }) => {
+    const entries = Object.entries(schema(result, "result").summary_0)
+      .sort((a, b) => b[1] - a[1])
+      .slice(0, limit);
+    return {
+      kind: "category",
+      labelType: "text",
+      labels: entries.map(([label]) => label),
+      values: entries.map(([, value]) => value),
+    };
+  };
+};
+
+export const timeseriesResponse = (): RadarResponseParser => {
+  const schema = objectOf({
+    serie_0: objectOf({ timestamps: arrayOf(timestampField), values: arrayOf(numericField) }),
+    meta: metaSchema,
+  });
+  return (result) => {
+    const parsed = schema(result, "result");
+    const { timestamps, values } = parsed.serie_0;
+    if (timestamps.length !== values.length) {
+      throw new RadarSchemaError(
+        "result.serie_0.values",
+        `${timestamps.length} values matching timestamps`,
+        `${values.length} values`
+      );
+    }
+    return {
+      kind: "timeseries",
+      labelType: "text",
+      labels: timestamps,
+      values,
+      aggInterval: parsed.meta?.aggInterval?.toLowerCase(),
+    };
+  };
+};
@@ -0,0 +1,90 @@
+export class RadarSchemaError extends Error {
+  path: string;
+  expected: string;
+
+  constructor(path: string, expected: string, received: unknown) {
+    super(`Radar response schema mismatch at ${path}: expected ${expected}, received ${describeValue(received)}`);
+    this.name = "RadarSchemaError";
+    this.path = path;
+    this.expected = expected;
+  }
+}
+
+export type RadarSchema<T> = (value: unknown, path: string) => T;
+
+type SchemaOutput<S> = S extends RadarSchema<infer T> ? T : never;
+
+const describeValue = (value: unknown): string => {
+  if (value === null) {
+    return "null";
+  }
+  if (Array.isArray(value)) {
+    return "array";
+  }
+  if (typeof value === "string") {
+    return `string "${value.length > 40 ? `${value.slice(0, 40)}…` : value}"`;
+  }
+  return typeof value;
+};
+
+const isPlainObject = (value: unknown): value is Record<string, unknown> =>
+  typeof value === "object" && value !== null && !Array.isArray(value);
+
+export const stringField: RadarSchema<string> = (value, path) => {
+  if (typeof value !== "string" || !value.trim()) {
+    throw new RadarSchemaError(path, "non-empty string", value);
+  }
+  return value;
+};
+
+export const numericField: RadarSchema<number> = (value, path) => {
+  const numeric = typeof value === "number" ? value : typeof value === "string" && value.trim() ? Number(value) : NaN;
+  if (!Number.isFinite(numeric)) {
+    throw new RadarSchemaError(path, "number or numeric string", value);
+  }
+  return numeric;
+};
+
+export const timestampField: RadarSchema<string> = (value, path) => {
+  const parsed = typeof value === "string" ? new Date(value) : null;
+  if (!parsed || Number.isNaN(parsed.getTime())) {
+    throw new RadarSchemaError(path, "ISO timestamp", value);
+  }
+  return parsed.toISOString();
+};
+
+export const optional =
+  <T>(schema: RadarSchema<T>): RadarSchema<T | undefined> =>
+  (value, path) =>
+    value === undefined || value === null ? undefined : schema(value, path);
+
+export const arrayOf =
+  <T>(item: RadarSchema<T>): RadarSchema<T[]> =>
+  (value, path) => {
+    if (!Array.isArray(value)) {
+      throw new RadarSchemaError(path, "array", value);
+    }
+    return value.map((entry, index) => item(entry, `${path}[${index}]`));
+  };
+
+export const recordOf =
+  <T>(item: RadarSchema<T>): RadarSchema<Record<string, T>> =>
+  (value, path) => {
+    if (!isPlainObject(value)) {
+      throw new RadarSchemaError(path, "object", value);
+    }
+    return Object.fromEntries(Object.entries(value).map(([key, entry]) => [key, item(entry, `${path}.${key}`)]));
+  };
+
+export const objectOf =
+  <S extends Record<string, RadarSchema<unknown>>>(shape: S): RadarSchema<{ [K in keyof S]: SchemaOutput<S[K]> }> =>
+  (value, path) => {
+    if (!isPlainObject(value)) {
+      throw new RadarSchemaError(path, "object", value);
+    }
+    const output: Record<string, unknown> = {};
+    for (const [key, schema] of Object.entries(shape)) {
+      output[key] = schema(value[key], `${path}.${key}`);
+    }
+    return output as { [K in keyof S]: SchemaOutput<S[K]> };
+  };
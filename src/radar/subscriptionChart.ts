@@ -0,0 +1,82 @@
+import type { ChartSubscription, PrismaClient } from "@prisma/client";
+import { buildComparisonCaption, buildMultiLocationCaption, buildRadarCaption } from "./caption.js";
+import { buildComparisonSeries, fetchRadarComparison } from "./compare.js";
+import { hasConflictingComparisons } from "../db/subscriptions.js";
+import { logWarn } from "../logger.js";
+import { resolveRadarEndpoint } from "./endpoints.js";
+import { fetchRadarData, type RadarChartData, type RadarFetchConfig } from "./fetch.js";
+import { buildChartSeries, type RadarChartSeries } from "./generate.js";
+import type { LabelLanguage } from "./countries.js";
+import { buildMultiLocationSeries, fetchRadarLocations } from "./multiLocation.js";
+import { prepareTrendChart, trendDefinitionFromSubscription } from "./trend.js";
+
+export type PreparedRadarChart = {
+  radarData: RadarChartData;
+  fetched: RadarChartData[];
+  series: RadarChartSeries;
+  caption: string;
+};
+
+export type SubscriptionChartOptions = Pick<
+  ChartSubscription,
+  "endpoint" | "comparePrevious" | "compareLocations" | "trendLabel" | "trendMetric" | "trendDays" | "trendBucket"
+> &
+  Partial<Pick<ChartSubscription, "chartStyle" | "mapRegion">>;
+
+const DEFAULT_TOP_LIMIT = 10;
+const MAP_TOP_LIMIT = 50;
+
+const applyChartStyle = (series: RadarChartSeries, subscription: SubscriptionChartOptions | null): RadarChartSeries =>
+  subscription?.chartStyle === "MAP" ? { ...series, style: "MAP", mapRegion: subscription.mapRegion ?? "WORLD" } : series;
+
+export const prepareSubscriptionChart = async (
+  prisma: PrismaClient,
+  subscription: SubscriptionChartOptions | null,
+  fetchConfig: RadarFetchConfig,
+  timezone: string,
+  language: LabelLanguage = "en"
+): Promise<PreparedRadarChart> => {
+  const endpoint = resolveRadarEndpoint(subscription?.endpoint);
+  const trend = subscription ? trendDefinitionFromSubscription(subscription) : null;
+  if (trend) {
+    return prepareTrendChart(
+      prisma,
+      endpoint,
+      trend,
+      fetchConfig.location,
+      fetchConfig.dateRangePreset,
+      timezone,
+      language,
+      Boolean(fetchConfig.customRange)
+    );
+  }
+  if (subscription && hasConflictingComparisons(subscription)) {
+    await logWarn("subscription_comparison_conflict", { endpoint: endpoint.name, used: "compareLocations" });
+  }
+  if (subscription?.compareLocations.length) {
+    const multi = await fetchRadarLocations({ limit: DEFAULT_TOP_LIMIT }, fetchConfig, endpoint, subscription.compareLocations);
+    return {
+      radarData: multi.results[0],
+      fetched: multi.results,
+      series: buildMultiLocationSeries(multi, language),
+      caption: buildMultiLocationCaption(multi, timezone, language),
+    };
+  }
+  const limit = subscription?.chartStyle === "MAP" && endpoint.supportsMap ? MAP_TOP_LIMIT : DEFAULT_TOP_LIMIT;
+  if (subscription?.comparePrevious) {
+    const comparison = await fetchRadarComparison({ limit }, fetchConfig, endpoint);
+    return {
+      radarData: comparison.current,
+      fetched: [comparison.current, comparison.previous],
+      series: applyChartStyle(buildComparisonSeries(comparison), subscription),
+      caption: buildComparisonCaption(comparison, timezone, language),
+    };
+  }
+  const radarData = await fetchRadarData({ limit }, fetchConfig, endpoint);
+  return {
+    radarData,
+    fetched: [radarData],
+    series: applyChartStyle(buildChartSeries(radarData), subscription),
+    caption: buildRadarCaption(radarData, timezone, language),
+  };
+};
@@ -0,0 +1,133 @@
+import axios from "axios";
+import { getRadarBaseUrl, RadarHttpError, requestRadar } from "./client.js";
+import { withFixture } from "./fixtures.js";
+import type { RadarRequestPriority } from "./rateLimiter.js";
+
+export type RadarTokenStatus = "active" | "disabled" | "expired" | "invalid" | "no_radar_access" | "unreachable";
+
+export type RadarTokenVerification = {
+  status: RadarTokenStatus;
+  expiresOn: Date | null;
+  radarStatus: number | null;
+  message: string | null;
+};
+
+type TokenVerifyPayload = {
+  success?: boolean;
+  result?: { id?: string; status?: string; expires_on?: string | null };
+  errors?: { code?: number | string; message?: string }[];
+};
+
+const RADAR_PROBE_PATH = "/http/summary/device_type";
+const EXPIRY_WARNING_DAYS = 7;
+const DAY_MS = 24 * 60 * 60 * 1000;
+
+export const buildTokenVerifyUrl = (tokenBaseUrl: string): string => {
+  const apiBase = tokenBaseUrl.replace(/\/+$/, "").replace(/\/radar$/, "");
+  return `${apiBase}/user/tokens/verify`;
+};
+
+const parseExpiry = (value?: string | null): Date | null => {
+  if (!value) {
+    return null;
+  }
+  const parsed = new Date(value);
+  return Number.isNaN(parsed.getTime()) ? null : parsed;
+};
+
+const verifyTokenStatus = async (
+  token: string,
+  timeoutMs: number
+): Promise<Pick<RadarTokenVerification, "status" | "expiresOn" | "message">> => {
+  const url = buildTokenVerifyUrl(getRadarBaseUrl("token"));
+  let response: { status: number; data: TokenVerifyPayload };
+  try {
+    response = await withFixture("radar", { url, modeUsed: "token" }, async () => {
+      const result = await axios.get(url, {
+        timeout: timeoutMs,
+        headers: { Accept: "application/json", Authorization: `Bearer ${token}` },
+        validateStatus: () => true,
+      });
+      return { status: result.status, data: result.data as TokenVerifyPayload };
+    });
+  } catch (error) {
+    return { status: "unreachable", expiresOn: null, message: error instanceof Error ? error.message : null };
+  }
+
+  const payload = response.data ?? {};
+  const message = payload.errors?.[0]?.message ?? null;
+  if (response.status === 401 || response.status === 403 || payload.success === false) {
+    return { status: "invalid", expiresOn: null, message };
+  }
+  if (response.status < 200 || response.status >= 300) {
+    return { status: "unreachable", expiresOn: null, message: message ?? `HTTP ${response.status}` };
+  }
+  const expiresOn = parseExpiry(payload.result?.expires_on);
+  const rawStatus = payload.result?.status;
+  if (rawStatus === "disabled" || rawStatus === "expired") {
+    return { status: rawStatus, expiresOn, message };
+  }
+  if (expiresOn && expiresOn.getTime() <= Date.now()) {
+    return { status: "expired", expiresOn, message };
+  }
+  return { status: "active", expiresOn, message };
+};
+
+export const verifyRadarToken = async (
+  token: string,
+  options: { timeoutMs: number; priority?: RadarRequestPriority }
+): Promise<RadarTokenVerification> => {
+  const verification = await verifyTokenStatus(token.trim(), options.timeoutMs);
+  if (verification.status !== "active") {
+    return { ...verification, radarStatus: null };
+  }
+  try {
+    const result = await requestRadar(RADAR_PROBE_PATH, { dateRange: "1d", format: "json" }, "token", token.trim(), {
+      timeoutMs: options.timeoutMs,
+      priority: options.priority ?? "interactive",
+    });
+    return { ...verification, radarStatus: result.meta.status };
+  } catch (error) {
+    if (error instanceof RadarHttpError) {
+      const noAccess = error.status === 401 || error.status === 403;
+      return {
+        ...verification,
+        status: noAccess ? "no_radar_access" : verification.status,
+        radarStatus: error.status,
+        message: noAccess ? verification.message : `Radar test call failed (HTTP ${error.status})`,
+      };
+    }
+    return { ...verification, radarStatus: null, message: "Radar test call failed" };
+  }
+};
+
+export const isTokenUsable = (verification: Pick<RadarTokenVerification, "status">): boolean =>
+  verification.status === "active" || verification.status === "unreachable";
+
+export const isTokenExpiringSoon = (expiresOn: Date | null, now: Date = new Date()): boolean =>
+  Boolean(expiresOn && expiresOn.getTime() - now.getTime() <= EXPIRY_WARNING_DAYS * DAY_MS);
+
+const STATUS_LABELS: Record<RadarTokenStatus, string> = {
+  active: "✅ توکن فعال و معتبره",
+  disabled: "⛔ توکن غیرفعال شده",
+  expired: "⛔ توکن منقضی شده",
+  invalid: "⛔ توکن نامعتبره یا توسط Cloudflare پذیرفته نشد",
+  no_radar_access: "⛔ توکن معتبره ولی دسترسی Radar Read نداره",
+  unreachable: "⚠️ بررسی توکن با Cloudflare ممکن نشد",
+};
+
+export const formatTokenVerification = (verification: RadarTokenVerification, timezone: string): string => {
+  const expiry = verification.expiresOn
+    ? new Intl.DateTimeFormat("en-GB", { timeZone: timezone, year: "numeric", month: "2-digit", day: "2-digit" }).format(
+        verification.expiresOn
+      )
+    : "بدون تاریخ انقضا";
+  return [
+    STATUS_LABELS[verification.status],
+    `انقضا: ${expiry}${isTokenExpiringSoon(verification.expiresOn) && verification.status === "active" ? " ⚠️ به‌زودی" : ""}`,
+    verification.radarStatus ? `تست Radar: HTTP ${verification.radarStatus}` : null,
+    verification.message ? `پیام: ${verification.message}` : null,
+  ]
+    .filter((line): line is string => Boolean(line))
+    .join("\n");
+};
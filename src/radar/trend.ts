@@ -0,0 +1,219 @@
+import type { AlertMetric, ChartSubscription, PrismaClient, RadarSnapshot, TrendBucket } from "@prisma/client";
+import { parseAlertMetricInput } from "../alerts/rules.js";
+import { listRadarSnapshots, snapshotToChartData } from "../db/snapshots.js";
+import { buildTrendCaption } from "./caption.js";
+import { findLabelIndex, localizeCountryLabel, type LabelLanguage } from "./countries.js";
+import type { RadarDateRangePreset } from "./dateRange.js";
+import {
+  resolveRadarEndpoint,
+  supportsParam,
+  type RadarEndpointDefinition,
+  type RadarEndpointName,
+} from "./endpoints.js";
+import type { RadarChartSeries } from "./generate.js";
+import type { RadarLabelType } from "./responseSchemas.js";
+import type { PreparedRadarChart } from "./subscriptionChart.js";
+
+export const DEFAULT_TREND_DAYS = 90;
+export const MIN_TREND_DAYS = 7;
+export const MAX_TREND_DAYS = 365;
+
+const DAY_MS = 24 * 60 * 60 * 1000;
+
+const BUCKET_INPUTS: Record<string, TrendBucket> = {
+  day: "DAY",
+  daily: "DAY",
+  روزانه: "DAY",
+  week: "WEEK",
+  weekly: "WEEK",
+  هفتگی: "WEEK",
+};
+
+export type RadarTrendErrorCode = "TREND_NO_HISTORY" | "TREND_CUSTOM_RANGE" | "TREND_UNSUPPORTED_ENDPOINT";
+
+export class RadarTrendError extends Error {
+  code: RadarTrendErrorCode;
+
+  constructor(code: RadarTrendErrorCode, message: string) {
+    super(message);
+    this.name = "RadarTrendError";
+    this.code = code;
+  }
+}
+
+export type RadarTrendDefinition = {
+  label: string;
+  metric: AlertMetric;
+  days: number;
+  bucket: TrendBucket;
+};
+
+export type RadarTrendPoint = {
+  bucketStart: Date;
+  value: number | null;
+  samples: number;
+};
+
+export type RadarTrendData = {
+  definition: RadarTrendDefinition;
+  endpointLabel: string;
+  location: string | null;
+  labelType?: RadarLabelType;
+  points: RadarTrendPoint[];
+  samples: number;
+};
+
+export const parseTrendInput = (text: string): RadarTrendDefinition | null => {
+  const [label, ...options] = text.trim().split(/\s+/);
+  if (!label) {
+    return null;
+  }
+  const definition: RadarTrendDefinition = { label, metric: "VALUE", days: DEFAULT_TREND_DAYS, bucket: "DAY" };
+  for (const option of options) {
+    const metric = parseAlertMetricInput(option);
+    const bucket = BUCKET_INPUTS[option.toLowerCase()];
+    const days = Number(option);
+    if (metric) {
+      definition.metric = metric;
+    } else if (bucket) {
+      definition.bucket = bucket;
+    } else if (Number.isInteger(days) && days >= MIN_TREND_DAYS && days <= MAX_TREND_DAYS) {
+      definition.days = days;
+    } else {
+      return null;
+    }
+  }
+  return definition;
+};
+
+export const trendDefinitionFromSubscription = (
+  subscription: Pick<ChartSubscription, "trendLabel" | "trendMetric" | "trendDays" | "trendBucket">
+): RadarTrendDefinition | null =>
+  subscription.trendLabel
+    ? {
+        label: subscription.trendLabel,
+        metric: subscription.trendMetric,
+        days: subscription.trendDays,
+        bucket: subscription.trendBucket,
+      }
+    : null;
+
+export const formatTrendDefinition = (definition: RadarTrendDefinition): string =>
+  [
+    definition.label,
+    definition.metric === "RANK" ? "رتبه" : "مقدار",
+    `${definition.days} روز`,
+    definition.bucket === "WEEK" ? "هفتگی" : "روزانه",
+  ].join(" ");
+
+export const trendBucketStart = (date: Date, bucket: TrendBucket): Date => {
+  const day = Date.UTC(date.getUTCFullYear(), date.getUTCMonth(), date.getUTCDate());
+  if (bucket === "DAY") {
+    return new Date(day);
+  }
+  const daysSinceMonday = (date.getUTCDay() + 6) % 7;
+  return new Date(day - daysSinceMonday * DAY_MS);
+};
+
+export const resolveTrendValue = (
+  snapshot: Pick<RadarSnapshot, "labels" | "values">,
+  label: string,
+  metric: AlertMetric
+): number | null => {
+  const index = findLabelIndex(snapshot.labels, label);
+  if (index === -1) {
+    return null;
+  }
+  return metric === "RANK" ? index + 1 : snapshot.values[index] ?? null;
+};
+
+export const buildTrendPoints = (
+  snapshots: Array<Pick<RadarSnapshot, "labels" | "values" | "fetchedAt">>,
+  definition: Pick<RadarTrendDefinition, "label" | "metric" | "bucket">
+): RadarTrendPoint[] => {
+  const buckets = new Map<number, { values: number[]; samples: number }>();
+  snapshots.forEach((snapshot) => {
+    const key = trendBucketStart(snapshot.fetchedAt, definition.bucket).getTime();
+    const bucket = buckets.get(key) ?? { values: [], samples: 0 };
+    const value = resolveTrendValue(snapshot, definition.label, definition.metric);
+    if (value !== null) {
+      bucket.values.push(value);
+    }
+    bucket.samples += 1;
+    buckets.set(key, bucket);
+  });
+  return Array.from(buckets.entries())
+    .sort((a, b) => a[0] - b[0])
+    .map(([key, bucket]) => ({
+      bucketStart: new Date(key),
+      value: bucket.values.length ? bucket.values.reduce((sum, value) => sum + value, 0) / bucket.values.length : null,
+      samples: bucket.samples,
+    }));
+};
+
+export const buildTrendSeries = (trend: RadarTrendData, language: LabelLanguage = "en"): RadarChartSeries => {
+  const { definition, points } = trend;
+  const label =
+    trend.labelType === "country" ? localizeCountryLabel(definition.label, language) : definition.label;
+  return {
+    kind: "timeseries",
+    labels: points.map((point) => point.bucketStart.toISOString()),
+    values: points.map((point) => point.value ?? 0),
+    title: `${label} — ${definition.metric === "RANK" ? "rank" : "value"}`,
+    location: trend.location,
+    aggInterval: definition.bucket === "WEEK" ? "1w" : "1d",
+    invertYAxis: definition.metric === "RANK",
+    datasets: [{ label, values: points.map((point) => point.value) }],
+  };
+};
+
+const resolveTrendLocation = (endpoint: RadarEndpointDefinition, location?: string | null): string | null =>
+  location && supportsParam(endpoint, "location") ? location.toUpperCase() : null;
+
+export const prepareTrendChart = async (
+  prisma: PrismaClient,
+  endpointRef: RadarEndpointDefinition | RadarEndpointName | string | null | undefined,
+  definition: RadarTrendDefinition,
+  location: string | null | undefined,
+  dateRangePreset: RadarDateRangePreset,
+  timezone: string,
+  language: LabelLanguage = "en",
+  customRange = false,
+  now: Date = new Date()
+): Promise<PreparedRadarChart> => {
+  const endpoint = resolveRadarEndpoint(endpointRef);
+  if (endpoint.resultShape === "timeseries") {
+    throw new RadarTrendError("TREND_UNSUPPORTED_ENDPOINT", `Trends are not available for ${endpoint.name}`);
+  }
+  const snapshots = await listRadarSnapshots(prisma, {
+    endpoint: endpoint.name,
+    location: resolveTrendLocation(endpoint, location),
+    dateRangePreset,
+    since: new Date(now.getTime() - definition.days * DAY_MS),
+  });
+  const points = buildTrendPoints(snapshots, definition);
+  if (!points.some((point) => point.value !== null)) {
+    if (customRange) {
+      throw new RadarTrendError(
+        "TREND_CUSTOM_RANGE",
+        `No preset-range history for ${definition.label} on ${endpoint.name}; custom ranges are not stored for trends`
+      );
+    }
+    throw new RadarTrendError("TREND_NO_HISTORY", `No stored history for ${definition.label} on ${endpoint.name}`);
+  }
+  const radarData = snapshotToChartData(snapshots[snapshots.length - 1]);
+  const trend: RadarTrendData = {
+    definition,
+    endpointLabel: endpoint.label,
+    location: resolveTrendLocation(endpoint, location),
+    labelType: radarData.labelType,
+    points,
+    samples: snapshots.length,
+  };
+  return {
+    radarData,
+    fetched: [],
+    series: buildTrendSeries(trend, language),
+    caption: buildTrendCaption(trend, timezone, language),
+  };
+};
@@ -0,0 +1,223 @@
+import { createRequire } from "node:module";
+import { feature } from "topojson-client";
+import type { GeometryCollection, Topology } from "topojson-specification";
+
+export type MapRegion = "WORLD" | "EUROPE" | "MIDDLE_EAST" | "ASIA" | "AFRICA" | "AMERICAS";
+
+export type MapBounds = {
+  west: number;
+  east: number;
+  south: number;
+  north: number;
+};
+
+export type MapBox = {
+  x: number;
+  y: number;
+  width: number;
+  height: number;
+};
+
+export type ProjectedCountry = {
+  code: string | null;
+  path: string;
+};
+
+export const MAP_REGION_BOUNDS: Record<MapRegion, MapBounds> = {
+  WORLD: { west: -180, east: 180, south: -58, north: 84 },
+  EUROPE: { west: -25, east: 45, south: 34, north: 71 },
+  MIDDLE_EAST: { west: 24, east: 64, south: 11, north: 43 },
+  ASIA: { west: 25, east: 150, south: -11, north: 56 },
+  AFRICA: { west: -19, east: 53, south: -36, north: 38 },
+  AMERICAS: { west: -170, east: -30, south: -56, north: 74 },
+};
+
+export const MAP_REGION_LABELS: Record<MapRegion, string> = {
+  WORLD: "جهان",
+  EUROPE: "اروپا",
+  MIDDLE_EAST: "خاورمیانه",
+  ASIA: "آسیا",
+  AFRICA: "آفریقا",
+  AMERICAS: "آمریکا",
+};
+
+const MAP_REGION_ALIASES: Record<string, MapRegion> = {
+  world: "WORLD",
+  europe: "EUROPE",
+  middle_east: "MIDDLE_EAST",
+  "middle-east": "MIDDLE_EAST",
+  mideast: "MIDDLE_EAST",
+  asia: "ASIA",
+  africa: "AFRICA",
+  americas: "AMERICAS",
+  america: "AMERICAS",
+  ...Object.fromEntries(Object.entries(MAP_REGION_LABELS).map(([region, label]) => [label, region as MapRegion])),
+};
+
+export type ChartStyleChoice = { style: "BAR" } | { style: "MAP"; region: MapRegion };
+
+export const parseChartStyleInput = (text: string): ChartStyleChoice | null => {
+  const [style, ...rest] = text.replace(/\u200c/g, "").trim().toLowerCase().split(/\s+/);
+  if (["bar", "میلهای", "میله"].includes(style) && !rest.length) {
+    return { style: "BAR" };
+  }
+  if (!["map", "نقشه"].includes(style)) {
+    return null;
+  }
+  if (!rest.length) {
+    return { style: "MAP", region: "WORLD" };
+  }
+  const region = MAP_REGION_ALIASES[rest.join("_")];
+  return region ? { style: "MAP", region } : null;
+};
+
+export const formatChartStyle = (style: "BAR" | "MAP", region: MapRegion): string =>
+  style === "MAP" ? `🗺 نقشه (${MAP_REGION_LABELS[region]})` : "📊 میله‌ای";
+
+const ISO_NUMERIC_TO_ALPHA2: Record<string, string> = {
+  "004": "AF", "008": "AL", "010": "AQ", "012": "DZ", "024": "AO", "031": "AZ", "032": "AR", "036": "AU",
+  "040": "AT", "044": "BS", "050": "BD", "051": "AM", "056": "BE", "064": "BT", "068": "BO", "070": "BA",
+  "072": "BW", "076": "BR", "084": "BZ", "090": "SB", "096": "BN", "100": "BG", "104": "MM", "108": "BI",
+  "112": "BY", "116": "KH", "120": "CM", "124": "CA", "140": "CF", "144": "LK", "148": "TD", "152": "CL",
+  "156": "CN", "158": "TW", "170": "CO", "178": "CG", "180": "CD", "188": "CR", "191": "HR", "192": "CU",
+  "196": "CY", "203": "CZ", "204": "BJ", "208": "DK", "214": "DO", "218": "EC", "222": "SV", "226": "GQ",
+  "231": "ET", "232": "ER", "233": "EE", "238": "FK", "242": "FJ", "246": "FI", "250": "FR", "260": "TF",
+  "262": "DJ", "266": "GA", "268": "GE", "270": "GM", "275": "PS", "276": "DE", "288": "GH", "300": "GR",
+  "304": "GL", "320": "GT", "324": "GN", "328": "GY", "332": "HT", "340": "HN", "348": "HU", "352": "IS",
+  "356": "IN", "360": "ID", "364": "IR", "368": "IQ", "372": "IE", "376": "IL", "380": "IT", "384": "CI",
+  "388": "JM", "392": "JP", "398": "KZ", "400": "JO", "404": "KE", "408": "KP", "410": "KR", "414": "KW",
+  "417": "KG", "418": "LA", "422": "LB", "426": "LS", "428": "LV", "430": "LR", "434": "LY", "440": "LT",
+  "442": "LU", "450": "MG", "454": "MW", "458": "MY", "466": "ML", "478": "MR", "484": "MX", "496": "MN",
+  "498": "MD", "499": "ME", "504": "MA", "508": "MZ", "512": "OM", "516": "NA", "524": "NP", "528": "NL",
+  "540": "NC", "548": "VU", "554": "NZ", "558": "NI", "562": "NE", "566": "NG", "578": "NO", "586": "PK",
+  "591": "PA", "598": "PG", "600": "PY", "604": "PE", "608": "PH", "616": "PL", "620": "PT", "624": "GW",
+  "626": "TL", "630": "PR", "634": "QA", "642": "RO", "643": "RU", "646": "RW", "682": "SA", "686": "SN",
+  "688": "RS", "694": "SL", "703": "SK", "704": "VN", "705": "SI", "706": "SO", "710": "ZA", "716": "ZW",
+  "724": "ES", "728": "SS", "729": "SD", "732": "EH", "740": "SR", "748": "SZ", "752": "SE", "756": "CH",
+  "760": "SY", "762": "TJ", "764": "TH", "768": "TG", "780": "TT", "784": "AE", "788": "TN", "792": "TR",
+  "795": "TM", "800": "UG", "804": "UA", "807": "MK", "818": "EG", "826": "GB", "834": "TZ", "840": "US",
+  "854": "BF", "858": "UY", "860": "UZ", "862": "VE", "887": "YE", "894": "ZM",
+};
+
+const ALPHA2_BY_NAME: Record<string, string> = { Kosovo: "XK" };
+
+const EXCLUDED_CODES = new Set(["AQ"]);
+
+type CountryShape = {
+  code: string | null;
+  polygons: GeoJSON.Position[][][];
+  bounds: MapBounds;
+};
+
+let cachedShapes: CountryShape[] | null = null;
+
+const unwrapAntimeridian = (ring: GeoJSON.Position[]): GeoJSON.Position[] => {
+  let shift = 0;
+  const unwrapped = ring.map(([lon, lat], index) => {
+    const previous = index ? ring[index - 1][0] : lon;
+    if (lon - previous > 180) {
+      shift -= 360;
+    } else if (previous - lon > 180) {
+      shift += 360;
+    }
+    return [lon + shift, lat];
+  });
+  if (!shift && unwrapped.every(([lon]) => lon >= -180 && lon <= 180)) {
+    return ring;
+  }
+  const east = unwrapped.reduce((sum, [lon]) => sum + lon, 0) / unwrapped.length > 0;
+  return unwrapped.map(([lon, lat]) => [east ? Math.min(180, Math.max(0, lon)) : Math.max(-180, Math.min(0, lon)), lat]);
+};
+
+const toPolygons = (geometry: GeoJSON.Geometry | null): GeoJSON.Position[][][] => {
+  const polygons =
+    geometry?.type === "Polygon" ? [geometry.coordinates] : geometry?.type === "MultiPolygon" ? geometry.coordinates : [];
+  return polygons.map((polygon) => polygon.map(unwrapAntimeridian));
+};
+
+const measureBounds = (polygons: GeoJSON.Position[][][]): MapBounds => {
+  const bounds = { west: 180, east: -180, south: 90, north: -90 };
+  polygons.flat(2).forEach(([lon, lat]) => {
+    bounds.west = Math.min(bounds.west, lon);
+    bounds.east = Math.max(bounds.east, lon);
+    bounds.south = Math.min(bounds.south, lat);
+    bounds.north = Math.max(bounds.north, lat);
+  });
+  return bounds;
+};
+
+const loadCountryShapes = (): CountryShape[] => {
+  if (cachedShapes) {
+    return cachedShapes;
+  }
+  const topology = createRequire(import.meta.url)("world-atlas/countries-110m.json") as Topology<{
+    countries: GeometryCollection<{ name: string }>;
+  }>;
+  cachedShapes = feature(topology, topology.objects.countries)
+    .features.map((country) => {
+      const polygons = toPolygons(country.geometry);
+      const code =
+        (country.id !== undefined ? ISO_NUMERIC_TO_ALPHA2[String(country.id)] : undefined) ??
+        ALPHA2_BY_NAME[country.properties?.name ?? ""] ??
+        null;
+      return { code, polygons, bounds: measureBounds(polygons) };
+    })
+    .filter((shape) => !shape.code || !EXCLUDED_CODES.has(shape.code));
+  return cachedShapes;
+};
+
+export const listMapCountryCodes = (): string[] =>
+  loadCountryShapes().flatMap((shape) => (shape.code ? [shape.code] : []));
+
+const toRadians = (degrees: number) => (degrees * Math.PI) / 180;
+
+export const projectNaturalEarth = (lon: number, lat: number): [number, number] => {
+  const lambda = toRadians(lon);
+  const phi = toRadians(lat);
+  const phi2 = phi * phi;
+  const phi4 = phi2 * phi2;
+  return [
+    lambda * (0.8707 - 0.131979 * phi2 + phi4 * (-0.013791 + phi4 * (0.003971 * phi2 - 0.001529 * phi4))),
+    phi * (1.007226 + phi2 * (0.015085 + phi4 * (-0.044475 + 0.028874 * phi2 - 0.005916 * phi4))),
+  ];
+};
+
+const overlaps = (a: MapBounds, b: MapBounds): boolean =>
+  a.west <= b.east && a.east >= b.west && a.south <= b.north && a.north >= b.south;
+
+const projectedExtent = (bounds: MapBounds) => {
+  const points: Array<[number, number]> = [];
+  for (let step = 0; step <= 20; step += 1) {
+    const lon = bounds.west + ((bounds.east - bounds.west) * step) / 20;
+    const lat = bounds.south + ((bounds.north - bounds.south) * step) / 20;
+    points.push(
+      projectNaturalEarth(lon, bounds.south),
+      projectNaturalEarth(lon, bounds.north),
+      projectNaturalEarth(bounds.west, lat),
+      projectNaturalEarth(bounds.east, lat)
+    );
+  }
+  const xs = points.map(([x]) => x);
+  const ys = points.map(([, y]) => y);
+  return { minX: Math.min(...xs), maxX: Math.max(...xs), minY: Math.min(...ys), maxY: Math.max(...ys) };
+};
+
+export const projectWorldMap = (region: MapRegion, box: MapBox): ProjectedCountry[] => {
+  const bounds = MAP_REGION_BOUNDS[region];
+  const extent = projectedExtent(bounds);
+  const scale = Math.min(box.width / (extent.maxX - extent.minX), box.height / (extent.maxY - extent.minY));
+  const offsetX = box.x + (box.width - (extent.maxX - extent.minX) * scale) / 2;
+  const offsetY = box.y + (box.height - (extent.maxY - extent.minY) * scale) / 2;
+  const toPoint = ([lon, lat]: GeoJSON.Position) => {
+    const [x, y] = projectNaturalEarth(lon, lat);
+    return `${(offsetX + (x - extent.minX) * scale).toFixed(1)},${(offsetY + (extent.maxY - y) * scale).toFixed(1)}`;
+  };
+  return loadCountryShapes()
+    .filter((shape) => overlaps(shape.bounds, bounds))
+    .map((shape) => ({
+      code: shape.code,
+      path: shape.polygons
+        .flatMap((polygon) => polygon.map((ring) => `M${ring.map(toPoint).join("L")}Z`))
+        .join(""),
+    }));
+};
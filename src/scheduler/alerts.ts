@@ -0,0 +1,51 @@
+import type { PrismaClient, TargetChat } from "@prisma/client";
+import { evaluateAlertRule, formatAlertTransition, selectAlertRuleData } from "../alerts/rules.js";
+import { logError, logInfo } from "../logger.js";
+import type { RadarChartData } from "../radar/fetch.js";
+
+export type AlertRuleSender = {
+  sendTextToChat: (chatId: bigint, text: string) => Promise<void>;
+};
+
+export const applyAlertRules = async (
+  prisma: PrismaClient,
+  sender: AlertRuleSender,
+  target: Pick<TargetChat, "id" | "chatId">,
+  subscriptionId: number,
+  datasets: RadarChartData[]
+) => {
+  const rules = await prisma.alertRule.findMany({
+    where: { targetChatId: target.id, subscriptionId },
+    orderBy: { createdAt: "asc" },
+  });
+  for (const rule of rules) {
+    const radarData = selectAlertRuleData(rule, datasets);
+    if (!radarData) {
+      continue;
+    }
+    const evaluation = evaluateAlertRule(rule, radarData);
+    if (evaluation.value === null) {
+      continue;
+    }
+    const lastValue = Number.isFinite(evaluation.value) ? evaluation.value : null;
+    if (!evaluation.transition) {
+      await prisma.alertRule.update({ where: { id: rule.id }, data: { lastValue } });
+      continue;
+    }
+    await prisma.alertRule.update({
+      where: { id: rule.id },
+      data: { isTripped: evaluation.isTripped, lastValue, lastChangedAt: new Date() },
+    });
+    try {
+      await sender.sendTextToChat(target.chatId, formatAlertTransition(rule, evaluation, radarData.label));
+      await logInfo("alert_rule_transition_sent", {
+        ruleId: rule.id,
+        targetChatId: target.id,
+        transition: evaluation.transition,
+        value: lastValue,
+      });
+    } catch (error) {
+      await logError("alert_rule_send_failed", { ruleId: rule.id, targetChatId: target.id }, error);
+    }
+  }
+};
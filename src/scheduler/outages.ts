@@ -0,0 +1,173 @@
+import type { ChartSubscription, PrismaClient, TargetChat } from "@prisma/client";
+import type { EnvConfig } from "../config.js";
+import { getOutageEventsSeededAt, getRadarSettings, markOutageEventsSeeded } from "../db/settings.js";
+import { orderRadarTokenCandidates } from "../db/radarTokens.js";
+import { logError, logInfo, logWarn } from "../logger.js";
+import {
+  fetchRadarAnnotations,
+  formatAnnotationAlert,
+  type RadarAnnotation,
+  type RadarAnnotationFetchConfig,
+} from "../radar/annotations.js";
+
+const OUTAGE_LOOKBACK_RANGE = "1d";
+const OUTAGE_FETCH_LIMIT = 50;
+
+export type OutageAlertSender = {
+  sendTextToChat: (chatId: bigint, text: string) => Promise<void>;
+};
+
+export type OutagePollState = {
+  isPolling: boolean;
+  lastPollAt: number | null;
+};
+
+export const collectFollowedLocations = (
+  target: Pick<TargetChat, "location"> & {
+    subscriptions: Array<Pick<ChartSubscription, "location" | "compareLocations">>;
+  }
+): Set<string> => {
+  const locations = new Set<string>();
+  if (target.location) {
+    locations.add(target.location);
+  }
+  target.subscriptions.forEach((subscription) => {
+    if (subscription.location) {
+      locations.add(subscription.location);
+    }
+    subscription.compareLocations.forEach((location) => locations.add(location));
+  });
+  return locations;
+};
+
+const resolveOutageSource = async (
+  prisma: PrismaClient,
+  config: EnvConfig
+): Promise<Pick<RadarAnnotationFetchConfig, "mode" | "token">> => {
+  const settings = await getRadarSettings(prisma);
+  const mode = settings.radarMode ?? config.radar.mode;
+  const [candidate] = orderRadarTokenCandidates(settings.radarTokens, {
+    fallbackToken: settings.radarApiToken ?? config.radar.apiToken,
+  });
+  if (mode === "token" && !candidate) {
+    await logWarn("outage_poll_token_missing_fallback_public", { mode });
+    return { mode: "public", token: null };
+  }
+  return { mode, token: candidate?.token ?? null };
+};
+
+const sortByStartDate = (annotations: RadarAnnotation[]): RadarAnnotation[] =>
+  [...annotations].sort((a, b) => (a.startDate?.getTime() ?? 0) - (b.startDate?.getTime() ?? 0));
+
+export const runOutagePoll = async (
+  prisma: PrismaClient,
+  config: EnvConfig,
+  sender: OutageAlertSender,
+  state: OutagePollState,
+  now: Date = new Date()
+) => {
+  if (state.isPolling) {
+    return;
+  }
+  if (state.lastPollAt && now.getTime() - state.lastPollAt < config.radar.outagePollMinutes * 60 * 1000) {
+    return;
+  }
+
+  state.isPolling = true;
+  state.lastPollAt = now.getTime();
+  try {
+    const source = await resolveOutageSource(prisma, config);
+    const annotations = await fetchRadarAnnotations({
+      ...source,
+      timeoutMs: config.radar.httpTimeoutMs,
+      retry: { retryMax: config.radar.retryMax, retryBaseDelayMs: config.radar.retryBaseDelayMs },
+      priority: "scheduled",
+      dateRange: OUTAGE_LOOKBACK_RANGE,
+      limit: OUTAGE_FETCH_LIMIT,
+    });
+    const isFirstPoll = !(await getOutageEventsSeededAt(prisma));
+    if (!annotations.length) {
+      if (isFirstPoll) {
+        await markOutageEventsSeeded(prisma, now);
+      }
+      return;
+    }
+
+    const seen = await prisma.radarEvent.findMany({
+      where: { externalId: { in: annotations.map((annotation) => annotation.id) } },
+      select: { externalId: true, pendingTargetIds: true },
+    });
+    const seenById = new Map(seen.map((event) => [event.externalId, event.pendingTargetIds]));
+    const fresh = sortByStartDate(annotations.filter((annotation) => !seenById.has(annotation.id)));
+
+    const targets = await prisma.targetChat.findMany({
+      where: { isEnabled: true, outageAlertsEnabled: true },
+      include: { subscriptions: { where: { isEnabled: true } } },
+    });
+    const matchTargets = (annotation: RadarAnnotation) =>
+      targets.flatMap((target) => {
+        const followed = collectFollowedLocations(target);
+        const matched = annotation.locations.filter((location) => followed.has(location));
+        return matched.length ? [{ target, matched }] : [];
+      });
+
+    if (fresh.length) {
+      await prisma.radarEvent.createMany({
+        data: fresh.map((annotation) => ({
+          externalId: annotation.id,
+          source: annotation.source,
+          eventType: annotation.eventType,
+          locations: annotation.locations,
+          description: annotation.description,
+          startDate: annotation.startDate,
+          endDate: annotation.endDate,
+          pendingTargetIds: isFirstPoll ? [] : matchTargets(annotation).map(({ target }) => target.id),
+        })),
+        skipDuplicates: true,
+      });
+      await logInfo(isFirstPoll ? "outage_poll_seeded" : "outage_poll_new_events", { count: fresh.length });
+    }
+    if (isFirstPoll) {
+      await markOutageEventsSeeded(prisma, now);
+      return;
+    }
+
+    const pending = sortByStartDate(annotations).flatMap((annotation) => {
+      const pendingIds = seenById.get(annotation.id) ?? matchTargets(annotation).map(({ target }) => target.id);
+      return pendingIds.length ? [{ annotation, pendingIds: new Set(pendingIds) }] : [];
+    });
+
+    for (const { annotation, pendingIds } of pending) {
+      const failedIds: number[] = [];
+      let alerted = false;
+      for (const { target, matched } of matchTargets(annotation)) {
+        if (!pendingIds.has(target.id)) {
+          continue;
+        }
+        try {
+          await sender.sendTextToChat(
+            target.chatId,
+            formatAnnotationAlert(annotation, matched, target.timezone ?? config.defaultTimezone)
+          );
+          alerted = true;
+          await logInfo("outage_alert_sent", {
+            eventId: annotation.id,
+            targetChatId: target.id,
+            locations: matched,
+          });
+        } catch (error) {
+          failedIds.push(target.id);
+          await logError("outage_alert_send_failed", { eventId: annotation.id, targetChatId: target.id }, error);
+        }
+      }
+      await prisma.radarEvent.update({
+        where: { externalId: annotation.id },
+        data: { pendingTargetIds: failedIds, ...(alerted ? { alertedAt: new Date() } : {}) },
+      });
+    }
+  } catch (error) {
+    await logError("outage_poll_failed", { scope: "outage_poll" }, error);
+  } finally {
+    state.isPolling = false;
+  }
+};
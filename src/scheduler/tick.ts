@@ -1,17 +1,25 @@
-import type { PrismaClient } from "@prisma/client";
+import type { ChartSubscription, PrismaClient, TargetChat } from "@prisma/client";
 import { SendStatus } from "@prisma/client";
 import type { EnvConfig } from "../config.js";
 import { generateRadarChartPng } from "../radar/generate.js";
 import {
-  fetchRadarData,
   RadarFetchError,
   type RadarFetchConfig,
   type RadarChartData,
+  type RadarTokenCandidate,
 } from "../radar/fetch.js";
-import { logError, logInfo, logWarn } from "../logger.js";
-import { getRadarSettings } from "../db/settings.js";
-import { isRadarTokenValidFormat } from "../radar/client.js";
+import { prepareSubscriptionChart, type SubscriptionChartOptions } from "../radar/subscriptionChart.js";
+import { RadarTrendError } from "../radar/trend.js";
+import { RadarConfigError } from "../radar/endpoints.js";
+import { logError, logInfo } from "../logger.js";
+import { getRadarSettings, resolveCustomRangeSetting, resolveLabelLanguage } from "../db/settings.js";
+import type { RadarCustomRange } from "../radar/dateRange.js";
+import type { LabelLanguage } from "../radar/countries.js";
+import { orderRadarTokenCandidates } from "../db/radarTokens.js";
+import { recordRadarSnapshots } from "../db/snapshots.js";
+import { formatTokenEncryptionErrorCode, TokenEncryptionError } from "../db/tokenCrypto.js";
 import { getSchedulerBackoffMinutes } from "./backoff.js";
+import { applyAlertRules } from "./alerts.js";
 
 const delay = (ms: number) => new Promise((resolve) => setTimeout(resolve, ms));
 const FAILURE_NOTIFY_COOLDOWN_MINUTES = 30;
@@ -19,48 +27,42 @@ const IN_PROGRESS_LOCK_MINUTES = 10;
 
 export type Sender = {
   sendChartToChat: (chatId: bigint, caption: string, buffer: Buffer) => Promise<void>;
+  sendTextToChat: (chatId: bigint, text: string) => Promise<void>;
 };
 
 export type SchedulerState = {
   isTickRunning: boolean;
 };
 
-const formatTimestamp = (timezone: string): string => {
-  const formatter = new Intl.DateTimeFormat("en-GB", {
-    timeZone: timezone,
-    year: "numeric",
-    month: "2-digit",
-    day: "2-digit",
-    hour: "2-digit",
-    minute: "2-digit",
-    hour12: false,
-  });
-  return formatter.format(new Date()).replace(",", "");
-};
-
 const buildRadarFetchConfig = (
   config: EnvConfig,
-  token: string | null,
+  tokens: RadarTokenCandidate[],
   mode: RadarFetchConfig["mode"],
-  dateRangePreset: RadarFetchConfig["dateRangePreset"]
+  dateRangePreset: RadarFetchConfig["dateRangePreset"],
+  customRange: RadarCustomRange | null,
+  location: string | null
 ): RadarFetchConfig => ({
   mode,
-  token,
+  tokens,
   timeoutMs: config.radar.httpTimeoutMs,
+  retry: { retryMax: config.radar.retryMax, retryBaseDelayMs: config.radar.retryBaseDelayMs },
+  priority: "scheduled",
   dateRangePreset,
+  customRange,
+  location,
 });
 
-const updateScheduleFailure = async (
+const updateSubscriptionFailure = async (
   prisma: PrismaClient,
-  scheduleId: number,
+  subscriptionId: number,
   currentFailCount: number,
   now: Date
 ) => {
   const nextFailCount = currentFailCount + 1;
   const backoffMinutes = getSchedulerBackoffMinutes(nextFailCount);
   const nextRetryAt = new Date(now.getTime() + backoffMinutes * 60 * 1000);
-  await prisma.targetSchedule.update({
-    where: { id: scheduleId },
+  await prisma.chartSubscription.update({
+    where: { id: subscriptionId },
     data: {
       failCount: nextFailCount,
       nextRetryAt,
@@ -69,9 +71,9 @@ const updateScheduleFailure = async (
   });
 };
 
-const updateScheduleSuccess = async (prisma: PrismaClient, scheduleId: number, sentAt: Date) => {
-  await prisma.targetSchedule.update({
-    where: { id: scheduleId },
+const updateSubscriptionSuccess = async (prisma: PrismaClient, subscriptionId: number, sentAt: Date) => {
+  await prisma.chartSubscription.update({
+    where: { id: subscriptionId },
     data: { lastSentAt: sentAt, nextRetryAt: null, failCount: 0, inProgressUntil: null },
   });
 };
@@ -99,18 +101,53 @@ const updateTargetSuccess = async (prisma: PrismaClient, targetChatId: number, n
 };
 
 const buildChartBuffer = async (
+  prisma: PrismaClient,
   config: EnvConfig,
-  token: string | null,
+  tokens: RadarTokenCandidate[],
   mode: RadarFetchConfig["mode"],
-  dateRangePreset: RadarFetchConfig["dateRangePreset"]
-): Promise<{ buffer: Buffer; radarData: RadarChartData }> => {
-  const radarConfig = buildRadarFetchConfig(config, token, mode, dateRangePreset);
-  const radarData = await fetchRadarData({ limit: 10 }, radarConfig);
-  const buffer = await generateRadarChartPng(
-    { labels: radarData.labels, values: radarData.values, title: radarData.label },
-    config.defaultTimezone
-  );
-  return { buffer, radarData };
+  dateRangePreset: RadarFetchConfig["dateRangePreset"],
+  customRange: RadarCustomRange | null,
+  subscription: SubscriptionChartOptions & Pick<ChartSubscription, "location">,
+  target: Pick<TargetChat, "location">,
+  timezone: string,
+  language: LabelLanguage
+): Promise<{ buffer: Buffer; radarData: RadarChartData; fetched: RadarChartData[]; caption: string }> => {
+  const location = subscription.location ?? target.location;
+  const radarConfig = buildRadarFetchConfig(config, tokens, mode, dateRangePreset, customRange, location);
+  const prepared = await prepareSubscriptionChart(prisma, subscription, radarConfig, timezone, language);
+  await recordRadarSnapshots(prisma, prepared.fetched);
+  const buffer = await generateRadarChartPng(prepared.series, timezone, language);
+  return { buffer, radarData: prepared.radarData, fetched: prepared.fetched, caption: prepared.caption };
+};
+
+const MIN_SUBSCRIPTION_INTERVAL_MINUTES = 3;
+
+export const resolveSchedulerErrorCode = (error: unknown): string => {
+  if (error instanceof RadarFetchError || error instanceof RadarTrendError) {
+    return error.code;
+  }
+  if (error instanceof TokenEncryptionError) {
+    return formatTokenEncryptionErrorCode(error);
+  }
+  if (error instanceof RadarConfigError) {
+    return "RADAR_CONFIG_ERROR";
+  }
+  return "CHART_RENDER_FAILED";
+};
+
+export const isSubscriptionDue = (
+  subscription: Pick<ChartSubscription, "intervalMinutes" | "lastSentAt" | "nextRetryAt">,
+  nowMs: number
+): boolean => {
+  if (subscription.nextRetryAt && nowMs < subscription.nextRetryAt.getTime()) {
+    return false;
+  }
+  if (!subscription.lastSentAt) {
+    return true;
+  }
+  const elapsedMs = nowMs - subscription.lastSentAt.getTime();
+  const intervalMinutes = Math.max(subscription.intervalMinutes, MIN_SUBSCRIPTION_INTERVAL_MINUTES);
+  return elapsedMs >= intervalMinutes * 60 * 1000;
 };
 
 export const runSchedulerTick = async (
@@ -127,8 +164,9 @@ export const runSchedulerTick = async (
   state.isTickRunning = true;
   try {
     const now = new Date();
-    const schedules = await prisma.targetSchedule.findMany({
+    const subscriptions = await prisma.chartSubscription.findMany({
       where: {
+        isEnabled: true,
         targetChat: { isEnabled: true },
         OR: [{ inProgressUntil: null }, { inProgressUntil: { lt: now } }],
       },
@@ -136,65 +174,58 @@ export const runSchedulerTick = async (
       orderBy: { updatedAt: "asc" },
     });
 
-    if (!schedules.length) {
+    if (!subscriptions.length) {
       await logInfo("scheduler_tick_no_targets");
       return;
     }
 
     const nowMs = now.getTime();
-    const dueSchedules = schedules.filter((schedule) => {
-      if (schedule.nextRetryAt && nowMs < schedule.nextRetryAt.getTime()) {
-        return false;
-      }
-      if (!schedule.lastSentAt) {
-        return true;
-      }
-      const elapsedMs = nowMs - schedule.lastSentAt.getTime();
-      const intervalMinutes = Math.max(schedule.intervalMinutes, 3);
-      return elapsedMs >= intervalMinutes * 60 * 1000;
-    });
+    const dueSubscriptions = subscriptions.filter((subscription) => isSubscriptionDue(subscription, nowMs));
 
-    if (!dueSchedules.length) {
+    if (!dueSubscriptions.length) {
       console.log("scheduler_tick_no_due_targets");
       return;
     }
 
-    const pendingSchedules = dueSchedules.slice(0, config.maxSendsPerTick);
-    if (dueSchedules.length > pendingSchedules.length) {
+    const pendingSubscriptions = dueSubscriptions.slice(0, config.maxSendsPerTick);
+    if (dueSubscriptions.length > pendingSubscriptions.length) {
       console.log("scheduler_tick_rate_limited", {
-        dueCount: dueSchedules.length,
-        processedCount: pendingSchedules.length,
+        dueCount: dueSubscriptions.length,
+        processedCount: pendingSubscriptions.length,
       });
     }
 
-
-    const caption = `Cloudflare Radar 🇮🇷\n${formatTimestamp(config.defaultTimezone)}`;
-
-    for (const schedule of pendingSchedules) {
+    for (const subscription of pendingSubscriptions) {
       const sentAt = new Date();
       const lockUntil = new Date(sentAt.getTime() + IN_PROGRESS_LOCK_MINUTES * 60 * 1000);
-      await prisma.targetSchedule.update({
-        where: { id: schedule.id },
+      await prisma.chartSubscription.update({
+        where: { id: subscription.id },
         data: { inProgressUntil: lockUntil },
       });
       let mode: RadarFetchConfig["mode"] | null = null;
-      let token: string | null = null;
+      let tokens: RadarTokenCandidate[] = [];
       let dateRangePreset: RadarFetchConfig["dateRangePreset"] | null = null;
+      const timezone = subscription.targetChat.timezone ?? config.defaultTimezone;
       try {
-        const settings = await getRadarSettings(prisma, schedule.targetChat.createdByUserId);
+        const settings = await getRadarSettings(prisma, subscription.targetChat.createdByUserId);
         mode = settings.radarMode ?? config.radar.mode;
-        token = settings.radarApiToken ?? config.radar.apiToken;
-        dateRangePreset = settings.radarDateRange ?? "D7";
-        if (mode === "token" && !token) {
+        tokens = orderRadarTokenCandidates(settings.radarTokens, {
+          preferredTokenId: subscription.targetChat.radarTokenId,
+          rotationSeed: subscription.targetChat.id,
+          fallbackToken: config.radar.apiToken,
+        });
+        dateRangePreset = subscription.dateRange ?? settings.radarDateRange ?? "D7";
+        if (mode === "token" && !tokens.length && !subscription.trendLabel) {
           await logError("scheduler_missing_radar_token", {
             scope: "scheduler_token_missing",
-            targetChatId: schedule.targetChatId,
+            targetChatId: subscription.targetChatId,
           });
-          await updateScheduleFailure(prisma, schedule.id, schedule.failCount ?? 0, sentAt);
-          await updateTargetFailure(prisma, schedule.targetChatId, sentAt);
+          await updateSubscriptionFailure(prisma, subscription.id, subscription.failCount ?? 0, sentAt);
+          await updateTargetFailure(prisma, subscription.targetChatId, sentAt);
           await prisma.sendLog.create({
             data: {
-              targetChatId: schedule.targetChatId,
+              targetChatId: subscription.targetChatId,
+              subscriptionId: subscription.id,
               sentAt,
               status: SendStatus.FAIL,
               error: "RADAR_TOKEN_MISSING",
@@ -202,64 +233,78 @@ export const runSchedulerTick = async (
           });
           continue;
         }
-        if (mode === "token" && token && !isRadarTokenValidFormat(token)) {
-          await logWarn("scheduler_invalid_radar_token", {
-            targetChatId: schedule.targetChatId,
-            mode,
-          });
-          await updateScheduleFailure(prisma, schedule.id, schedule.failCount ?? 0, sentAt);
-          await updateTargetFailure(prisma, schedule.targetChatId, sentAt);
-          await prisma.sendLog.create({
-            data: {
-              targetChatId: schedule.targetChatId,
-              sentAt,
-              status: SendStatus.FAIL,
-              error: "RADAR_TOKEN_INVALID",
-            },
-          });
-          continue;
-        }
-
-        const result = await buildChartBuffer(config, token, mode, dateRangePreset);
-        await sender.sendChartToChat(schedule.targetChat.chatId, caption, result.buffer);
-        await updateScheduleSuccess(prisma, schedule.id, sentAt);
-        await updateTargetSuccess(prisma, schedule.targetChatId, sentAt);
+        const result = await buildChartBuffer(
+          prisma,
+          config,
+          tokens,
+          mode,
+          dateRangePreset,
+          subscription.dateRange ? null : resolveCustomRangeSetting(subscription.targetChat, settings.radarCustomRange),
+          subscription,
+          subscription.targetChat,
+          timezone,
+          resolveLabelLanguage(subscription.targetChat, settings.labelLanguage)
+        );
+        await sender.sendChartToChat(subscription.targetChat.chatId, result.caption, result.buffer);
+        await updateSubscriptionSuccess(prisma, subscription.id, sentAt);
+        await updateTargetSuccess(prisma, subscription.targetChatId, sentAt);
         await prisma.sendLog.create({
           data: {
-            targetChatId: schedule.targetChatId,
+            targetChatId: subscription.targetChatId,
+            subscriptionId: subscription.id,
             sentAt,
             status: SendStatus.SUCCESS,
             error: null,
           },
         });
+        try {
+          await applyAlertRules(
+            prisma,
+            sender,
+            subscription.targetChat,
+            subscription.id,
+            result.fetched.length ? result.fetched : [result.radarData]
+          );
+        } catch (error) {
+          await logError(
+            "alert_rules_failed",
+            { subscriptionId: subscription.id, targetChatId: subscription.targetChatId },
+            error
+          );
+        }
         await delay(200);
       } catch (error) {
-        const errorCode = error instanceof RadarFetchError ? error.code : "CHART_RENDER_FAILED";
+        const errorCode = resolveSchedulerErrorCode(error);
         const responseBodyShort =
           error instanceof RadarFetchError && error.responseBody ? error.responseBody.slice(0, 2000) : undefined;
-        const user = await prisma.user.findUnique({ where: { id: schedule.targetChat.createdByUserId } });
+        const user = await prisma.user.findUnique({ where: { id: subscription.targetChat.createdByUserId } });
         const tgUserId = user?.tgUserId ? Number(user.tgUserId) : null;
         await logError(
           "scheduler_send_failed",
           {
             scope: "scheduler_send_failed",
             errorCode,
-            targetChatId: schedule.targetChatId,
+            targetChatId: subscription.targetChatId,
+            subscriptionId: subscription.id,
             tgUserId,
             mode,
             endpoint: error instanceof RadarFetchError ? error.endpoint : undefined,
             params: error instanceof RadarFetchError ? error.params : undefined,
             status: error instanceof RadarFetchError ? error.status : undefined,
             radarErrorCode: error instanceof RadarFetchError ? error.code : undefined,
+            schemaPath: error instanceof RadarFetchError ? error.schemaPath : undefined,
+            retryCount: error instanceof RadarFetchError ? error.retryCount : undefined,
+            attempts: error instanceof RadarFetchError ? error.attempts : undefined,
             responseBodyShort,
           },
           error
         );
-        await updateScheduleFailure(prisma, schedule.id, schedule.failCount ?? 0, sentAt);
-        await updateTargetFailure(prisma, schedule.targetChatId, sentAt);
+        await updateSubscriptionFailure(prisma, subscription.id, subscription.failCount ?? 0, sentAt);
+        await updateTargetFailure(prisma, subscription.targetChatId, sentAt);
         await prisma.sendLog.create({
           data: {
-            targetChatId: schedule.targetChatId,
+            targetChatId: subscription.targetChatId,
+            subscriptionId: subscription.id,
             sentAt,
             status: SendStatus.FAIL,
             error: error instanceof Error ? error.stack ?? error.message : "Unknown error",
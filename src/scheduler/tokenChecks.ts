@@ -0,0 +1,93 @@
+import type { PrismaClient, RadarToken } from "@prisma/client";
+import type { EnvConfig } from "../config.js";
+import { setRadarTokenVerification } from "../db/radarTokens.js";
+import { decryptToken } from "../db/tokenCrypto.js";
+import { logError, logInfo, logWarn } from "../logger.js";
+import {
+  formatTokenVerification,
+  isTokenExpiringSoon,
+  verifyRadarToken,
+  type RadarTokenVerification,
+} from "../radar/tokenVerify.js";
+
+const TOKEN_WARNING_COOLDOWN_MS = 24 * 60 * 60 * 1000;
+const MAX_CHECKS_PER_RUN = 20;
+
+export type TokenCheckSender = {
+  sendTextToChat: (chatId: bigint, text: string) => Promise<void>;
+};
+
+export type TokenCheckState = {
+  isRunning: boolean;
+};
+
+export const shouldWarnTokenOwner = (
+  token: Pick<RadarToken, "warnedAt">,
+  verification: Pick<RadarTokenVerification, "status" | "expiresOn">,
+  now: Date = new Date()
+): boolean => {
+  const hasProblem =
+    (verification.status !== "active" && verification.status !== "unreachable") ||
+    isTokenExpiringSoon(verification.expiresOn, now);
+  if (!hasProblem) {
+    return false;
+  }
+  return !token.warnedAt || now.getTime() - token.warnedAt.getTime() >= TOKEN_WARNING_COOLDOWN_MS;
+};
+
+export const runTokenChecks = async (
+  prisma: PrismaClient,
+  config: EnvConfig,
+  sender: TokenCheckSender,
+  state: TokenCheckState,
+  now: Date = new Date()
+) => {
+  if (state.isRunning || config.radar.tokenCheckHours <= 0) {
+    return;
+  }
+  state.isRunning = true;
+  try {
+    const staleBefore = new Date(now.getTime() - config.radar.tokenCheckHours * 60 * 60 * 1000);
+    const tokens = await prisma.radarToken.findMany({
+      where: { OR: [{ checkedAt: null }, { checkedAt: { lt: staleBefore } }] },
+      include: { user: { select: { privateChatId: true } } },
+      orderBy: { checkedAt: { sort: "asc", nulls: "first" } },
+      take: MAX_CHECKS_PER_RUN,
+    });
+
+    for (const token of tokens) {
+      try {
+        const verification = await verifyRadarToken(decryptToken(token.token), {
+          timeoutMs: config.radar.httpTimeoutMs,
+          priority: "scheduled",
+        });
+        await setRadarTokenVerification(prisma, token.id, verification, now);
+        await logInfo("radar_token_rechecked", {
+          userId: token.userId,
+          label: token.label,
+          status: verification.status,
+          expiresOn: verification.expiresOn?.toISOString() ?? null,
+        });
+        if (!token.user.privateChatId || !shouldWarnTokenOwner(token, verification, now)) {
+          continue;
+        }
+        await sender.sendTextToChat(
+          token.user.privateChatId,
+          [
+            `⚠️ وضعیت توکن Radar API «${token.label}»:`,
+            formatTokenVerification(verification, config.defaultTimezone),
+            "برای جلوگیری از خطای ارسال، از منوی 🗝️ توکن جدید ثبت کن.",
+          ].join("\n")
+        );
+        await prisma.radarToken.update({ where: { id: token.id }, data: { warnedAt: now } });
+        await logWarn("radar_token_owner_warned", { userId: token.userId, label: token.label, status: verification.status });
+      } catch (error) {
+        await logError("radar_token_recheck_failed", { userId: token.userId, label: token.label }, error);
+      }
+    }
+  } catch (error) {
+    await logError("radar_token_checks_failed", { scope: "token_checks" }, error);
+  } finally {
+    state.isRunning = false;
+  }
+};
@@ -6,11 +6,30 @@ export const labels = {
   listTargets: "🗂 لیست مقصدها",
   selectTarget: "🎯 انتخاب مقصد",
   setInterval: "⏱ تنظیم بازه ارسال",
+  subscriptions: "📊 چارت‌های مقصد",
+  setTargetLocation: "🌍 کشور مقصد",
+  setTargetTimezone: "🕒 منطقه زمانی مقصد",
   toggleTarget: "✅ فعال/غیرفعال مقصد",
+  toggleOutageAlerts: "🚨 هشدار اختلال",
   setRadarToken: "🗝️ تنظیم توکن Radar API",
+  setTargetRadarToken: "🔑 توکن مقصد",
   setRadarSource: "📡 منبع دیتا",
   setRadarDateRange: "بازه زمانی چارت 📅",
+  setLabelLanguage: "🔤 زبان برچسب‌ها",
+  exportData: "📤 خروجی داده",
   help: "🧩 راهنما",
+  addSubscription: "➕ افزودن چارت",
+  selectSubscription: "🔢 انتخاب چارت",
+  setSubscriptionDateRange: "📅 بازه زمانی این چارت",
+  removeSubscription: "🗑 حذف چارت",
+  toggleComparePrevious: "🔁 مقایسه با دوره قبل",
+  setCompareLocations: "🌐 مقایسه کشورها",
+  setSubscriptionTrend: "📈 روند تاریخی",
+  setChartStyle: "🗺 نمایش نقشه",
+  alertRules: "📏 قوانین هشدار",
+  addAlertRule: "➕ افزودن قانون",
+  removeAlertRule: "🗑 حذف قانون",
+  back: "↩️ بازگشت",
 };
 
 export const buildMainKeyboard = (): Keyboard => {
@@ -24,13 +43,49 @@ export const buildMainKeyboard = (): Keyboard => {
     .text(labels.setInterval)
     .row()
     .text(labels.toggleTarget)
+    .text(labels.subscriptions)
+    .row()
+    .text(labels.alertRules)
+    .row()
+    .text(labels.setTargetTimezone)
+    .text(labels.toggleOutageAlerts)
     .row()
     .text(labels.setRadarToken)
     .text(labels.setRadarSource)
     .row()
     .text(labels.setRadarDateRange)
+    .text(labels.setTargetLocation)
     .row()
+    .text(labels.setTargetRadarToken)
+    .text(labels.setLabelLanguage)
+    .row()
+    .text(labels.exportData)
     .text(labels.help);
 
   return keyboard.resized();
 };
+
+export const buildSubscriptionKeyboard = (): Keyboard => {
+  const keyboard = new Keyboard()
+    .text(labels.addSubscription)
+    .text(labels.selectSubscription)
+    .row()
+    .text(labels.setSubscriptionDateRange)
+    .text(labels.toggleComparePrevious)
+    .row()
+    .text(labels.setCompareLocations)
+    .text(labels.setSubscriptionTrend)
+    .row()
+    .text(labels.setChartStyle)
+    .text(labels.removeSubscription)
+    .row()
+    .text(labels.back);
+
+  return keyboard.resized();
+};
+
+export const buildAlertRuleKeyboard = (): Keyboard => {
+  const keyboard = new Keyboard().text(labels.addAlertRule).text(labels.removeAlertRule).row().text(labels.back);
+
+  return keyboard.resized();
+};
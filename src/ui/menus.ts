@@ -1,12 +1,69 @@
 import type { Bot, Context } from "grammy";
-import type { PrismaClient } from "@prisma/client";
+import type { AlertRule, ChartSubscription, PrismaClient, User } from "@prisma/client";
 import { TargetChatType } from "@prisma/client";
-import { labels, buildMainKeyboard } from "./keyboards.js";
-import { getRadarDateRange, getRadarMode, setRadarApiToken, setRadarDateRange, setRadarMode } from "../db/settings.js";
+import { labels, buildAlertRuleKeyboard, buildMainKeyboard, buildSubscriptionKeyboard } from "./keyboards.js";
+import {
+  getRadarDateRange,
+  getRadarMode,
+  setLabelLanguage,
+  setRadarCustomRange,
+  setRadarDateRange,
+  setRadarMode,
+  setTargetCustomRange,
+  setTargetLabelLanguage,
+} from "../db/settings.js";
+import {
+  findRadarTokenByLabel,
+  formatRadarTokenList,
+  listRadarTokens,
+  MAX_RADAR_TOKENS_PER_USER,
+  parseRadarTokenInput,
+  removeRadarToken,
+  saveRadarToken,
+} from "../db/radarTokens.js";
+import {
+  createSubscription,
+  ensureDefaultSubscription,
+  hasConflictingComparisons,
+  listTargetSubscriptions,
+  resolveSelectedSubscription,
+} from "../db/subscriptions.js";
 import { logError } from "../logger.js";
 import type { RadarMode } from "../radar/fetch.js";
-import type { RadarDateRangePreset } from "../radar/dateRange.js";
+import {
+  MAX_RADAR_WINDOW_DAYS,
+  parseStoredCustomRange,
+  validateCustomRange,
+  type RadarCustomRange,
+  type RadarCustomRangeIssue,
+  type RadarDateRangePreset,
+} from "../radar/dateRange.js";
+import { formatCustomRange, parseCustomRangeInput } from "../radar/customRange.js";
+import {
+  resolveRadarEndpoint,
+  supportsParam,
+  type RadarEndpointName,
+} from "../radar/endpoints.js";
 import { isRadarTokenValidFormat } from "../radar/client.js";
+import { isTokenUsable, type RadarTokenVerification } from "../radar/tokenVerify.js";
+import {
+  formatLocationTitle,
+  isKnownCountryCode,
+  toLabelLanguage,
+  type LabelLanguage,
+} from "../radar/countries.js";
+import { parseCompareLocations } from "../radar/multiLocation.js";
+import { MAX_EXPORT_HISTORY_DAYS, parseExportRequest, type RadarExportRequest } from "../radar/export.js";
+import {
+  formatTrendDefinition,
+  parseTrendInput,
+  trendDefinitionFromSubscription,
+  MAX_TREND_DAYS,
+  MIN_TREND_DAYS,
+} from "../radar/trend.js";
+import { formatChartStyle, parseChartStyleInput } from "../radar/worldMap.js";
+import { formatAlertRule, parseAlertRuleInput, validateAlertRuleForEndpoint } from "../alerts/rules.js";
+import { buildTokenEncryptionUserMessage, isTokenEncryptionEnabled, TokenEncryptionError } from "../db/tokenCrypto.js";
 
 export type SessionData = {
   step?:
@@ -14,8 +71,21 @@ export type SessionData = {
     | "awaitingTargetSelection"
     | "awaitingInterval"
     | "awaitingRadarToken"
+    | "awaitingTargetRadarToken"
     | "awaitingRadarMode"
     | "awaitingRadarDateRange"
+    | "awaitingLabelLanguage"
+    | "awaitingExport"
+    | "awaitingSubscriptionEndpoint"
+    | "awaitingSubscriptionSelection"
+    | "awaitingSubscriptionDateRange"
+    | "awaitingCompareLocations"
+    | "awaitingSubscriptionTrend"
+    | "awaitingChartStyle"
+    | "awaitingAlertRule"
+    | "awaitingAlertRuleRemoval"
+    | "awaitingTargetLocation"
+    | "awaitingTargetTimezone"
     | null;
 };
 
@@ -24,7 +94,9 @@ type BotContext = Context & { session: SessionData };
 type MenuDeps = {
   prisma: PrismaClient;
   sendNow: (ctx: Context) => Promise<void>;
-  runDiagnostics: (ctx: Context, userId?: number) => Promise<void>;
+  verifyToken: (token: string) => Promise<{ verification: RadarTokenVerification; summary: string }>;
+  exportData: (ctx: Context, user: User, request: RadarExportRequest) => Promise<void>;
+  defaultTimezone: string;
 };
 
 type ForwardedChat = {
@@ -52,7 +124,7 @@ const ensureUser = async (ctx: Context, prisma: PrismaClient) => {
 const getUserTargets = async (userId: number, prisma: PrismaClient) => {
   return prisma.targetChat.findMany({
     where: { createdByUserId: userId },
-    include: { schedule: true },
+    include: { subscriptions: { orderBy: { createdAt: "asc" } } },
     orderBy: { createdAt: "asc" },
   });
 };
@@ -60,8 +132,13 @@ const getUserTargets = async (userId: number, prisma: PrismaClient) => {
 const formatTargetLine = (index: number, target: Awaited<ReturnType<typeof getUserTargets>>[number]) => {
   const title = target.title ?? "بدون عنوان";
   const enabled = target.isEnabled ? "فعال ✅" : "غیرفعال ⛔";
-  const interval = target.schedule?.intervalMinutes ?? 60;
-  return `${index}. ${title} — ${enabled} — هر ${interval} دقیقه`;
+  const location = formatLocationTitle(target.location);
+  const count = target.subscriptions.length;
+  if (!count) {
+    return `${index}. ${title} — ${enabled} — ${location} — بدون چارت`;
+  }
+  const interval = Math.min(...target.subscriptions.map((subscription) => subscription.intervalMinutes));
+  return `${index}. ${title} — ${enabled} — ${location} — ${count} چارت — کمترین بازه ${interval} دقیقه`;
 };
 
 const parseIntervalMinutes = (value: string): number | null => {
@@ -121,6 +198,35 @@ const radarModeLabel = (mode: RadarMode | null): string => {
   }
 };
 
+const labelLanguageLabel = (language: LabelLanguage | null): string => {
+  switch (language) {
+    case "fa":
+      return "فارسی";
+    case "en":
+      return "English";
+    default:
+      return "پیش‌فرض کاربر";
+  }
+};
+
+const parseLabelLanguageInput = (
+  text: string
+): { scope: "user" | "target"; language: LabelLanguage | null } | null => {
+  const normalized = text.trim().toLowerCase();
+  const scope = normalized.startsWith("مقصد") ? "target" : "user";
+  const value = scope === "target" ? normalized.slice("مقصد".length).trim() : normalized;
+  if (value === "فارسی" || value === "fa") {
+    return { scope, language: "fa" };
+  }
+  if (value === "english" || value === "en" || value === "انگلیسی") {
+    return { scope, language: "en" };
+  }
+  if (scope === "target" && (value === "پیش‌فرض" || value === "پیش فرض" || value === "-")) {
+    return { scope, language: null };
+  }
+  return null;
+};
+
 const RADAR_DATE_RANGE_OPTIONS: Array<{ preset: RadarDateRangePreset; label: string }> = [
   { preset: "D1", label: "1 روز" },
   { preset: "D2", label: "2 روز" },
@@ -145,13 +251,122 @@ const parseRadarDateRange = (text: string): RadarDateRangePreset | null => {
   return option?.preset ?? null;
 };
 
+type RadarDateRangeInput =
+  | { scope: "user"; preset: RadarDateRangePreset }
+  | { scope: "user"; customRange: RadarCustomRange }
+  | { scope: "target"; customRange: RadarCustomRange | null };
+
+const parseRadarDateRangeInput = (text: string, timezone: string): RadarDateRangeInput | null => {
+  const normalized = text.trim();
+  if (normalized.startsWith("مقصد")) {
+    const value = normalized.slice("مقصد".length).trim();
+    if (value === "پیش‌فرض" || value === "پیش فرض" || value === "-") {
+      return { scope: "target", customRange: null };
+    }
+    const customRange = parseCustomRangeInput(value, { timezone });
+    return customRange ? { scope: "target", customRange } : null;
+  }
+  const exact = RADAR_DATE_RANGE_OPTIONS.find((item) => normalized.replace(/^-\s*/, "") === item.label);
+  if (exact) {
+    return { scope: "user", preset: exact.preset };
+  }
+  const customRange = parseCustomRangeInput(normalized, { timezone });
+  if (customRange) {
+    return { scope: "user", customRange };
+  }
+  const preset = parseRadarDateRange(normalized);
+  return preset ? { scope: "user", preset } : null;
+};
+
+const customRangeIssueMessage = (issue: RadarCustomRangeIssue): string => {
+  switch (issue) {
+    case "future":
+      return "شروع بازه توی آینده‌ست. یه بازه گذشته بفرست.";
+    case "reversed":
+      return "شروع بازه باید قبل از پایانش باشه.";
+    case "too_short":
+      return "بازه باید حداقل 1 ساعت باشه.";
+    case "too_long":
+      return `بازه نمی‌تونه بیشتر از ${MAX_RADAR_WINDOW_DAYS} روز باشه.`;
+  }
+};
+
+const RADAR_ENDPOINT_OPTIONS: Array<{ endpoint: RadarEndpointName; label: string }> = [
+  { endpoint: "trafficCountries", label: "🌍 کشورهای برتر HTTPS" },
+  { endpoint: "topAses", label: "🏢 ASهای برتر" },
+  { endpoint: "attacksL3Origins", label: "🛡 مبدأ حملات L3" },
+  { endpoint: "attacksL3Targets", label: "🎯 مقصد حملات L3" },
+  { endpoint: "attacksL7Origins", label: "🛡 مبدأ حملات L7" },
+  { endpoint: "attacksL7Targets", label: "🎯 مقصد حملات L7" },
+  { endpoint: "dnsQueryTypes", label: "🧭 نوع کوئری‌های DNS" },
+  { endpoint: "httpDeviceType", label: "📱 سهم دستگاه‌ها" },
+  { endpoint: "httpBotClass", label: "🤖 سهم بات/انسان" },
+  { endpoint: "httpIpVersion", label: "🔢 سهم IPv4/IPv6" },
+  { endpoint: "httpTimeseries", label: "📈 ترافیک HTTP در طول زمان" },
+  { endpoint: "netflowsTimeseries", label: "📈 ترافیک شبکه در طول زمان" },
+  { endpoint: "attacksL3Timeseries", label: "📈 حملات L3 در طول زمان" },
+  { endpoint: "attacksL7Timeseries", label: "📈 حملات L7 در طول زمان" },
+];
+
+const SUBSCRIPTION_DEFAULT_RANGE_LABEL = "پیش‌فرض کاربر";
+
+const GLOBAL_LOCATION_INPUTS = ["جهانی", "global", "-"];
+
+const parseLocationInput = (text: string): { location: string | null } | null => {
+  const trimmed = text.trim();
+  if (GLOBAL_LOCATION_INPUTS.includes(trimmed.toLowerCase())) {
+    return { location: null };
+  }
+  if (!isKnownCountryCode(trimmed)) {
+    return null;
+  }
+  return { location: trimmed.toUpperCase() };
+};
+
+const radarEndpointLabel = (endpoint: string): string => {
+  const option = RADAR_ENDPOINT_OPTIONS.find((item) => item.endpoint === endpoint);
+  return option?.label ?? endpoint;
+};
+
+const formatSubscriptionLine = (index: number, subscription: ChartSubscription, selectedId?: number | null) => {
+  const marker = subscription.id === selectedId ? " 👈" : "";
+  const range = subscription.dateRange ? radarDateRangeLabel(subscription.dateRange) : SUBSCRIPTION_DEFAULT_RANGE_LABEL;
+  const compare = subscription.comparePrevious ? " — 🔁 مقایسه" : "";
+  const locations = subscription.compareLocations.length ? ` — 🌐 ${subscription.compareLocations.join("/")}` : "";
+  const trendDefinition = trendDefinitionFromSubscription(subscription);
+  const trend = trendDefinition ? ` — 📈 ${formatTrendDefinition(trendDefinition)}` : "";
+  const style = subscription.chartStyle === "MAP" ? ` — ${formatChartStyle(subscription.chartStyle, subscription.mapRegion)}` : "";
+  return `${index}. ${radarEndpointLabel(subscription.endpoint)} — هر ${subscription.intervalMinutes} دقیقه — بازه: ${range}${compare}${locations}${trend}${style}${marker}`;
+};
+
+const formatAlertRuleLine = (index: number, rule: AlertRule) => {
+  const state = rule.isTripped ? "⚠️ فعال" : "✅ عادی";
+  const location = rule.location ? ` (${rule.location})` : "";
+  return `${index}. ${radarEndpointLabel(rule.endpoint)}${location} — ${formatAlertRule(rule)} — ${state}`;
+};
+
+const isValidTimezone = (value: string): boolean => {
+  try {
+    new Intl.DateTimeFormat("en-GB", { timeZone: value });
+    return true;
+  } catch {
+    return false;
+  }
+};
+
 const showHelp = async (ctx: Context) => {
   await ctx.reply(
     [
       "برای افزودن مقصد، روی ➕ بزن و از کانال/گروه برام پیام فوروارد کن 📩",
       "برای تنظیم بازه ارسال باید اول مقصد رو انتخاب کنی 🎯",
       "بعد از انتخاب مقصد، بازه رو با عدد دقیقه یا فرمت 2h/45m ارسال کن ⏱",
+      "از 📊 چارت‌های مقصد می‌تونی چند چارت با زمان‌بندی جدا برای هر مقصد بسازی",
       "برای دریافت دیتا، توکن Radar API یا حالت Public/Auto رو تنظیم کن 🧭",
+      "می‌تونی چند توکن با نام جدا ثبت کنی و از 🔑 برای هر مقصد یکی رو انتخاب کنی",
+      "با 📈 روند تاریخی یا دستور /trend می‌تونی روند یک برچسب رو از تاریخچه ذخیره‌شده ببینی",
+      "با 🗺 نمایش نقشه چارت‌های رتبه‌بندی کشورها رو روی نقشه جهان یا یک منطقه ببین",
+      "با 📤 خروجی داده، اعداد چارت آخر، دیتای تازه یا تاریخچه مقصد رو به صورت CSV یا JSON بگیر",
+      "با 🔤 زبان نام کشورها روی چارت و کپشن رو فارسی یا انگلیسی کن",
     ].join("\n"),
     { reply_markup: buildMainKeyboard() }
   );
@@ -164,7 +379,11 @@ const safeHandler = <T extends Context>(handler: (ctx: T) => Promise<void>) => {
     } catch (error) {
       await logError("menu_handler_failed", { updateId: ctx.update.update_id }, error);
       try {
-        await ctx.reply("خطای غیرمنتظره‌ای رخ داد. لطفاً دوباره تلاش کن.", {
+        const message =
+          error instanceof TokenEncryptionError
+            ? buildTokenEncryptionUserMessage(error)
+            : "خطای غیرمنتظره‌ای رخ داد. لطفاً دوباره تلاش کن.";
+        await ctx.reply(message, {
           reply_markup: buildMainKeyboard(),
         });
       } catch {
@@ -174,7 +393,10 @@ const safeHandler = <T extends Context>(handler: (ctx: T) => Promise<void>) => {
   };
 };
 
-export const registerMenuHandlers = (bot: Bot<BotContext>, { prisma, sendNow, runDiagnostics }: MenuDeps) => {
+export const registerMenuHandlers = (
+  bot: Bot<BotContext>,
+  { prisma, sendNow, verifyToken, exportData, defaultTimezone }: MenuDeps
+) => {
   bot.command(
     "start",
     safeHandler(async (ctx: BotContext) => {
@@ -296,14 +518,96 @@ export const registerMenuHandlers = (bot: Bot<BotContext>, { prisma, sendNow, ru
     })
   );
 
+  bot.hears(
+    labels.toggleOutageAlerts,
+    safeHandler(async (ctx: BotContext) => {
+      const user = await ensureUser(ctx, prisma);
+      ctx.session.step = null;
+      if (!user?.selectedTargetId) {
+        await ctx.reply("اول مقصد رو انتخاب کن 🎯", {
+          reply_markup: buildMainKeyboard(),
+        });
+        return;
+      }
+      const target = await prisma.targetChat.findUnique({
+        where: { id: user.selectedTargetId },
+      });
+      if (!target) {
+        await ctx.reply("مقصد پیدا نشد. دوباره انتخاب کن.", {
+          reply_markup: buildMainKeyboard(),
+        });
+        return;
+      }
+      const updated = await prisma.targetChat.update({
+        where: { id: target.id },
+        data: { outageAlertsEnabled: !target.outageAlertsEnabled },
+      });
+      await ctx.reply(
+        `هشدار اختلال برای این مقصد: ${updated.outageAlertsEnabled ? "فعال ✅" : "غیرفعال ⛔"}${
+          updated.outageAlertsEnabled && !updated.location ? "\nبرای دریافت هشدار، کشور مقصد رو از 🌍 تنظیم کن." : ""
+        }`,
+        { reply_markup: buildMainKeyboard() }
+      );
+    })
+  );
+
   bot.hears(
     labels.setRadarToken,
     safeHandler(async (ctx: BotContext) => {
-      await ensureUser(ctx, prisma);
+      const user = await ensureUser(ctx, prisma);
+      if (!user) {
+        return;
+      }
+      const tokens = await listRadarTokens(prisma, user.id);
       ctx.session.step = "awaitingRadarToken";
-      await ctx.reply("توکن Radar API رو ارسال کن 🗝️", {
-        reply_markup: buildMainKeyboard(),
+      await ctx.reply(
+        [
+          "توکن‌های Radar API شما:",
+          formatRadarTokenList(tokens),
+          "",
+          "برای افزودن یا جایگزینی، «نام توکن» بفرست (مثلاً: team-a xxxx). اگر فقط توکن بفرستی با نام default ذخیره می‌شه.",
+          "برای حذف، «- نام» بفرست.",
+          `اگر یک توکن خطای دسترسی یا محدودیت نرخ بده، توکن بعدی امتحان می‌شه (حداکثر ${MAX_RADAR_TOKENS_PER_USER} توکن).`,
+        ].join("\n"),
+        { reply_markup: buildMainKeyboard() }
+      );
+    })
+  );
+
+  bot.hears(
+    labels.setTargetRadarToken,
+    safeHandler(async (ctx: BotContext) => {
+      const user = await ensureUser(ctx, prisma);
+      if (!user) {
+        return;
+      }
+      if (!user.selectedTargetId) {
+        await ctx.reply("اول مقصد رو انتخاب کن 🎯", {
+          reply_markup: buildMainKeyboard(),
+        });
+        return;
+      }
+      const target = await prisma.targetChat.findUnique({
+        where: { id: user.selectedTargetId },
+        include: { radarToken: true },
       });
+      const tokens = await listRadarTokens(prisma, user.id);
+      if (!tokens.length) {
+        await ctx.reply("هنوز توکنی ثبت نشده. اول از منوی 🗝️ توکن ثبت کن.", {
+          reply_markup: buildMainKeyboard(),
+        });
+        return;
+      }
+      ctx.session.step = "awaitingTargetRadarToken";
+      await ctx.reply(
+        [
+          `توکن فعلی این مقصد: ${target?.radarToken?.label ?? "خودکار (چرخشی)"}`,
+          formatRadarTokenList(tokens, target?.radarToken?.label),
+          "",
+          "نام توکن رو بفرست یا «خودکار» تا بین توکن‌ها چرخشی انتخاب بشه.",
+        ].join("\n"),
+        { reply_markup: buildMainKeyboard() }
+      );
     })
   );
 
@@ -337,12 +641,24 @@ export const registerMenuHandlers = (bot: Bot<BotContext>, { prisma, sendNow, ru
         return;
       }
       const currentRange = await getRadarDateRange(prisma, user.id);
+      const target = user.selectedTargetId
+        ? await prisma.targetChat.findUnique({ where: { id: user.selectedTargetId } })
+        : null;
+      const timezone = target?.timezone ?? defaultTimezone;
+      const userCustomRange = parseStoredCustomRange(user.radarCustomRange);
+      const targetCustomRange = parseStoredCustomRange(target?.radarCustomRange);
       ctx.session.step = "awaitingRadarDateRange";
       await ctx.reply(
         [
-          `بازه فعلی: ${radarDateRangeLabel(currentRange)}`,
+          `بازه فعلی: ${userCustomRange ? formatCustomRange(userCustomRange, timezone) : radarDateRangeLabel(currentRange)}`,
+          ...(targetCustomRange ? [`بازه مقصد: ${formatCustomRange(targetCustomRange, timezone)}`] : []),
           "یکی از گزینه‌ها رو بفرست:",
           ...RADAR_DATE_RANGE_OPTIONS.map((option) => `- ${option.label}`),
+          "یا یه بازه دلخواه:",
+          "- 36 ساعت اخیر / last 10 days",
+          "- 1 تا 10 مهر / 1 مهر 1403 تا 5 آبان 1403",
+          "- 2024-09-01 تا 2024-09-30",
+          ...(target ? ["برای مقصد انتخاب‌شده اول «مقصد» بنویس، مثلاً «مقصد 1 تا 10 مهر» یا «مقصد پیش‌فرض»."] : []),
         ].join("\n"),
         { reply_markup: buildMainKeyboard() }
       );
@@ -350,151 +666,664 @@ export const registerMenuHandlers = (bot: Bot<BotContext>, { prisma, sendNow, ru
   );
 
   bot.hears(
-    labels.help,
+    labels.exportData,
     safeHandler(async (ctx: BotContext) => {
-      await ensureUser(ctx, prisma);
-      ctx.session.step = null;
-      await showHelp(ctx);
+      const user = await ensureUser(ctx, prisma);
+      if (!user) {
+        return;
+      }
+      ctx.session.step = "awaitingExport";
+      await ctx.reply(
+        [
+          "فرمت و نوع خروجی رو بفرست:",
+          "- csv یا json: دیتای آخرین چارت",
+          "- csv جدید یا json جدید: دیتای تازه برای چارت انتخاب‌شده",
+          `- csv 30 یا json 30: تاریخچه مقصد انتخاب‌شده در N روز اخیر (حداکثر ${MAX_EXPORT_HISTORY_DAYS})`,
+        ].join("\n"),
+        { reply_markup: buildMainKeyboard() }
+      );
     })
   );
 
-  bot.on(
-    "message",
+  bot.hears(
+    labels.setLabelLanguage,
     safeHandler(async (ctx: BotContext) => {
       const user = await ensureUser(ctx, prisma);
       if (!user) {
         return;
       }
+      const target = user.selectedTargetId
+        ? await prisma.targetChat.findUnique({ where: { id: user.selectedTargetId } })
+        : null;
+      ctx.session.step = "awaitingLabelLanguage";
+      await ctx.reply(
+        [
+          `زبان فعلی شما: ${labelLanguageLabel(toLabelLanguage(user.labelLanguage))}`,
+          ...(target
+            ? [
+                `زبان مقصد: ${labelLanguageLabel(target.labelLanguage ? toLabelLanguage(target.labelLanguage) : null)}`,
+              ]
+            : []),
+          "یکی از گزینه‌ها رو بفرست:",
+          "- فارسی / English (پیش‌فرض شما)",
+          ...(target ? ["- مقصد فارسی / مقصد English / مقصد پیش‌فرض"] : []),
+        ].join("\n"),
+        { reply_markup: buildMainKeyboard() }
+      );
+    })
+  );
 
-      const message = ctx.message;
-      const forwardChat =
-        message && "forward_from_chat" in message
-          ? (message.forward_from_chat as ForwardedChat | undefined)
-          : undefined;
-      if (ctx.session.step === "awaitingTargetForward") {
-        if (!forwardChat) {
-          await ctx.reply("پیام فوروارد شده از کانال/گروه رو بفرست 📩", {
-            reply_markup: buildMainKeyboard(),
-          });
-          return;
-        }
-        const targetType = resolveTargetType(forwardChat.type);
-        if (!targetType) {
-          await ctx.reply("نوع مقصد پشتیبانی نمی‌شه. دوباره تلاش کن.", {
-            reply_markup: buildMainKeyboard(),
-          });
-          return;
-        }
-        const target = await prisma.targetChat.upsert({
-          where: { chatId: BigInt(forwardChat.id) },
-          update: {
-            title: forwardChat.title ?? null,
-            type: targetType,
-          },
-          create: {
-            chatId: BigInt(forwardChat.id),
-            title: forwardChat.title ?? null,
-            type: targetType,
-            createdByUserId: user.id,
-          },
-        });
-        await prisma.targetSchedule.upsert({
-          where: { targetChatId: target.id },
-          update: {},
-          create: {
-            targetChatId: target.id,
-            intervalMinutes: 60,
-          },
-        });
-        ctx.session.step = null;
-        await ctx.reply(`✅ مقصد اضافه شد: ${target.title ?? "بدون عنوان"} — هر 60 دقیقه`, {
-          reply_markup: buildMainKeyboard(),
-        });
-        return;
-      }
+  const showSubscriptions = async (
+    ctx: BotContext,
+    user: { selectedTargetId: number | null; selectedSubscriptionId: number | null }
+  ) => {
+    if (!user.selectedTargetId) {
+      await ctx.reply("اول مقصد رو انتخاب کن 🎯", {
+        reply_markup: buildMainKeyboard(),
+      });
+      return;
+    }
+    const subscriptions = await listTargetSubscriptions(prisma, user.selectedTargetId);
+    const selected = await resolveSelectedSubscription(prisma, user);
+    const lines = subscriptions.length
+      ? subscriptions.map((subscription, index) => formatSubscriptionLine(index + 1, subscription, selected?.id))
+      : ["هنوز چارتی برای این مقصد ثبت نشده."];
+    await ctx.reply(["📊 چارت‌های این مقصد:", ...lines].join("\n"), {
+      reply_markup: buildSubscriptionKeyboard(),
+    });
+  };
 
-      const text = message?.text?.trim();
-      if (!text) {
+  bot.hears(
+    labels.subscriptions,
+    safeHandler(async (ctx: BotContext) => {
+      const user = await ensureUser(ctx, prisma);
+      ctx.session.step = null;
+      if (!user) {
         return;
       }
+      await showSubscriptions(ctx, user);
+    })
+  );
 
-      if (ctx.session.step === "awaitingTargetSelection") {
-        const index = Number(text);
-        if (Number.isNaN(index) || index < 1) {
-          await ctx.reply("شماره نامعتبره. یک عدد معتبر بفرست.", {
-            reply_markup: buildMainKeyboard(),
-          });
-          return;
-        }
-        const targets = await getUserTargets(user.id, prisma);
-        const target = targets[index - 1];
-        if (!target) {
-          await ctx.reply("شماره مقصد پیدا نشد. دوباره تلاش کن.", {
-            reply_markup: buildMainKeyboard(),
-          });
-          return;
-        }
-        await prisma.user.update({
-          where: { id: user.id },
-          data: { selectedTargetId: target.id },
+  bot.hears(
+    labels.addSubscription,
+    safeHandler(async (ctx: BotContext) => {
+      const user = await ensureUser(ctx, prisma);
+      if (!user?.selectedTargetId) {
+        await ctx.reply("اول مقصد رو انتخاب کن 🎯", {
+          reply_markup: buildMainKeyboard(),
         });
-        ctx.session.step = null;
-        await ctx.reply(`🎯 مقصد انتخاب شد: ${target.title ?? "بدون عنوان"}`,
-          {
-            reply_markup: buildMainKeyboard(),
-          }
-        );
         return;
       }
+      ctx.session.step = "awaitingSubscriptionEndpoint";
+      await ctx.reply(
+        [
+          "شماره چارت مورد نظر رو بفرست:",
+          ...RADAR_ENDPOINT_OPTIONS.map((option, index) => `${index + 1}. ${option.label}`),
+        ].join("\n"),
+        { reply_markup: buildSubscriptionKeyboard() }
+      );
+    })
+  );
 
-      if (ctx.session.step === "awaitingInterval") {
-        const minutes = parseIntervalMinutes(text);
-        if (!minutes || minutes < 3 || minutes > 1440) {
-          await ctx.reply("عدد نامعتبره. بازه باید بین 3 تا 1440 دقیقه باشه.", {
-            reply_markup: buildMainKeyboard(),
-          });
-          return;
-        }
-        if (!user.selectedTargetId) {
-          await ctx.reply("اول مقصد رو انتخاب کن 🎯", {
-            reply_markup: buildMainKeyboard(),
-          });
-          return;
-        }
-        await prisma.targetSchedule.upsert({
-          where: { targetChatId: user.selectedTargetId },
-          update: { intervalMinutes: minutes },
-          create: { targetChatId: user.selectedTargetId, intervalMinutes: minutes },
-        });
-        ctx.session.step = null;
-        await ctx.reply(`بازه ارسال شد ${minutes} دقیقه ✅`, {
+  bot.hears(
+    labels.selectSubscription,
+    safeHandler(async (ctx: BotContext) => {
+      const user = await ensureUser(ctx, prisma);
+      if (!user?.selectedTargetId) {
+        await ctx.reply("اول مقصد رو انتخاب کن 🎯", {
           reply_markup: buildMainKeyboard(),
         });
         return;
       }
-
-      if (ctx.session.step === "awaitingRadarToken") {
-        if (!isRadarTokenValidFormat(text)) {
-          await ctx.reply("فرمت توکن معتبر نیست. یک توکن صحیح ارسال کن.", {
-            reply_markup: buildMainKeyboard(),
-          });
-          return;
-        }
-        await setRadarApiToken(prisma, text, user.id);
-        ctx.session.step = null;
-        await ctx.reply("توکن Radar API ذخیره شد، در حال تست...", {
-          reply_markup: buildMainKeyboard(),
+      const subscriptions = await listTargetSubscriptions(prisma, user.selectedTargetId);
+      if (!subscriptions.length) {
+        await ctx.reply("هنوز چارتی برای این مقصد ثبت نشده. از ➕ افزودن چارت استفاده کن.", {
+          reply_markup: buildSubscriptionKeyboard(),
         });
-        await runDiagnostics(ctx, user.id);
         return;
       }
+      const lines = subscriptions.map((subscription, index) => formatSubscriptionLine(index + 1, subscription));
+      ctx.session.step = "awaitingSubscriptionSelection";
+      await ctx.reply([...lines, "شماره چارت رو ارسال کن 🔢"].join("\n"), {
+        reply_markup: buildSubscriptionKeyboard(),
+      });
+    })
+  );
 
-      if (ctx.session.step === "awaitingRadarMode") {
-        const mode = parseRadarMode(text);
-        if (!mode) {
-          await ctx.reply("مقدار نامعتبره. یکی از Public / Token / Auto رو بفرست.", {
-            reply_markup: buildMainKeyboard(),
-          });
+  bot.hears(
+    labels.setSubscriptionDateRange,
+    safeHandler(async (ctx: BotContext) => {
+      const user = await ensureUser(ctx, prisma);
+      if (!user) {
+        return;
+      }
+      const subscription = await resolveSelectedSubscription(prisma, user);
+      if (!subscription) {
+        await ctx.reply("اول مقصد و چارت رو انتخاب کن 🎯", {
+          reply_markup: buildSubscriptionKeyboard(),
+        });
+        return;
+      }
+      ctx.session.step = "awaitingSubscriptionDateRange";
+      await ctx.reply(
+        [
+          `بازه فعلی این چارت: ${
+            subscription.dateRange ? radarDateRangeLabel(subscription.dateRange) : SUBSCRIPTION_DEFAULT_RANGE_LABEL
+          }`,
+          "یکی از گزینه‌ها رو بفرست:",
+          `- ${SUBSCRIPTION_DEFAULT_RANGE_LABEL}`,
+          ...RADAR_DATE_RANGE_OPTIONS.map((option) => `- ${option.label}`),
+        ].join("\n"),
+        { reply_markup: buildSubscriptionKeyboard() }
+      );
+    })
+  );
+
+  bot.hears(
+    labels.toggleComparePrevious,
+    safeHandler(async (ctx: BotContext) => {
+      const user = await ensureUser(ctx, prisma);
+      ctx.session.step = null;
+      if (!user) {
+        return;
+      }
+      const subscription = await resolveSelectedSubscription(prisma, user);
+      if (!subscription) {
+        await ctx.reply("اول مقصد و چارت رو انتخاب کن 🎯", {
+          reply_markup: buildSubscriptionKeyboard(),
+        });
+        return;
+      }
+      if (hasConflictingComparisons({ ...subscription, comparePrevious: !subscription.comparePrevious })) {
+        await ctx.reply("برای این چارت مقایسه کشورها فعاله؛ اول با 🌐 مقایسه کشورها و «-» غیرفعالش کن.", {
+          reply_markup: buildSubscriptionKeyboard(),
+        });
+        return;
+      }
+      const updated = await prisma.chartSubscription.update({
+        where: { id: subscription.id },
+        data: { comparePrevious: !subscription.comparePrevious },
+      });
+      await ctx.reply(
+        `مقایسه با دوره قبل برای «${radarEndpointLabel(updated.endpoint)}»: ${
+          updated.comparePrevious ? "فعال ✅" : "غیرفعال ⛔"
+        }`,
+        { reply_markup: buildSubscriptionKeyboard() }
+      );
+    })
+  );
+
+  bot.hears(
+    labels.setCompareLocations,
+    safeHandler(async (ctx: BotContext) => {
+      const user = await ensureUser(ctx, prisma);
+      ctx.session.step = null;
+      if (!user) {
+        return;
+      }
+      const subscription = await resolveSelectedSubscription(prisma, user);
+      if (!subscription) {
+        await ctx.reply("اول مقصد و چارت رو انتخاب کن 🎯", {
+          reply_markup: buildSubscriptionKeyboard(),
+        });
+        return;
+      }
+      if (!supportsParam(resolveRadarEndpoint(subscription.endpoint), "location")) {
+        await ctx.reply("این چارت از فیلتر کشور پشتیبانی نمی‌کنه.", {
+          reply_markup: buildSubscriptionKeyboard(),
+        });
+        return;
+      }
+      ctx.session.step = "awaitingCompareLocations";
+      await ctx.reply(
+        [
+          `کشورهای فعلی: ${subscription.compareLocations.length ? subscription.compareLocations.join(" ") : "-"}`,
+          "۲ تا ۵ کد کشور دوحرفی بفرست، مثلاً: IR TR AE",
+          "برای غیرفعال کردن مقایسه «-» بفرست.",
+        ].join("\n"),
+        { reply_markup: buildSubscriptionKeyboard() }
+      );
+    })
+  );
+
+  bot.hears(
+    labels.setSubscriptionTrend,
+    safeHandler(async (ctx: BotContext) => {
+      const user = await ensureUser(ctx, prisma);
+      ctx.session.step = null;
+      if (!user) {
+        return;
+      }
+      const subscription = await resolveSelectedSubscription(prisma, user);
+      if (!subscription) {
+        await ctx.reply("اول مقصد و چارت رو انتخاب کن 🎯", {
+          reply_markup: buildSubscriptionKeyboard(),
+        });
+        return;
+      }
+      if (resolveRadarEndpoint(subscription.endpoint).resultShape === "timeseries") {
+        await ctx.reply("روند تاریخی فقط برای چارت‌های غیر سری زمانی در دسترسه.", {
+          reply_markup: buildSubscriptionKeyboard(),
+        });
+        return;
+      }
+      const current = trendDefinitionFromSubscription(subscription);
+      ctx.session.step = "awaitingSubscriptionTrend";
+      await ctx.reply(
+        [
+          `روند فعلی: ${current ? formatTrendDefinition(current) : "-"}`,
+          `برچسب و در صورت نیاز معیار (value/rank)، تعداد روز (${MIN_TREND_DAYS} تا ${MAX_TREND_DAYS}) و day/week رو بفرست، مثلاً: IR rank 90`,
+          "این چارت به جای دیتای لحظه‌ای، روند رو از تاریخچه ذخیره‌شده می‌سازه.",
+          "فقط ارسال‌های با بازه آماده (مثلاً ۷ روز اخیر) در تاریخچه روند حساب می‌شن، نه بازه دلخواه.",
+          "برای غیرفعال کردن «-» بفرست.",
+        ].join("\n"),
+        { reply_markup: buildSubscriptionKeyboard() }
+      );
+    })
+  );
+
+  bot.hears(
+    labels.setChartStyle,
+    safeHandler(async (ctx: BotContext) => {
+      const user = await ensureUser(ctx, prisma);
+      ctx.session.step = null;
+      if (!user) {
+        return;
+      }
+      const subscription = await resolveSelectedSubscription(prisma, user);
+      if (!subscription) {
+        await ctx.reply("اول مقصد و چارت رو انتخاب کن 🎯", {
+          reply_markup: buildSubscriptionKeyboard(),
+        });
+        return;
+      }
+      if (!resolveRadarEndpoint(subscription.endpoint).supportsMap) {
+        await ctx.reply("نمایش نقشه فقط برای چارت‌های رتبه‌بندی کشورها در دسترسه.", {
+          reply_markup: buildSubscriptionKeyboard(),
+        });
+        return;
+      }
+      ctx.session.step = "awaitingChartStyle";
+      await ctx.reply(
+        [
+          `نمایش فعلی: ${formatChartStyle(subscription.chartStyle, subscription.mapRegion)}`,
+          "برای نقشه «map» و در صورت نیاز منطقه رو بفرست، مثلاً: map middle_east",
+          "منطقه‌ها: world/جهان، europe/اروپا، middle_east/خاورمیانه، asia/آسیا، africa/آفریقا، americas/آمریکا",
+          "برای برگشت به نمودار میله‌ای «bar» بفرست.",
+        ].join("\n"),
+        { reply_markup: buildSubscriptionKeyboard() }
+      );
+    })
+  );
+
+  bot.hears(
+    labels.removeSubscription,
+    safeHandler(async (ctx: BotContext) => {
+      const user = await ensureUser(ctx, prisma);
+      ctx.session.step = null;
+      if (!user) {
+        return;
+      }
+      const subscription = await resolveSelectedSubscription(prisma, user);
+      if (!subscription) {
+        await ctx.reply("چارتی برای حذف پیدا نشد.", {
+          reply_markup: buildSubscriptionKeyboard(),
+        });
+        return;
+      }
+      await prisma.chartSubscription.delete({ where: { id: subscription.id } });
+      await ctx.reply(`🗑 چارت حذف شد: ${radarEndpointLabel(subscription.endpoint)}`, {
+        reply_markup: buildSubscriptionKeyboard(),
+      });
+    })
+  );
+
+  const listAlertRules = async (targetChatId: number) =>
+    prisma.alertRule.findMany({ where: { targetChatId }, orderBy: { createdAt: "asc" } });
+
+  bot.hears(
+    labels.alertRules,
+    safeHandler(async (ctx: BotContext) => {
+      const user = await ensureUser(ctx, prisma);
+      ctx.session.step = null;
+      if (!user?.selectedTargetId) {
+        await ctx.reply("اول مقصد رو انتخاب کن 🎯", {
+          reply_markup: buildMainKeyboard(),
+        });
+        return;
+      }
+      const rules = await listAlertRules(user.selectedTargetId);
+      const lines = rules.length
+        ? rules.map((rule, index) => formatAlertRuleLine(index + 1, rule))
+        : ["هنوز قانون هشداری برای این مقصد ثبت نشده."];
+      await ctx.reply(["📏 قوانین هشدار این مقصد:", ...lines].join("\n"), {
+        reply_markup: buildAlertRuleKeyboard(),
+      });
+    })
+  );
+
+  bot.hears(
+    labels.addAlertRule,
+    safeHandler(async (ctx: BotContext) => {
+      const user = await ensureUser(ctx, prisma);
+      if (!user?.selectedTargetId) {
+        await ctx.reply("اول مقصد رو انتخاب کن 🎯", {
+          reply_markup: buildMainKeyboard(),
+        });
+        return;
+      }
+      const subscription = await resolveSelectedSubscription(prisma, user);
+      if (!subscription) {
+        await ctx.reply("اول مقصد و چارت رو انتخاب کن 🎯", {
+          reply_markup: buildSubscriptionKeyboard(),
+        });
+        return;
+      }
+      const location = subscription.compareLocations[0];
+      ctx.session.step = "awaitingAlertRule";
+      await ctx.reply(
+        [
+          `قانون برای چارت «${radarEndpointLabel(subscription.endpoint)}»${location ? ` و فقط داده‌ی ${location}` : ""} ثبت می‌شه.`,
+          "فرمت: <برچسب> <value|rank> <|> <آستانه> [هیسترزیس]",
+          "مثال‌ها:",
+          "- IR value < 40 2",
+          "- IR rank > 10",
+        ].join("\n"),
+        { reply_markup: buildAlertRuleKeyboard() }
+      );
+    })
+  );
+
+  bot.hears(
+    labels.removeAlertRule,
+    safeHandler(async (ctx: BotContext) => {
+      const user = await ensureUser(ctx, prisma);
+      if (!user?.selectedTargetId) {
+        await ctx.reply("اول مقصد رو انتخاب کن 🎯", {
+          reply_markup: buildMainKeyboard(),
+        });
+        return;
+      }
+      const rules = await listAlertRules(user.selectedTargetId);
+      if (!rules.length) {
+        await ctx.reply("قانونی برای حذف پیدا نشد.", {
+          reply_markup: buildAlertRuleKeyboard(),
+        });
+        return;
+      }
+      ctx.session.step = "awaitingAlertRuleRemoval";
+      await ctx.reply(
+        [...rules.map((rule, index) => formatAlertRuleLine(index + 1, rule)), "شماره قانون رو برای حذف بفرست 🔢"].join(
+          "\n"
+        ),
+        { reply_markup: buildAlertRuleKeyboard() }
+      );
+    })
+  );
+
+  bot.hears(
+    labels.back,
+    safeHandler(async (ctx: BotContext) => {
+      ctx.session.step = null;
+      await ctx.reply("منوی اصلی:", { reply_markup: buildMainKeyboard() });
+    })
+  );
+
+  bot.hears(
+    labels.setTargetLocation,
+    safeHandler(async (ctx: BotContext) => {
+      const user = await ensureUser(ctx, prisma);
+      if (!user?.selectedTargetId) {
+        await ctx.reply("اول مقصد رو انتخاب کن 🎯", {
+          reply_markup: buildMainKeyboard(),
+        });
+        return;
+      }
+      const target = await prisma.targetChat.findUnique({ where: { id: user.selectedTargetId } });
+      if (!target) {
+        await ctx.reply("مقصد پیدا نشد. دوباره انتخاب کن.", {
+          reply_markup: buildMainKeyboard(),
+        });
+        return;
+      }
+      ctx.session.step = "awaitingTargetLocation";
+      await ctx.reply(
+        [
+          `کشور فعلی: ${formatLocationTitle(target.location)}`,
+          "کد دوحرفی کشور رو بفرست (مثلاً IR یا TR)",
+          "برای دیتای جهانی «جهانی» رو بفرست 🌐",
+        ].join("\n"),
+        { reply_markup: buildMainKeyboard() }
+      );
+    })
+  );
+
+  bot.hears(
+    labels.setTargetTimezone,
+    safeHandler(async (ctx: BotContext) => {
+      const user = await ensureUser(ctx, prisma);
+      if (!user?.selectedTargetId) {
+        await ctx.reply("اول مقصد رو انتخاب کن 🎯", {
+          reply_markup: buildMainKeyboard(),
+        });
+        return;
+      }
+      const target = await prisma.targetChat.findUnique({ where: { id: user.selectedTargetId } });
+      if (!target) {
+        await ctx.reply("مقصد پیدا نشد. دوباره انتخاب کن.", {
+          reply_markup: buildMainKeyboard(),
+        });
+        return;
+      }
+      ctx.session.step = "awaitingTargetTimezone";
+      await ctx.reply(
+        [
+          `منطقه زمانی فعلی: ${target.timezone ?? "پیش‌فرض"}`,
+          "نام منطقه زمانی رو بفرست (مثلاً Asia/Tehran یا UTC) 🕒",
+        ].join("\n"),
+        { reply_markup: buildMainKeyboard() }
+      );
+    })
+  );
+
+  bot.hears(
+    labels.help,
+    safeHandler(async (ctx: BotContext) => {
+      await ensureUser(ctx, prisma);
+      ctx.session.step = null;
+      await showHelp(ctx);
+    })
+  );
+
+  bot.on(
+    "message",
+    safeHandler(async (ctx: BotContext) => {
+      const user = await ensureUser(ctx, prisma);
+      if (!user) {
+        return;
+      }
+
+      const message = ctx.message;
+      const forwardChat =
+        message && "forward_from_chat" in message
+          ? (message.forward_from_chat as ForwardedChat | undefined)
+          : undefined;
+      if (ctx.session.step === "awaitingTargetForward") {
+        if (!forwardChat) {
+          await ctx.reply("پیام فوروارد شده از کانال/گروه رو بفرست 📩", {
+            reply_markup: buildMainKeyboard(),
+          });
+          return;
+        }
+        const targetType = resolveTargetType(forwardChat.type);
+        if (!targetType) {
+          await ctx.reply("نوع مقصد پشتیبانی نمی‌شه. دوباره تلاش کن.", {
+            reply_markup: buildMainKeyboard(),
+          });
+          return;
+        }
+        const target = await prisma.targetChat.upsert({
+          where: { chatId: BigInt(forwardChat.id) },
+          update: {
+            title: forwardChat.title ?? null,
+            type: targetType,
+          },
+          create: {
+            chatId: BigInt(forwardChat.id),
+            title: forwardChat.title ?? null,
+            type: targetType,
+            createdByUserId: user.id,
+          },
+        });
+        const subscription = await ensureDefaultSubscription(prisma, target.id);
+        ctx.session.step = null;
+        await ctx.reply(`✅ مقصد اضافه شد: ${target.title ?? "بدون عنوان"} — هر ${subscription.intervalMinutes} دقیقه`, {
+          reply_markup: buildMainKeyboard(),
+        });
+        return;
+      }
+
+      const text = message?.text?.trim();
+      if (!text) {
+        return;
+      }
+
+      if (ctx.session.step === "awaitingTargetSelection") {
+        const index = Number(text);
+        if (Number.isNaN(index) || index < 1) {
+          await ctx.reply("شماره نامعتبره. یک عدد معتبر بفرست.", {
+            reply_markup: buildMainKeyboard(),
+          });
+          return;
+        }
+        const targets = await getUserTargets(user.id, prisma);
+        const target = targets[index - 1];
+        if (!target) {
+          await ctx.reply("شماره مقصد پیدا نشد. دوباره تلاش کن.", {
+            reply_markup: buildMainKeyboard(),
+          });
+          return;
+        }
+        await prisma.user.update({
+          where: { id: user.id },
+          data: { selectedTargetId: target.id, selectedSubscriptionId: null },
+        });
+        ctx.session.step = null;
+        await ctx.reply(`🎯 مقصد انتخاب شد: ${target.title ?? "بدون عنوان"}`,
+          {
+            reply_markup: buildMainKeyboard(),
+          }
+        );
+        return;
+      }
+
+      if (ctx.session.step === "awaitingInterval") {
+        const minutes = parseIntervalMinutes(text);
+        if (!minutes || minutes < 3 || minutes > 1440) {
+          await ctx.reply("عدد نامعتبره. بازه باید بین 3 تا 1440 دقیقه باشه.", {
+            reply_markup: buildMainKeyboard(),
+          });
+          return;
+        }
+        if (!user.selectedTargetId) {
+          await ctx.reply("اول مقصد رو انتخاب کن 🎯", {
+            reply_markup: buildMainKeyboard(),
+          });
+          return;
+        }
+        const subscription =
+          (await resolveSelectedSubscription(prisma, user)) ?? (await ensureDefaultSubscription(prisma, user.selectedTargetId));
+        await prisma.chartSubscription.update({
+          where: { id: subscription.id },
+          data: { intervalMinutes: minutes },
+        });
+        ctx.session.step = null;
+        await ctx.reply(`بازه ارسال «${radarEndpointLabel(subscription.endpoint)}» شد ${minutes} دقیقه ✅`, {
+          reply_markup: buildMainKeyboard(),
+        });
+        return;
+      }
+
+      if (ctx.session.step === "awaitingRadarToken") {
+        if (text.startsWith("-")) {
+          const label = text.slice(1).trim();
+          const removed = label ? await removeRadarToken(prisma, user.id, label) : false;
+          ctx.session.step = null;
+          await ctx.reply(removed ? `توکن «${label}» حذف شد ✅` : "توکنی با این نام پیدا نشد.", {
+            reply_markup: buildMainKeyboard(),
+          });
+          return;
+        }
+        if (!isTokenEncryptionEnabled()) {
+          ctx.session.step = null;
+          const error = new TokenEncryptionError("TOKEN_ENCRYPTION_KEY is required to store tokens", "key_missing");
+          await ctx.reply(buildTokenEncryptionUserMessage(error), { reply_markup: buildMainKeyboard() });
+          return;
+        }
+        const parsed = parseRadarTokenInput(text);
+        if (!parsed || !isRadarTokenValidFormat(parsed.token)) {
+          await ctx.reply("فرمت توکن معتبر نیست. یک توکن صحیح ارسال کن.", {
+            reply_markup: buildMainKeyboard(),
+          });
+          return;
+        }
+        const existing = await findRadarTokenByLabel(prisma, user.id, parsed.label);
+        if (!existing && (await prisma.radarToken.count({ where: { userId: user.id } })) >= MAX_RADAR_TOKENS_PER_USER) {
+          await ctx.reply(`حداکثر ${MAX_RADAR_TOKENS_PER_USER} توکن می‌تونی ثبت کنی. اول یکی رو حذف کن.`, {
+            reply_markup: buildMainKeyboard(),
+          });
+          return;
+        }
+        await ctx.reply("در حال بررسی توکن با Cloudflare... ⏳");
+        const { verification, summary } = await verifyToken(parsed.token);
+        if (!isTokenUsable(verification)) {
+          await ctx.reply([summary, "توکن ذخیره نشد. یک توکن دیگه بفرست."].join("\n"), {
+            reply_markup: buildMainKeyboard(),
+          });
+          return;
+        }
+        await saveRadarToken(prisma, user.id, parsed.label, parsed.token, verification);
+        ctx.session.step = null;
+        await ctx.reply([`توکن Radar API «${parsed.label}» ذخیره شد ✅`, summary].join("\n"), {
+          reply_markup: buildMainKeyboard(),
+        });
+        return;
+      }
+
+      if (ctx.session.step === "awaitingTargetRadarToken") {
+        if (!user.selectedTargetId) {
+          ctx.session.step = null;
+          await ctx.reply("اول مقصد رو انتخاب کن 🎯", {
+            reply_markup: buildMainKeyboard(),
+          });
+          return;
+        }
+        const isAuto = ["خودکار", "auto", "-"].includes(text.toLowerCase());
+        const token = isAuto ? null : await findRadarTokenByLabel(prisma, user.id, text);
+        if (!isAuto && !token) {
+          await ctx.reply("توکنی با این نام پیدا نشد. نام توکن یا «خودکار» رو بفرست.", {
+            reply_markup: buildMainKeyboard(),
+          });
+          return;
+        }
+        await prisma.targetChat.update({
+          where: { id: user.selectedTargetId },
+          data: { radarTokenId: token?.id ?? null },
+        });
+        ctx.session.step = null;
+        await ctx.reply(`توکن مقصد شد: ${token?.label ?? "خودکار (چرخشی)"} ✅`, {
+          reply_markup: buildMainKeyboard(),
+        });
+        return;
+      }
+
+      if (ctx.session.step === "awaitingRadarMode") {
+        const mode = parseRadarMode(text);
+        if (!mode) {
+          await ctx.reply("مقدار نامعتبره. یکی از Public / Token / Auto رو بفرست.", {
+            reply_markup: buildMainKeyboard(),
+          });
           return;
         }
         await setRadarMode(prisma, mode, user.id);
@@ -506,18 +1335,405 @@ export const registerMenuHandlers = (bot: Bot<BotContext>, { prisma, sendNow, ru
       }
 
       if (ctx.session.step === "awaitingRadarDateRange") {
-        const preset = parseRadarDateRange(text);
-        if (!preset) {
+        const target = user.selectedTargetId
+          ? await prisma.targetChat.findUnique({ where: { id: user.selectedTargetId } })
+          : null;
+        const timezone = target?.timezone ?? defaultTimezone;
+        const parsed = parseRadarDateRangeInput(text, timezone);
+        if (!parsed) {
+          await ctx.reply("مقدار نامعتبره. یکی از گزینه‌های بازه زمانی یا یه بازه دلخواه مثل «1 تا 10 مهر» بفرست.", {
+            reply_markup: buildMainKeyboard(),
+          });
+          return;
+        }
+        if ("preset" in parsed) {
+          await setRadarDateRange(prisma, parsed.preset, user.id);
+          ctx.session.step = null;
+          await ctx.reply(`بازه زمانی شد: ${radarDateRangeLabel(parsed.preset)} ✅`, {
+            reply_markup: buildMainKeyboard(),
+          });
+          return;
+        }
+        const issue = parsed.customRange ? validateCustomRange(parsed.customRange) : null;
+        if (issue) {
+          await ctx.reply(customRangeIssueMessage(issue), { reply_markup: buildMainKeyboard() });
+          return;
+        }
+        ctx.session.step = null;
+        if (parsed.scope === "target") {
+          if (!target) {
+            await ctx.reply("اول مقصد رو انتخاب کن 🎯", {
+              reply_markup: buildMainKeyboard(),
+            });
+            return;
+          }
+          await setTargetCustomRange(prisma, target.id, parsed.customRange);
+          await ctx.reply(
+            parsed.customRange
+              ? `بازه زمانی مقصد شد: ${formatCustomRange(parsed.customRange, timezone)} ✅`
+              : "بازه زمانی مقصد برگشت به پیش‌فرض کاربر ✅",
+            { reply_markup: buildMainKeyboard() }
+          );
+          return;
+        }
+        await setRadarCustomRange(prisma, user.id, parsed.customRange);
+        await ctx.reply(`بازه زمانی شد: ${formatCustomRange(parsed.customRange, timezone)} ✅`, {
+          reply_markup: buildMainKeyboard(),
+        });
+        return;
+      }
+
+      if (ctx.session.step === "awaitingExport") {
+        const request = parseExportRequest(text);
+        if (!request) {
+          await ctx.reply("ورودی نامعتبره. مثلاً csv، json جدید یا csv 30 بفرست.", {
+            reply_markup: buildMainKeyboard(),
+          });
+          return;
+        }
+        ctx.session.step = null;
+        await exportData(ctx, user, request);
+        return;
+      }
+
+      if (ctx.session.step === "awaitingLabelLanguage") {
+        const parsed = parseLabelLanguageInput(text);
+        if (!parsed) {
+          await ctx.reply("مقدار نامعتبره. فارسی یا English بفرست.", {
+            reply_markup: buildMainKeyboard(),
+          });
+          return;
+        }
+        ctx.session.step = null;
+        if (parsed.scope === "user" && parsed.language) {
+          await setLabelLanguage(prisma, user.id, parsed.language);
+          await ctx.reply(`زبان برچسب‌ها شد: ${labelLanguageLabel(parsed.language)} ✅`, {
+            reply_markup: buildMainKeyboard(),
+          });
+          return;
+        }
+        if (!user.selectedTargetId) {
+          await ctx.reply("اول مقصد رو انتخاب کن 🎯", {
+            reply_markup: buildMainKeyboard(),
+          });
+          return;
+        }
+        await setTargetLabelLanguage(prisma, user.selectedTargetId, parsed.language);
+        await ctx.reply(`زبان برچسب‌های مقصد شد: ${labelLanguageLabel(parsed.language)} ✅`, {
+          reply_markup: buildMainKeyboard(),
+        });
+        return;
+      }
+
+      if (ctx.session.step === "awaitingSubscriptionEndpoint") {
+        const index = Number(text);
+        const option = Number.isInteger(index) ? RADAR_ENDPOINT_OPTIONS[index - 1] : undefined;
+        if (!option) {
+          await ctx.reply("شماره نامعتبره. یکی از شماره‌های لیست رو بفرست.", {
+            reply_markup: buildSubscriptionKeyboard(),
+          });
+          return;
+        }
+        if (!user.selectedTargetId) {
+          await ctx.reply("اول مقصد رو انتخاب کن 🎯", {
+            reply_markup: buildMainKeyboard(),
+          });
+          return;
+        }
+        const subscription = await createSubscription(prisma, user.selectedTargetId, option.endpoint);
+        await prisma.user.update({
+          where: { id: user.id },
+          data: { selectedSubscriptionId: subscription.id },
+        });
+        ctx.session.step = null;
+        await ctx.reply(`✅ چارت اضافه شد: ${option.label} — هر ${subscription.intervalMinutes} دقیقه`, {
+          reply_markup: buildSubscriptionKeyboard(),
+        });
+        return;
+      }
+
+      if (ctx.session.step === "awaitingSubscriptionSelection") {
+        const index = Number(text);
+        if (!user.selectedTargetId || Number.isNaN(index) || index < 1) {
+          await ctx.reply("شماره نامعتبره. یک عدد معتبر بفرست.", {
+            reply_markup: buildSubscriptionKeyboard(),
+          });
+          return;
+        }
+        const subscriptions = await listTargetSubscriptions(prisma, user.selectedTargetId);
+        const subscription = subscriptions[index - 1];
+        if (!subscription) {
+          await ctx.reply("شماره چارت پیدا نشد. دوباره تلاش کن.", {
+            reply_markup: buildSubscriptionKeyboard(),
+          });
+          return;
+        }
+        await prisma.user.update({
+          where: { id: user.id },
+          data: { selectedSubscriptionId: subscription.id },
+        });
+        ctx.session.step = null;
+        await ctx.reply(`🔢 چارت انتخاب شد: ${radarEndpointLabel(subscription.endpoint)}`, {
+          reply_markup: buildSubscriptionKeyboard(),
+        });
+        return;
+      }
+
+      if (ctx.session.step === "awaitingSubscriptionDateRange") {
+        const subscription = await resolveSelectedSubscription(prisma, user);
+        if (!subscription) {
+          ctx.session.step = null;
+          await ctx.reply("اول مقصد و چارت رو انتخاب کن 🎯", {
+            reply_markup: buildSubscriptionKeyboard(),
+          });
+          return;
+        }
+        const useDefault = text.includes(SUBSCRIPTION_DEFAULT_RANGE_LABEL);
+        const preset = useDefault ? null : parseRadarDateRange(text);
+        if (!useDefault && !preset) {
           await ctx.reply("مقدار نامعتبره. یکی از گزینه‌های بازه زمانی رو بفرست.", {
+            reply_markup: buildSubscriptionKeyboard(),
+          });
+          return;
+        }
+        await prisma.chartSubscription.update({
+          where: { id: subscription.id },
+          data: { dateRange: preset },
+        });
+        ctx.session.step = null;
+        await ctx.reply(
+          `بازه زمانی «${radarEndpointLabel(subscription.endpoint)}» شد: ${
+            preset ? radarDateRangeLabel(preset) : SUBSCRIPTION_DEFAULT_RANGE_LABEL
+          } ✅`,
+          { reply_markup: buildSubscriptionKeyboard() }
+        );
+        return;
+      }
+
+      if (ctx.session.step === "awaitingTargetLocation") {
+        const parsed = parseLocationInput(text);
+        if (!parsed) {
+          await ctx.reply("کد کشور نامعتبره. یک کد دوحرفی مثل IR بفرست یا «جهانی».", {
+            reply_markup: buildMainKeyboard(),
+          });
+          return;
+        }
+        if (!user.selectedTargetId) {
+          ctx.session.step = null;
+          await ctx.reply("اول مقصد رو انتخاب کن 🎯", {
+            reply_markup: buildMainKeyboard(),
+          });
+          return;
+        }
+        await prisma.targetChat.update({
+          where: { id: user.selectedTargetId },
+          data: { location: parsed.location },
+        });
+        ctx.session.step = null;
+        await ctx.reply(`کشور مقصد شد: ${formatLocationTitle(parsed.location)} ✅`, {
+          reply_markup: buildMainKeyboard(),
+        });
+        return;
+      }
+
+      if (ctx.session.step === "awaitingTargetTimezone") {
+        if (!isValidTimezone(text)) {
+          await ctx.reply("منطقه زمانی نامعتبره. مثلاً Asia/Tehran بفرست.", {
+            reply_markup: buildMainKeyboard(),
+          });
+          return;
+        }
+        if (!user.selectedTargetId) {
+          ctx.session.step = null;
+          await ctx.reply("اول مقصد رو انتخاب کن 🎯", {
             reply_markup: buildMainKeyboard(),
           });
           return;
         }
-        await setRadarDateRange(prisma, preset, user.id);
+        await prisma.targetChat.update({
+          where: { id: user.selectedTargetId },
+          data: { timezone: text },
+        });
         ctx.session.step = null;
-        await ctx.reply(`بازه زمانی شد: ${radarDateRangeLabel(preset)} ✅`, {
+        await ctx.reply(`منطقه زمانی مقصد شد: ${text} ✅`, {
           reply_markup: buildMainKeyboard(),
         });
+        return;
+      }
+
+      if (ctx.session.step === "awaitingAlertRule") {
+        if (!user.selectedTargetId) {
+          ctx.session.step = null;
+          await ctx.reply("اول مقصد رو انتخاب کن 🎯", {
+            reply_markup: buildMainKeyboard(),
+          });
+          return;
+        }
+        const definition = parseAlertRuleInput(text);
+        if (!definition) {
+          await ctx.reply("قانون نامعتبره. مثلاً «IR value < 40» یا «IR rank > 10» بفرست.", {
+            reply_markup: buildAlertRuleKeyboard(),
+          });
+          return;
+        }
+        const subscription = await resolveSelectedSubscription(prisma, user);
+        if (!subscription) {
+          ctx.session.step = null;
+          await ctx.reply("اول مقصد و چارت رو انتخاب کن 🎯", {
+            reply_markup: buildSubscriptionKeyboard(),
+          });
+          return;
+        }
+        if (validateAlertRuleForEndpoint(definition, resolveRadarEndpoint(subscription.endpoint))) {
+          await ctx.reply("این چارت سری زمانیه و رتبه نداره؛ برای این چارت فقط قانون value بفرست.", {
+            reply_markup: buildAlertRuleKeyboard(),
+          });
+          return;
+        }
+        const rule = await prisma.alertRule.create({
+          data: {
+            ...definition,
+            targetChatId: user.selectedTargetId,
+            subscriptionId: subscription.id,
+            endpoint: subscription.endpoint,
+            location: subscription.compareLocations[0] ?? null,
+          },
+        });
+        ctx.session.step = null;
+        const location = rule.location ? ` (${rule.location})` : "";
+        await ctx.reply(`قانون ثبت شد ✅\n${radarEndpointLabel(rule.endpoint)}${location} — ${formatAlertRule(rule)}`, {
+          reply_markup: buildAlertRuleKeyboard(),
+        });
+        return;
+      }
+
+      if (ctx.session.step === "awaitingAlertRuleRemoval") {
+        const index = Number(text);
+        if (!user.selectedTargetId || !Number.isInteger(index) || index < 1) {
+          await ctx.reply("شماره نامعتبره. یک عدد معتبر بفرست.", {
+            reply_markup: buildAlertRuleKeyboard(),
+          });
+          return;
+        }
+        const rules = await listAlertRules(user.selectedTargetId);
+        const rule = rules[index - 1];
+        if (!rule) {
+          await ctx.reply("شماره قانون پیدا نشد. دوباره تلاش کن.", {
+            reply_markup: buildAlertRuleKeyboard(),
+          });
+          return;
+        }
+        await prisma.alertRule.delete({ where: { id: rule.id } });
+        ctx.session.step = null;
+        await ctx.reply(`🗑 قانون حذف شد: ${formatAlertRule(rule)}`, {
+          reply_markup: buildAlertRuleKeyboard(),
+        });
+        return;
+      }
+
+      if (ctx.session.step === "awaitingCompareLocations") {
+        const subscription = await resolveSelectedSubscription(prisma, user);
+        if (!subscription) {
+          ctx.session.step = null;
+          await ctx.reply("اول مقصد و چارت رو انتخاب کن 🎯", {
+            reply_markup: buildSubscriptionKeyboard(),
+          });
+          return;
+        }
+        const locations = text.trim() === "-" ? [] : parseCompareLocations(text);
+        if (!locations) {
+          await ctx.reply("ورودی نامعتبره. ۲ تا ۵ کد کشور دوحرفی مثل IR TR بفرست.", {
+            reply_markup: buildSubscriptionKeyboard(),
+          });
+          return;
+        }
+        if (hasConflictingComparisons({ ...subscription, compareLocations: locations })) {
+          ctx.session.step = null;
+          await ctx.reply("برای این چارت مقایسه با دوره قبل فعاله؛ اول با 🔁 غیرفعالش کن و بعد کشورها رو بفرست.", {
+            reply_markup: buildSubscriptionKeyboard(),
+          });
+          return;
+        }
+        await prisma.chartSubscription.update({
+          where: { id: subscription.id },
+          data: { compareLocations: locations },
+        });
+        ctx.session.step = null;
+        await ctx.reply(
+          locations.length
+            ? `مقایسه کشورها برای «${radarEndpointLabel(subscription.endpoint)}»: ${locations
+                .map((location) => formatLocationTitle(location))
+                .join("، ")} ✅`
+            : "مقایسه کشورها غیرفعال شد ⛔",
+          { reply_markup: buildSubscriptionKeyboard() }
+        );
+        return;
+      }
+
+      if (ctx.session.step === "awaitingSubscriptionTrend") {
+        const subscription = await resolveSelectedSubscription(prisma, user);
+        if (!subscription) {
+          ctx.session.step = null;
+          await ctx.reply("اول مقصد و چارت رو انتخاب کن 🎯", {
+            reply_markup: buildSubscriptionKeyboard(),
+          });
+          return;
+        }
+        if (text.trim() === "-") {
+          await prisma.chartSubscription.update({ where: { id: subscription.id }, data: { trendLabel: null } });
+          ctx.session.step = null;
+          await ctx.reply("روند تاریخی غیرفعال شد ⛔", { reply_markup: buildSubscriptionKeyboard() });
+          return;
+        }
+        const definition = parseTrendInput(text);
+        if (!definition) {
+          await ctx.reply("ورودی نامعتبره. مثلاً IR rank 90 یا mobile value 180 week بفرست.", {
+            reply_markup: buildSubscriptionKeyboard(),
+          });
+          return;
+        }
+        await prisma.chartSubscription.update({
+          where: { id: subscription.id },
+          data: {
+            trendLabel: definition.label,
+            trendMetric: definition.metric,
+            trendDays: definition.days,
+            trendBucket: definition.bucket,
+          },
+        });
+        ctx.session.step = null;
+        await ctx.reply(
+          `روند تاریخی برای «${radarEndpointLabel(subscription.endpoint)}»: ${formatTrendDefinition(definition)} ✅`,
+          { reply_markup: buildSubscriptionKeyboard() }
+        );
+        return;
+      }
+
+      if (ctx.session.step === "awaitingChartStyle") {
+        const subscription = await resolveSelectedSubscription(prisma, user);
+        if (!subscription) {
+          ctx.session.step = null;
+          await ctx.reply("اول مقصد و چارت رو انتخاب کن 🎯", {
+            reply_markup: buildSubscriptionKeyboard(),
+          });
+          return;
+        }
+        const choice = parseChartStyleInput(text);
+        if (!choice) {
+          await ctx.reply("ورودی نامعتبره. مثلاً map، map europe یا bar بفرست.", {
+            reply_markup: buildSubscriptionKeyboard(),
+          });
+          return;
+        }
+        const updated = await prisma.chartSubscription.update({
+          where: { id: subscription.id },
+          data: choice.style === "MAP" ? { chartStyle: "MAP", mapRegion: choice.region } : { chartStyle: "BAR" },
+        });
+        ctx.session.step = null;
+        await ctx.reply(
+          `نمایش «${radarEndpointLabel(subscription.endpoint)}»: ${formatChartStyle(updated.chartStyle, updated.mapRegion)} ✅`,
+          { reply_markup: buildSubscriptionKeyboard() }
+        );
       }
     })
   );
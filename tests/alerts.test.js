@@ -0,0 +1,97 @@
+import { test } from "node:test";
+import assert from "node:assert/strict";
+import {
+  evaluateAlertRule,
+  parseAlertRuleInput,
+  selectAlertRuleData,
+  validateAlertRuleForEndpoint,
+} from "../dist/alerts/rules.js";
+import { RADAR_ENDPOINTS } from "../dist/radar/endpoints.js";
+
+const buildData = (labels, values, kind = "category") => ({
+  kind,
+  labels,
+  values,
+  source: "public",
+  endpoint: "/http/top/locations/http_protocol/HTTPS",
+  endpointName: "trafficCountries",
+  params: {},
+  dateRangePreset: "D7",
+  label: "Top Countries",
+});
+
+test("alert rule input parses value and rank rules", () => {
+  assert.deepEqual(parseAlertRuleInput("ir value < 40 2"), {
+    label: "IR",
+    metric: "VALUE",
+    operator: "LT",
+    threshold: 40,
+    hysteresis: 2,
+  });
+  assert.equal(parseAlertRuleInput("IR rank > 10").metric, "RANK");
+  assert.equal(parseAlertRuleInput("IR rank > 2.5"), null);
+  assert.equal(parseAlertRuleInput("IR value = 40"), null);
+});
+
+test("alert rule trips and clears with hysteresis", () => {
+  const rule = { label: "IR", metric: "VALUE", operator: "LT", threshold: 40, hysteresis: 2, isTripped: false };
+  const tripped = evaluateAlertRule(rule, buildData(["IR"], [39]));
+  assert.equal(tripped.transition, "tripped");
+
+  const held = evaluateAlertRule({ ...rule, isTripped: true }, buildData(["IR"], [41]));
+  assert.equal(held.transition, null);
+  assert.equal(held.isTripped, true);
+
+  const cleared = evaluateAlertRule({ ...rule, isTripped: true }, buildData(["IR"], [42]));
+  assert.equal(cleared.transition, "cleared");
+});
+
+test("rank rule trips when label drops out of the list", () => {
+  const rule = { label: "IR", metric: "RANK", operator: "GT", threshold: 10, hysteresis: 0, isTripped: false };
+  const evaluation = evaluateAlertRule(rule, buildData(["US", "DE"], [50, 20]));
+  assert.equal(evaluation.transition, "tripped");
+  assert.equal(evaluation.value, Number.POSITIVE_INFINITY);
+});
+
+test("country rules match alpha-2 codes in real top-locations payloads and name labels", () => {
+  const result = {
+    top_0: [
+      { clientCountryAlpha2: "US", clientCountryName: "United States", value: "31.2" },
+      { clientCountryAlpha2: "DE", clientCountryName: "Germany", value: "8.4" },
+      { clientCountryAlpha2: "IR", clientCountryName: "Iran", value: "3.1" },
+    ],
+  };
+  const parsed = RADAR_ENDPOINTS.trafficCountries.parseResponse(result, { limit: 10 });
+  const data = { ...buildData([], []), ...parsed };
+  const rule = parseAlertRuleInput("IR rank > 10");
+  const evaluation = evaluateAlertRule({ ...rule, isTripped: false }, data);
+  assert.equal(evaluation.value, 3);
+  assert.equal(evaluation.transition, null);
+
+  const byName = evaluateAlertRule({ ...rule, isTripped: false }, buildData(["United States", "Iran"], [31.2, 3.1]));
+  assert.equal(byName.value, 2);
+});
+
+test("rank rules are rejected on timeseries endpoints", () => {
+  const rank = parseAlertRuleInput("IR rank > 10");
+  const value = parseAlertRuleInput("IR value < 40");
+  assert.equal(validateAlertRuleForEndpoint(rank, RADAR_ENDPOINTS.httpTimeseries), "rank_on_timeseries");
+  assert.equal(validateAlertRuleForEndpoint(value, RADAR_ENDPOINTS.httpTimeseries), null);
+  assert.equal(validateAlertRuleForEndpoint(rank, RADAR_ENDPOINTS.trafficCountries), null);
+});
+
+test("alert rules only evaluate the current data of their own location", () => {
+  const withLocation = (location, window, value) => ({
+    ...buildData(["Android"], [value]),
+    params: { location },
+    window,
+  });
+  const datasets = [
+    withLocation("IR", "current", 30),
+    withLocation("IR", "previous", 90),
+    withLocation("TR", "current", 70),
+  ];
+  assert.equal(selectAlertRuleData({ location: "tr" }, datasets)?.values[0], 70);
+  assert.equal(selectAlertRuleData({ location: null }, datasets)?.values[0], 30);
+  assert.equal(selectAlertRuleData({ location: "DE" }, datasets), null);
+});
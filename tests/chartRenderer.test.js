@@ -0,0 +1,142 @@
+import { test, mock } from "node:test";
+import assert from "node:assert/strict";
+import axios from "axios";
+import { mkdtemp, rm } from "node:fs/promises";
+import os from "node:os";
+import path from "node:path";
+import {
+  configureChartRenderer,
+  getChartRendererStatus,
+  registerChartRenderer,
+  renderChart,
+} from "../dist/radar/chartRenderer.js";
+import { buildChartSvg, buildMapClasses, buildValueScale } from "../dist/radar/localRenderer.js";
+import { quickChartRenderer } from "../dist/radar/quickchartRenderer.js";
+import { canRenderAsMap } from "../dist/radar/generate.js";
+import { parseChartStyleInput } from "../dist/radar/worldMap.js";
+
+const PNG_SIGNATURE = Buffer.from([0x89, 0x50, 0x4e, 0x47, 0x0d, 0x0a, 0x1a, 0x0a]);
+
+const spec = {
+  type: "bar",
+  title: "Cloudflare Radar 🇮🇷 ایران <top>",
+  labels: ["🇺🇸 آمریکا", "AS & Co"],
+  datasets: [{ label: "Top", values: [60, 40], color: { border: "#f38020", fill: "#fbbf24", line: "#fde68a" }, fill: false }],
+  showLegend: false,
+  reverseY: false,
+  width: 640,
+  height: 360,
+};
+
+const mapSpec = {
+  ...spec,
+  type: "map",
+  labels: ["ایران", "ترکیه", "آلمان"],
+  datasets: [{ ...spec.datasets[0], values: [50, 30, 20] }],
+  width: 1000,
+  height: 560,
+  map: { region: "MIDDLE_EAST", codes: ["IR", "TR", "DE"], noDataLabel: "بدون داده" },
+};
+
+test("value scale uses rounded ticks and keeps zero for bars", () => {
+  assert.deepEqual(buildValueScale([12, 47], true), { min: 0, max: 50, ticks: [0, 10, 20, 30, 40, 50] });
+  const line = buildValueScale([0.42, 0.58], false);
+  assert.ok(line.min <= 0.42 && line.max >= 0.58 && line.min > 0);
+});
+
+test("local svg escapes text and draws one bar per value", () => {
+  const svg = buildChartSvg(spec);
+  assert.match(svg, /AS &amp; Co/);
+  assert.match(svg, /&lt;top&gt;/);
+  assert.equal((svg.match(/<rect [^>]*stroke="#f38020"/g) ?? []).length, 2);
+});
+
+test("quickchart failures fall back to the local renderer", async () => {
+  registerChartRenderer({
+    name: "quickchart",
+    supports: ["bar", "line"],
+    render: async () => {
+      throw new Error("quickchart unreachable");
+    },
+  });
+  configureChartRenderer({ renderer: "quickchart", fallbackToLocal: true });
+  try {
+    const result = await renderChart(spec);
+    assert.equal(result.renderer, "local");
+    assert.deepEqual(result.buffer.subarray(0, 8), PNG_SIGNATURE);
+    assert.equal(getChartRendererStatus().lastUsed, "local");
+
+    configureChartRenderer({ fallbackToLocal: false });
+    await assert.rejects(() => renderChart(spec), /quickchart unreachable/);
+  } finally {
+    registerChartRenderer(quickChartRenderer);
+    configureChartRenderer({ fallbackToLocal: true });
+  }
+});
+
+test("quickchart fixtures are keyed on the full request body", async () => {
+  const dir = await mkdtemp(path.join(os.tmpdir(), "quickchart-fixtures-"));
+  const mocked = mock.method(axios, "post", async () => ({
+    status: 200,
+    headers: { "content-type": "image/png" },
+    data: PNG_SIGNATURE,
+  }));
+  const options = { quickchartUrl: "https://quickchart.example.com/chart", quickchartTimeoutMs: 1000 };
+  try {
+    process.env.RADAR_FIXTURES_DIR = dir;
+    process.env.RADAR_FIXTURES_MODE = "record";
+    await quickChartRenderer.render(spec, options);
+
+    process.env.RADAR_FIXTURES_MODE = "replay";
+    const replayed = await quickChartRenderer.render(spec, options);
+    assert.deepEqual(replayed, PNG_SIGNATURE);
+    await assert.rejects(
+      () => quickChartRenderer.render({ ...spec, title: "Another title" }, options),
+      (error) => error.code === "FIXTURE_MISSING"
+    );
+    assert.equal(mocked.mock.calls.length, 1);
+  } finally {
+    delete process.env.RADAR_FIXTURES_MODE;
+    delete process.env.RADAR_FIXTURES_DIR;
+    mocked.mock.restore();
+    await rm(dir, { recursive: true, force: true });
+  }
+});
+
+test("map classes split values into quantiles", () => {
+  const classes = buildMapClasses([1, 2, 3, 4, 5, 6, 7, 8, 9, 10]);
+  assert.equal(classes.length, 5);
+  assert.equal(classes[0].min, 1);
+  assert.equal(classes[4].max, 10);
+  assert.equal(buildMapClasses([5, 5, 5]).length, 1);
+});
+
+test("map svg colors countries by value and lists missing data", () => {
+  const svg = buildChartSvg(mapSpec);
+  const classes = buildMapClasses([50, 30, 20]);
+  assert.ok(svg.includes(`fill="${classes[classes.length - 1].color}" stroke="#ffffff"`));
+  assert.match(svg, /بدون داده/);
+  assert.match(svg, /ایران/);
+});
+
+test("map charts always use a renderer that supports them", async () => {
+  configureChartRenderer({ renderer: "quickchart", fallbackToLocal: false });
+  try {
+    const result = await renderChart(mapSpec);
+    assert.equal(result.renderer, "local");
+    assert.deepEqual(result.buffer.subarray(0, 8), PNG_SIGNATURE);
+  } finally {
+    configureChartRenderer({ fallbackToLocal: true });
+  }
+});
+
+test("map style applies only to country rankings and parses regions", () => {
+  assert.equal(canRenderAsMap({ kind: "category", labelType: "country" }), true);
+  assert.equal(canRenderAsMap({ kind: "category", labelType: "text" }), false);
+  assert.equal(canRenderAsMap({ kind: "timeseries", labelType: "country" }), false);
+  assert.deepEqual(parseChartStyleInput("map"), { style: "MAP", region: "WORLD" });
+  assert.deepEqual(parseChartStyleInput("نقشه خاورمیانه"), { style: "MAP", region: "MIDDLE_EAST" });
+  assert.deepEqual(parseChartStyleInput("map middle east"), { style: "MAP", region: "MIDDLE_EAST" });
+  assert.deepEqual(parseChartStyleInput("bar"), { style: "BAR" });
+  assert.equal(parseChartStyleInput("map mars"), null);
+});
@@ -0,0 +1,87 @@
+import { test } from "node:test";
+import assert from "node:assert/strict";
+import {
+  alignPreviousValues,
+  buildComparisonChanges,
+  formatChangePct,
+  formatComparisonLines,
+} from "../dist/radar/compare.js";
+import { buildMultiLocationSeries, mergeLocationResults, parseCompareLocations } from "../dist/radar/multiLocation.js";
+import { countryName, localizeCountryLabel } from "../dist/radar/countries.js";
+
+const buildData = (labels, values, kind = "category") => ({
+  kind,
+  labels,
+  values,
+  source: "public",
+  endpoint: "/http/top/locations/http_protocol/HTTPS",
+  endpointName: "trafficCountries",
+  params: {},
+  dateRangePreset: "D7",
+  label: "Top Countries",
+});
+
+test("comparison aligns category values by label", () => {
+  const current = buildData(["IR", "TR"], [50, 20]);
+  const previous = buildData(["TR", "AE"], [25, 10]);
+  const aligned = alignPreviousValues(current, previous);
+  assert.deepEqual(aligned, [null, 25]);
+
+  const changes = buildComparisonChanges(current, aligned);
+  assert.equal(changes[0].changePct, null);
+  assert.equal(changes[1].changePct, -20);
+  assert.equal(formatChangePct(changes[1].changePct), "▼ -20.0%");
+});
+
+test("comparison summarizes timeseries by average", () => {
+  const current = buildData(["a", "b"], [30, 30], "timeseries");
+  const aligned = alignPreviousValues(current, buildData(["x", "y"], [10, 30], "timeseries"));
+  const [change] = buildComparisonChanges(current, aligned);
+  assert.equal(change.label, "avg");
+  assert.equal(change.changePct, 50);
+});
+
+test("multi-location merge aligns series by label and timestamp", () => {
+  const merged = mergeLocationResults(
+    ["IR", "TR"],
+    [buildData(["mobile", "desktop"], [60, 40]), buildData(["desktop", "other"], [70, 5])]
+  );
+  assert.deepEqual(merged.labels, ["mobile", "desktop", "other"]);
+  assert.deepEqual(merged.datasets[0].values, [60, 40, null]);
+  assert.deepEqual(merged.datasets[1].values, [null, 70, 5]);
+
+  const timeseries = mergeLocationResults(
+    ["IR", "TR"],
+    [
+      buildData(["2024-01-01T01:00:00Z"], [2], "timeseries"),
+      buildData(["2024-01-01T00:00:00Z", "2024-01-01T01:00:00Z"], [1, 3], "timeseries"),
+    ]
+  );
+  assert.deepEqual(timeseries.labels, ["2024-01-01T00:00:00Z", "2024-01-01T01:00:00Z"]);
+  assert.deepEqual(timeseries.datasets[0].values, [null, 2]);
+});
+
+test("multi-location input requires two to five known country codes", () => {
+  assert.deepEqual(parseCompareLocations("ir, tr،AE"), ["IR", "TR", "AE"]);
+  assert.equal(parseCompareLocations("IR"), null);
+  assert.equal(parseCompareLocations("IR ZZ"), null);
+  assert.equal(parseCompareLocations("IR TR AE DE FR GB"), null);
+});
+
+test("country labels localize to Persian or English with flags", () => {
+  assert.equal(localizeCountryLabel("IR", "fa"), "🇮🇷 ایران");
+  assert.equal(localizeCountryLabel("DE", "en"), "🇩🇪 Germany");
+  assert.equal(localizeCountryLabel("IPv4", "fa"), "IPv4");
+  assert.equal(countryName(null, "fa"), "جهانی");
+
+  const merged = mergeLocationResults(["IR", "TR"], [buildData(["a"], [1]), buildData(["a"], [2])]);
+  assert.deepEqual(
+    buildMultiLocationSeries(merged, "fa").datasets.map((dataset) => dataset.label),
+    ["🇮🇷 ایران", "🇹🇷 ترکیه"]
+  );
+
+  const changes = buildComparisonChanges(buildData(["IR"], [50]), [25]);
+  assert.deepEqual(formatComparisonLines(changes, (label) => localizeCountryLabel(label, "fa")), [
+    "🇮🇷 ایران: ▲ +100.0%",
+  ]);
+});
@@ -0,0 +1,68 @@
+import { test } from "node:test";
+import assert from "node:assert/strict";
+import { parseCustomRangeInput } from "../dist/radar/customRange.js";
+import {
+  parseStoredCustomRange,
+  rangePresetToApiParams,
+  serializeCustomRange,
+  validateCustomRange,
+} from "../dist/radar/dateRange.js";
+import { buildEndpointParams, DEFAULT_RADAR_ENDPOINT, RadarConfigError } from "../dist/radar/endpoints.js";
+
+const now = new Date("2024-10-18T10:00:00Z");
+
+test("custom ranges accept Jalali month names and fill the current Jalali year", () => {
+  const tehran = parseCustomRangeInput("۱ تا ۱۰ مهر", { timezone: "Asia/Tehran", now });
+  assert.equal(tehran.since.toISOString(), "2024-09-21T20:30:00.000Z");
+  assert.equal(tehran.until.toISOString(), "2024-10-01T20:30:00.000Z");
+
+  const utc = parseCustomRangeInput("1 mehr 1403 to 10 aban 1403", { timezone: "UTC", now });
+  assert.equal(utc.since.toISOString(), "2024-09-22T00:00:00.000Z");
+  assert.equal(utc.until.toISOString(), "2024-11-01T00:00:00.000Z");
+
+  const lastYear = parseCustomRangeInput("1 تا 10 دی", { timezone: "UTC", now });
+  assert.equal(lastYear.since.toISOString(), "2023-12-22T00:00:00.000Z");
+  assert.equal(parseCustomRangeInput("31 تا 31 مهر", { timezone: "UTC", now }), null);
+});
+
+test("custom ranges accept Gregorian dates and relative durations", () => {
+  const gregorian = parseCustomRangeInput("2024-09-01 تا 2024-09-30", { timezone: "UTC", now });
+  assert.equal(gregorian.since.toISOString(), "2024-09-01T00:00:00.000Z");
+  assert.equal(gregorian.until.toISOString(), "2024-10-01T00:00:00.000Z");
+
+  const hours = 60 * 60 * 1000;
+  assert.deepEqual(parseCustomRangeInput("last 36 hours", { timezone: "UTC" }), { kind: "relative", durationMs: 36 * hours });
+  assert.deepEqual(parseCustomRangeInput("۳۶ ساعت اخیر", { timezone: "UTC" }), { kind: "relative", durationMs: 36 * hours });
+  assert.equal(parseCustomRangeInput("هفته پیش", { timezone: "UTC" }), null);
+});
+
+test("custom ranges are validated against the Radar window and round-trip through storage", () => {
+  const tooLong = { kind: "absolute", since: new Date("2023-01-01T00:00:00Z"), until: new Date("2024-06-01T00:00:00Z") };
+  assert.equal(validateCustomRange(tooLong, now), "too_long");
+  assert.equal(validateCustomRange({ kind: "relative", durationMs: 60 * 1000 }, now), "too_short");
+  assert.equal(
+    validateCustomRange({ kind: "absolute", since: new Date("2024-11-01T00:00:00Z"), until: new Date("2024-11-02T00:00:00Z") }, now),
+    "future"
+  );
+
+  const relative = { kind: "relative", durationMs: 36 * 60 * 60 * 1000 };
+  assert.deepEqual(parseStoredCustomRange(serializeCustomRange(relative)), relative);
+  assert.equal(parseStoredCustomRange("garbage"), null);
+});
+
+test("rangePresetToApiParams passes custom ranges as since/until with an equal previous window", () => {
+  const range = { kind: "relative", durationMs: 36 * 60 * 60 * 1000 };
+  const params = rangePresetToApiParams("D7", now, range);
+  assert.deepEqual(params.primary, { since: "2024-10-16T22:00:00.000Z", until: "2024-10-18T10:00:00.000Z" });
+  assert.equal(params.fallback, undefined);
+  assert.deepEqual(params.previous.primary, { since: "2024-10-15T10:00:00.000Z", until: "2024-10-16T22:00:00.000Z" });
+
+  assert.throws(
+    () => buildEndpointParams({ since: "2023-01-01T00:00:00Z", until: "2024-06-01T00:00:00Z" }, DEFAULT_RADAR_ENDPOINT),
+    RadarConfigError
+  );
+  assert.throws(
+    () => buildEndpointParams({ since: "2024-06-01T00:00:00Z", until: "2024-05-01T00:00:00Z" }, DEFAULT_RADAR_ENDPOINT),
+    RadarConfigError
+  );
+});
@@ -0,0 +1,48 @@
+import { test } from "node:test";
+import assert from "node:assert/strict";
+import { buildRadarCsv, buildRadarExport, parseExportRequest } from "../dist/radar/export.js";
+
+const record = {
+  fetchedAt: new Date("2024-05-01T12:00:00Z"),
+  data: {
+    kind: "category",
+    labelType: "text",
+    labels: ["AS, Inc \"one\"", "AS2"],
+    values: [60.5, 39.5],
+    source: "token",
+    endpoint: "/http/top/ases",
+    endpointName: "topAses",
+    params: { dateRange: "7d", limit: 10, location: "IR" },
+    dateRangePreset: "D7",
+    label: "Top ASes",
+    window: "current",
+  },
+};
+
+test("export requests pick last chart, fresh data or history days", () => {
+  assert.deepEqual(parseExportRequest("CSV"), { format: "csv", scope: "last" });
+  assert.deepEqual(parseExportRequest("json جدید"), { format: "json", scope: "fresh" });
+  assert.deepEqual(parseExportRequest("csv 30"), { format: "csv", scope: "history", days: 30 });
+  assert.equal(parseExportRequest("csv 0"), null);
+  assert.equal(parseExportRequest("xml"), null);
+});
+
+test("csv export has one escaped row per label with source and range metadata", () => {
+  const lines = buildRadarCsv([record]).replace(/^\uFEFF/, "").trim().split("\n");
+  assert.equal(lines.length, 3);
+  assert.ok(lines[0].startsWith("fetched_at,endpoint,path,source,location,date_range_preset"));
+  assert.ok(lines[1].startsWith("2024-05-01T12:00:00.000Z,topAses,/http/top/ases,token,IR,D7,current,7d,,,"));
+  assert.ok(lines[1].endsWith(',category,1,"AS, Inc ""one""",60.5'));
+  assert.ok(lines[2].endsWith(",category,2,AS2,39.5"));
+});
+
+test("json export keeps params and points per dataset", () => {
+  const exportedAt = new Date("2024-05-02T08:30:00Z");
+  const { content, filename } = buildRadarExport([record], "json", exportedAt);
+  const parsed = JSON.parse(content);
+  assert.equal(filename, "radar-20240502-083000.json");
+  assert.equal(parsed.count, 1);
+  assert.deepEqual(parsed.datasets[0].params, record.data.params);
+  assert.equal(parsed.datasets[0].source, "token");
+  assert.deepEqual(parsed.datasets[0].points[1], { label: "AS2", value: 39.5 });
+});
@@ -1,10 +1,29 @@
 import { test, mock } from "node:test";
 import assert from "node:assert/strict";
 import axios from "axios";
+import { mkdtemp, rm } from "node:fs/promises";
+import os from "node:os";
+import path from "node:path";
 import { buildEndpointParams, DEFAULT_RADAR_ENDPOINT, RadarConfigError } from "../dist/radar/endpoints.js";
-import { fetchRadarData, RadarFetchError } from "../dist/radar/fetch.js";
-import { requestRadar } from "../dist/radar/client.js";
+import { fetchRadarData, radarResponseCache, RadarFetchError } from "../dist/radar/fetch.js";
+import { fetchRadarComparison } from "../dist/radar/compare.js";
+import {
+  buildRadarUrl,
+  computeRetryDelayMs,
+  configureRadarBaseUrls,
+  RADAR_BASE_URL,
+  RadarRouteInvalidError,
+  requestRadar,
+} from "../dist/radar/client.js";
 import { rangePresetToApiParams } from "../dist/radar/dateRange.js";
+import { formatAnnotationAlert, parseRadarAnnotation } from "../dist/radar/annotations.js";
+import { normalizeFixtureUrl } from "../dist/radar/fixtures.js";
+import { buildRadarCacheKey, createTtlCache } from "../dist/radar/cache.js";
+import { createRateLimiter } from "../dist/radar/rateLimiter.js";
+import { buildTokenVerifyUrl, formatTokenVerification, verifyRadarToken } from "../dist/radar/tokenVerify.js";
+import { listPublicContracts, resetPublicContracts } from "../dist/radar/publicContract.js";
+import { orderRadarTokenCandidates, parseRadarTokenInput } from "../dist/db/radarTokens.js";
+import { recordRadarSnapshots } from "../dist/db/snapshots.js";
 
 const buildConfig = () => ({
   mode: "auto",
@@ -21,6 +40,7 @@ test("buildEndpointParams throws on empty dateRange", () => {
 });
 
 test("auto mode falls back to public on 400", async () => {
+  resetPublicContracts();
   const calls = [];
   const mocked = mock.method(axios, "get", async (_url, options) => {
     calls.push(options);
@@ -34,7 +54,7 @@ test("auto mode falls back to public on 400", async () => {
       status: 200,
       data: {
         success: true,
-        result: [{ name: "IR", value: 10 }],
+        result: { top_0: [{ clientCountryAlpha2: "IR", clientCountryName: "Iran", value: "10" }] },
       },
     };
   });
@@ -42,12 +62,17 @@ test("auto mode falls back to public on 400", async () => {
   const result = await fetchRadarData({ limit: 5 }, buildConfig());
 
   assert.equal(result.source, "public");
-  assert.equal(calls.length, 2);
+  // token request, public contract probe, public request
+  assert.equal(calls.length, 3);
+  assert.ok(calls[0].headers?.Authorization);
+  assert.ok(!calls[2].headers?.Authorization);
 
   mocked.mock.restore();
+  resetPublicContracts();
 });
 
 test("auto mode falls back to public on 429", async () => {
+  resetPublicContracts();
   const calls = [];
   const mocked = mock.method(axios, "get", async (_url, options) => {
     calls.push(options);
@@ -61,7 +86,7 @@ test("auto mode falls back to public on 429", async () => {
       status: 200,
       data: {
         success: true,
-        result: [{ name: "IR", value: 10 }],
+        result: { top_0: [{ clientCountryAlpha2: "IR", clientCountryName: "Iran", value: "10" }] },
       },
     };
   });
@@ -69,9 +94,13 @@ test("auto mode falls back to public on 429", async () => {
   const result = await fetchRadarData({ limit: 5 }, buildConfig());
 
   assert.equal(result.source, "public");
-  assert.equal(calls.length, 2);
+  // token request, public contract probe, public request
+  assert.equal(calls.length, 3);
+  assert.ok(calls[0].headers?.Authorization);
+  assert.ok(!calls[2].headers?.Authorization);
 
   mocked.mock.restore();
+  resetPublicContracts();
 });
 
 test("auto mode does not fall back on route invalid", async () => {
@@ -115,3 +144,529 @@ test("rangePresetToApiParams returns fallback for month presets", () => {
   assert.ok(result.primary.until);
   assert.equal(result.fallback.dateRange, "30d");
 });
+
+test("fetchRadarData accepts catalog endpoint names with summary results", async () => {
+  const urls = [];
+  const mocked = mock.method(axios, "get", async (url) => {
+    urls.push(url);
+    return {
+      status: 200,
+      data: {
+        success: true,
+        result: { summary_0: { IPv4: "72.5", IPv6: "27.5" }, meta: {} },
+      },
+    };
+  });
+
+  const result = await fetchRadarData({ location: "ir" }, { ...buildConfig(), mode: "token" }, "httpIpVersion");
+
+  assert.equal(result.endpointName, "httpIpVersion");
+  assert.deepEqual(result.labels, ["IPv4", "IPv6"]);
+  assert.deepEqual(result.values, [72.5, 27.5]);
+  assert.ok(urls[0].includes("/radar/http/summary/ip_version"));
+  assert.ok(urls[0].includes("location=IR"));
+  assert.ok(!urls[0].includes("limit="));
+
+  mocked.mock.restore();
+});
+
+test("fetched datasets are stored as snapshots tagged with location and range window", async () => {
+  const mocked = mock.method(axios, "get", async () => ({
+    status: 200,
+    data: { success: true, result: { summary_0: { IPv4: "60", IPv6: "40" }, meta: {} } },
+  }));
+  const result = await fetchRadarData({ location: "ir" }, { ...buildConfig(), mode: "token" }, "httpIpVersion", {
+    window: "previous",
+  });
+  mocked.mock.restore();
+
+  const rows = [];
+  const prisma = { radarSnapshot: { createMany: async ({ data }) => (rows.push(...data), { count: data.length }) } };
+  const fetchedAt = new Date("2024-05-01T00:00:00Z");
+  assert.equal(await recordRadarSnapshots(prisma, [result], fetchedAt), 1);
+  assert.equal(rows[0].endpoint, "httpIpVersion");
+  assert.equal(rows[0].location, "IR");
+  assert.equal(rows[0].rangeWindow, "previous");
+  assert.equal(rows[0].source, "token");
+  assert.deepEqual(rows[0].labels, ["IPv4", "IPv6"]);
+  assert.deepEqual(rows[0].values, [60, 40]);
+  assert.equal(rows[0].fetchedAt, fetchedAt);
+
+  const failing = { radarSnapshot: { createMany: async () => Promise.reject(new Error("db down")) } };
+  assert.equal(await recordRadarSnapshots(failing, [result]), 0);
+});
+
+test("buildEndpointParams rejects location on endpoints without it", () => {
+  assert.throws(
+    () => buildEndpointParams({ location: "IR" }, DEFAULT_RADAR_ENDPOINT),
+    (error) => error instanceof RadarConfigError
+  );
+});
+
+test("fetchRadarData applies config location only where the endpoint supports it", async () => {
+  const urls = [];
+  const mocked = mock.method(axios, "get", async (url) => {
+    urls.push(url);
+    const item = url.includes("/top/ases")
+      ? { clientASN: 1, clientASName: "AS1", value: "10" }
+      : { clientCountryAlpha2: "IR", clientCountryName: "Iran", value: "10" };
+    return {
+      status: 200,
+      data: { success: true, result: { top_0: [item] } },
+    };
+  });
+
+  const config = { ...buildConfig(), mode: "token", location: "ir" };
+  const scoped = await fetchRadarData({ limit: 5 }, config, "topAses");
+  const global = await fetchRadarData({ limit: 5 }, config);
+
+  assert.equal(scoped.params.location, "IR");
+  assert.ok(urls[0].includes("location=IR"));
+  assert.equal(global.params.location, undefined);
+  assert.ok(!urls[1].includes("location="));
+
+  mocked.mock.restore();
+});
+
+test("fetchRadarData parses timeseries endpoints", async () => {
+  const mocked = mock.method(axios, "get", async () => ({
+    status: 200,
+    data: {
+      success: true,
+      result: {
+        serie_0: {
+          timestamps: ["2024-04-01T00:00:00Z", "2024-04-01T01:00:00Z"],
+          values: ["0.5", "0.25"],
+        },
+        meta: { aggInterval: "1H" },
+      },
+    },
+  }));
+
+  const result = await fetchRadarData({}, { ...buildConfig(), mode: "token" }, "httpTimeseries");
+
+  assert.equal(result.kind, "timeseries");
+  assert.deepEqual(result.labels, ["2024-04-01T00:00:00.000Z", "2024-04-01T01:00:00.000Z"]);
+  assert.deepEqual(result.values, [0.5, 0.25]);
+  assert.equal(result.aggInterval, "1h");
+
+  mocked.mock.restore();
+});
+
+test("rangePresetToApiParams returns the previous window of the same length", () => {
+  const now = new Date("2024-04-15T00:00:00.000Z");
+  const days = rangePresetToApiParams("D7", now);
+  assert.equal(days.previous.primary.since, "2024-04-01T00:00:00.000Z");
+  assert.equal(days.previous.primary.until, "2024-04-08T00:00:00.000Z");
+  assert.equal(days.previous.fallback.dateRange, "7dControl");
+
+  const months = rangePresetToApiParams("M1", now);
+  assert.equal(months.primary.since, months.previous.primary.until);
+  assert.equal(months.previous.fallback.dateRange, "30dControl");
+});
+
+test("radar outage annotations parse locations and format alerts", () => {
+  const annotation = parseRadarAnnotation(
+    {
+      id: "742",
+      eventType: "OUTAGE",
+      description: "Government directed shutdown",
+      startDate: "2024-01-01T10:00:00Z",
+      locations: ["IR"],
+      locationsDetails: [{ code: "IR", name: "Iran" }],
+      asns: [58224],
+      outage: { outageCause: "GOVERNMENT_DIRECTED", outageType: "NATIONWIDE" },
+    },
+    "outage"
+  );
+  assert.deepEqual(annotation.locations, ["IR"]);
+  assert.equal(annotation.endDate, null);
+
+  const text = formatAnnotationAlert(annotation, ["IR"], "UTC");
+  assert.match(text, /🚨 اختلال اینترنت — 🇮🇷 Iran/);
+  assert.match(text, /نوع: NATIONWIDE \| علت: GOVERNMENT_DIRECTED/);
+  assert.match(text, /شروع: 01\/01\/2024 10:00/);
+  assert.match(text, /پایان: ادامه دارد/);
+});
+
+test("radar cache shares in-flight loads and keys by auth source", async () => {
+  const cache = createTtlCache(60_000);
+  let calls = 0;
+  const loader = async () => {
+    calls += 1;
+    return "payload";
+  };
+  const results = await Promise.all([cache.getOrLoad("a", loader), cache.getOrLoad("a", loader)]);
+  await cache.getOrLoad("a", loader);
+  assert.deepEqual(results, ["payload", "payload"]);
+  assert.equal(calls, 1);
+  assert.deepEqual(
+    { hits: cache.stats().hits, inFlightHits: cache.stats().inFlightHits, misses: cache.stats().misses },
+    { hits: 1, inFlightHits: 1, misses: 1 }
+  );
+
+  const key = buildRadarCacheKey("/path", { limit: 10, dateRange: "7d" }, "token", "token-a");
+  assert.equal(key, buildRadarCacheKey("/path", { dateRange: "7d", limit: 10 }, "token", "token-a"));
+  assert.notEqual(key, buildRadarCacheKey("/path", { dateRange: "7d", limit: 10 }, "token", "token-b"));
+  assert.notEqual(key, buildRadarCacheKey("/path", { dateRange: "7d", limit: 10 }, "public"));
+  assert.ok(!key.includes("token-a"));
+});
+
+test("requestRadar retries 5xx and honors Retry-After on 429", async () => {
+  const statuses = [503, 429, 200];
+  const mocked = mock.method(axios, "get", async () => {
+    const status = statuses.shift();
+    return {
+      status,
+      headers: status === 429 ? { "retry-after": "0" } : {},
+      data: status === 200 ? { success: true, result: {} } : { errors: [] },
+    };
+  });
+
+  const result = await requestRadar("/http/summary/device_type", { dateRange: "7d" }, "public", undefined, {
+    retry: { retryMax: 2, retryBaseDelayMs: 1 },
+  });
+  assert.equal(result.meta.status, 200);
+  assert.deepEqual(
+    result.meta.attempts.map((attempt) => attempt.status),
+    [503, 429, 200]
+  );
+  assert.equal(result.meta.attempts[1].retryDelayMs, 0);
+  assert.equal(mocked.mock.calls.length, 3);
+  mocked.mock.restore();
+});
+
+test("radar timeouts map to RADAR_TIMEOUT with attempts recorded", async () => {
+  const mocked = mock.method(axios, "get", async () => {
+    const error = new Error("timeout of 1000ms exceeded");
+    error.code = "ECONNABORTED";
+    throw error;
+  });
+
+  await assert.rejects(
+    () => fetchRadarData({ limit: 5 }, { ...buildConfig(), mode: "token", retry: { retryMax: 1, retryBaseDelayMs: 1 } }),
+    (error) => error instanceof RadarFetchError && error.code === "RADAR_TIMEOUT" && error.retryCount === 1
+  );
+  assert.equal(mocked.mock.calls.length, 2);
+  mocked.mock.restore();
+});
+
+test("retry delay grows exponentially and caps Retry-After", () => {
+  assert.equal(computeRetryDelayMs(1, 500, undefined, () => 0), 500);
+  assert.equal(computeRetryDelayMs(3, 500, undefined, () => 0.5), 2250);
+  assert.equal(computeRetryDelayMs(1, 500, "120"), 30_000);
+});
+
+test("rate limiter serves interactive calls before queued scheduled ones", async () => {
+  const limiter = createRateLimiter({ capacity: 1, refillPerMinute: 1200 });
+  const order = [];
+  await limiter.acquire("public", "scheduled");
+  const scheduled = limiter.acquire("public", "scheduled").then(() => order.push("scheduled"));
+  const interactive = limiter.acquire("public", "interactive").then(() => order.push("interactive"));
+  assert.deepEqual(limiter.snapshot()[0].queued, { interactive: 1, scheduled: 1 });
+  await Promise.all([scheduled, interactive]);
+  assert.deepEqual(order, ["interactive", "scheduled"]);
+
+  await limiter.acquire("token:abc");
+  assert.deepEqual(
+    limiter.snapshot().map((bucket) => bucket.key),
+    ["public", "token:abc"]
+  );
+});
+
+test("radar urls follow configured base urls per auth source", async () => {
+  assert.equal(
+    buildRadarUrl("/http/summary/device_type", { dateRange: "7d" }, "http://localhost:8787/mock/radar/"),
+    "http://localhost:8787/mock/radar/http/summary/device_type?dateRange=7d"
+  );
+  assert.throws(
+    () => buildRadarUrl("/../../admin", {}, "https://proxy.example.com/radar"),
+    (error) => error instanceof RadarRouteInvalidError
+  );
+
+  configureRadarBaseUrls({
+    publicBaseUrl: "https://public.example.com/radar",
+    tokenBaseUrl: "https://token.example.com/client/v4/radar",
+  });
+  const urls = [];
+  const mocked = mock.method(axios, "get", async (url) => {
+    urls.push(url);
+    return { status: 200, data: { success: true, result: {} } };
+  });
+  try {
+    await requestRadar("/annotations", {}, "public");
+    await requestRadar("/annotations", {}, "token", "test-token-123456789012345");
+  } finally {
+    mocked.mock.restore();
+    configureRadarBaseUrls({ publicBaseUrl: RADAR_BASE_URL, tokenBaseUrl: RADAR_BASE_URL });
+  }
+  assert.deepEqual(urls, [
+    "https://public.example.com/radar/annotations",
+    "https://token.example.com/client/v4/radar/annotations",
+  ]);
+});
+
+test("fixtures record radar responses and replay them offline", async () => {
+  const dir = await mkdtemp(path.join(os.tmpdir(), "radar-fixtures-"));
+  const mocked = mock.method(axios, "get", async () => ({
+    status: 200,
+    headers: { "content-type": "application/json" },
+    data: { success: true, result: { annotations: [] } },
+  }));
+  try {
+    process.env.RADAR_FIXTURES_DIR = dir;
+    process.env.RADAR_FIXTURES_MODE = "record";
+    const since = new Date(Date.now() - 2 * 60 * 60 * 1000).toISOString();
+    const recorded = await requestRadar("/annotations", { since }, "public");
+
+    process.env.RADAR_FIXTURES_MODE = "replay";
+    const replayed = await requestRadar("/annotations", { since: new Date(Date.now() - 2 * 60 * 60 * 1000).toISOString() }, "public");
+    assert.deepEqual(replayed.data, recorded.data);
+    assert.equal(mocked.mock.calls.length, 1);
+
+    await assert.rejects(
+      () => requestRadar("/annotations/outages", {}, "public"),
+      (error) => error.name === "RadarTransportError" && /No recorded radar fixture/.test(error.message)
+    );
+  } finally {
+    delete process.env.RADAR_FIXTURES_MODE;
+    delete process.env.RADAR_FIXTURES_DIR;
+    mocked.mock.restore();
+    await rm(dir, { recursive: true, force: true });
+  }
+});
+
+test("fixture keys keep absolute custom ranges and only normalize relative windows", () => {
+  const now = Date.parse("2024-05-10T12:00:00Z");
+  const url = "https://api.example.com/radar/http/top?until=2024-05-10T10:00:00.000Z&since=2024-05-03T10:00:00.000Z";
+  assert.equal(
+    normalizeFixtureUrl(url, { now }),
+    "https://api.example.com/radar/http/top?since=now-170h&until=now-2h"
+  );
+  assert.equal(
+    decodeURIComponent(normalizeFixtureUrl(url, { now, absoluteRange: true })),
+    "https://api.example.com/radar/http/top?since=2024-05-03T10:00:00.000Z&until=2024-05-10T10:00:00.000Z"
+  );
+});
+
+test("token verification reports expiry and missing Radar permission", async () => {
+  const urls = [];
+  const expiresOn = new Date(Date.now() + 3 * 24 * 60 * 60 * 1000).toISOString();
+  const mocked = mock.method(axios, "get", async (url) => {
+    urls.push(url);
+    if (url.endsWith("/user/tokens/verify")) {
+      return { status: 200, data: { success: true, result: { id: "abc", status: "active", expires_on: expiresOn } } };
+    }
+    return { status: 403, data: { success: false, errors: [{ message: "Authentication error" }] } };
+  });
+  try {
+    const verification = await verifyRadarToken("test-token-123456789012345", { timeoutMs: 1000 });
+    assert.equal(verification.status, "no_radar_access");
+    assert.equal(verification.radarStatus, 403);
+    assert.equal(verification.expiresOn.toISOString(), expiresOn);
+    assert.equal(urls[0], "https://api.cloudflare.com/client/v4/user/tokens/verify");
+    assert.match(formatTokenVerification(verification, "UTC"), /دسترسی Radar Read نداره/);
+  } finally {
+    mocked.mock.restore();
+  }
+  assert.equal(buildTokenVerifyUrl("http://localhost:8787/proxy"), "http://localhost:8787/proxy/user/tokens/verify");
+});
+
+test("token mode fails over to the next token on 401 before giving up", async () => {
+  const authHeaders = [];
+  const mocked = mock.method(axios, "get", async (_url, options) => {
+    authHeaders.push(options.headers?.Authorization);
+    if (authHeaders.length === 1) {
+      return { status: 401, data: { errors: [{ message: "Unauthorized" }] } };
+    }
+    return { status: 200, data: { success: true, result: { top_0: [{ clientCountryAlpha2: "IR", clientCountryName: "Iran", value: "10" }] } } };
+  });
+
+  const tokens = [
+    { label: "revoked", token: "revoked-token-1234567890123" },
+    { label: "backup", token: "backup-token-12345678901234" },
+  ];
+  const result = await fetchRadarData({ limit: 5 }, { ...buildConfig(), mode: "token", tokens });
+
+  assert.equal(result.source, "token");
+  assert.deepEqual(authHeaders, ["Bearer revoked-token-1234567890123", "Bearer backup-token-12345678901234"]);
+  mocked.mock.restore();
+});
+
+test("token candidates honour the pinned token, rotate by target and skip dead tokens", () => {
+  const tokens = [
+    { id: 1, label: "a", token: "token-a-12345678901234567890", status: "active" },
+    { id: 2, label: "b", token: "token-b-12345678901234567890", status: null },
+    { id: 3, label: "c", token: "token-c-12345678901234567890", status: "expired" },
+  ];
+  assert.deepEqual(
+    orderRadarTokenCandidates(tokens, { preferredTokenId: 2 }).map((item) => item.label),
+    ["b", "a"]
+  );
+  assert.deepEqual(
+    orderRadarTokenCandidates(tokens, { rotationSeed: 1, fallbackToken: "env-token-123456789012345" }).map(
+      (item) => item.label
+    ),
+    ["b", "a", "env"]
+  );
+  assert.deepEqual(parseRadarTokenInput("team-a abc"), { label: "team-a", token: "abc" });
+  assert.deepEqual(parseRadarTokenInput("abc"), { label: "default", token: "abc" });
+  assert.equal(parseRadarTokenInput("a b c"), null);
+});
+
+test("public contracts are cached per endpoint and re-probed after a 400", async () => {
+  resetPublicContracts();
+  let acceptsDateRange = true;
+  const urls = [];
+  const mocked = mock.method(axios, "get", async (url) => {
+    urls.push(url);
+    if (url.includes("dateRange=") !== acceptsDateRange) {
+      return { status: 400, data: { errors: [{ message: "since and until are required" }] } };
+    }
+    return { status: 200, data: { success: true, result: { top_0: [{ clientCountryAlpha2: "IR", clientCountryName: "Iran", value: "10" }] } } };
+  });
+  const config = { ...buildConfig(), mode: "public" };
+
+  await fetchRadarData({ limit: 5 }, config);
+  await fetchRadarData({ limit: 5 }, config);
+  assert.equal(urls.length, 3);
+  assert.equal(listPublicContracts()[0].paramMode, "dateRange");
+
+  acceptsDateRange = false;
+  const result = await fetchRadarData({ limit: 5 }, config);
+  assert.equal(result.source, "public");
+  assert.ok(urls.at(-1).includes("since="));
+  assert.deepEqual(
+    listPublicContracts().map((contract) => [contract.endpoint, contract.paramMode]),
+    [["trafficCountries", "sinceUntil"]]
+  );
+  mocked.mock.restore();
+  resetPublicContracts();
+});
+
+test("auto mode falls back from the token to a sinceUntil-only public contract", async () => {
+  resetPublicContracts();
+  const requests = [];
+  const mocked = mock.method(axios, "get", async (url, options) => {
+    const source = options.headers?.Authorization ? "token" : "public";
+    requests.push({ source, url });
+    if (source === "token") {
+      return { status: 403, data: { errors: [{ message: "Forbidden" }] } };
+    }
+    if (url.includes("dateRange=")) {
+      return { status: 400, data: { errors: [{ message: "since and until are required" }] } };
+    }
+    return { status: 200, data: { success: true, result: { top_0: [{ clientCountryAlpha2: "IR", clientCountryName: "Iran", value: "10" }] } } };
+  });
+  try {
+    const result = await fetchRadarData({ limit: 5 }, buildConfig());
+    assert.equal(result.source, "public");
+    const last = requests.at(-1);
+    assert.equal(last.source, "public");
+    assert.ok(last.url.includes("since="));
+    assert.ok(!last.url.includes("dateRange="));
+    assert.deepEqual(
+      listPublicContracts().map((contract) => [contract.endpoint, contract.paramMode]),
+      [["trafficCountries", "sinceUntil"]]
+    );
+  } finally {
+    mocked.mock.restore();
+    resetPublicContracts();
+  }
+});
+
+test("responses that drift from the endpoint schema raise RADAR_SCHEMA_MISMATCH with the path", async () => {
+  const mocked = mock.method(axios, "get", async () => ({
+    status: 200,
+    data: { success: true, result: { top_0: [{ countryCode: "IR", clientCountryName: "Iran", value: "10" }] } },
+  }));
+
+  await assert.rejects(
+    () => fetchRadarData({ limit: 5 }, { ...buildConfig(), mode: "token" }),
+    (error) =>
+      error instanceof RadarFetchError &&
+      error.code === "RADAR_SCHEMA_MISMATCH" &&
+      error.schemaPath === "result.top_0[0].clientCountryAlpha2"
+  );
+  mocked.mock.restore();
+});
+
+test("month and comparison windows a few ms apart share one cached request", async (t) => {
+  t.mock.timers.enable({ apis: ["Date"], now: Date.parse("2024-04-15T10:20:30.100Z") });
+  radarResponseCache.configure(60_000);
+  const urls = [];
+  const mocked = mock.method(axios, "get", async (url) => {
+    urls.push(url);
+    return {
+      status: 200,
+      data: { success: true, result: { top_0: [{ clientCountryAlpha2: "IR", clientCountryName: "Iran", value: "10" }] } },
+    };
+  });
+  try {
+    const config = { ...buildConfig(), dateRangePreset: "M1" };
+    await fetchRadarData({ limit: 5 }, config);
+    t.mock.timers.tick(7);
+    await fetchRadarData({ limit: 5 }, config);
+    assert.equal(urls.length, 1);
+    assert.ok(decodeURIComponent(urls[0]).includes("since=2024-03-15T10:20:00.000Z"));
+
+    await fetchRadarComparison({ limit: 5 }, { ...buildConfig(), dateRangePreset: "D7" });
+    t.mock.timers.tick(9);
+    await fetchRadarComparison({ limit: 5 }, { ...buildConfig(), dateRangePreset: "D7" });
+    assert.equal(urls.length, 3);
+  } finally {
+    mocked.mock.restore();
+    radarResponseCache.configure(0);
+    radarResponseCache.clear();
+  }
+});
+
+test("sinceUntil public contracts use minute-aligned windows that share the cache", async (t) => {
+  t.mock.timers.enable({ apis: ["Date"], now: Date.parse("2024-04-15T10:20:30.100Z") });
+  resetPublicContracts();
+  radarResponseCache.configure(60_000);
+  const urls = [];
+  const mocked = mock.method(axios, "get", async (url) => {
+    urls.push(decodeURIComponent(url));
+    if (url.includes("dateRange=")) {
+      return { status: 400, data: { errors: [{ message: "since and until are required" }] } };
+    }
+    return { status: 200, data: { success: true, result: { top_0: [{ clientCountryAlpha2: "IR", value: "10" }] } } };
+  });
+  try {
+    const config = { ...buildConfig(), mode: "public" };
+    await fetchRadarData({ limit: 5 }, config);
+    const requests = urls.length;
+    t.mock.timers.tick(7);
+    await fetchRadarData({ limit: 5 }, config);
+    assert.equal(urls.length, requests);
+    assert.ok(urls.at(-1).includes("since=2024-04-08T10:20:00.000Z"));
+    assert.ok(urls.at(-1).includes("until=2024-04-15T10:20:00.000Z"));
+  } finally {
+    mocked.mock.restore();
+    radarResponseCache.configure(0);
+    radarResponseCache.clear();
+    resetPublicContracts();
+  }
+});
+
+test("radar cache does not keep payloads with success false", async () => {
+  radarResponseCache.configure(60_000);
+  let calls = 0;
+  const mocked = mock.method(axios, "get", async () => {
+    calls += 1;
+    return calls === 1
+      ? { status: 200, data: { success: false, errors: [{ message: "temporarily unavailable" }] } }
+      : { status: 200, data: { success: true, result: { top_0: [{ clientCountryAlpha2: "IR", value: "10" }] } } };
+  });
+  try {
+    await assert.rejects(() => fetchRadarData({ limit: 5 }, { ...buildConfig(), mode: "token" }));
+    const result = await fetchRadarData({ limit: 5 }, { ...buildConfig(), mode: "token" });
+    assert.equal(result.values[0], 10);
+    assert.equal(calls, 2);
+  } finally {
+    mocked.mock.restore();
+    radarResponseCache.configure(0);
+    radarResponseCache.clear();
+  }
+});
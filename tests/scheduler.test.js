@@ -1,6 +1,12 @@
-import { test } from "node:test";
+import { test, mock } from "node:test";
 import assert from "node:assert/strict";
+import axios from "axios";
 import { getSchedulerBackoffMinutes } from "../dist/scheduler/backoff.js";
+import { collectFollowedLocations, runOutagePoll } from "../dist/scheduler/outages.js";
+import { shouldWarnTokenOwner } from "../dist/scheduler/tokenChecks.js";
+import { isSubscriptionDue, resolveSchedulerErrorCode } from "../dist/scheduler/tick.js";
+import { RadarConfigError } from "../dist/radar/endpoints.js";
+import { RadarFetchError } from "../dist/radar/fetch.js";
 
 test("scheduler backoff caps at 60 minutes", () => {
   assert.equal(getSchedulerBackoffMinutes(1), 10);
@@ -8,3 +14,158 @@ test("scheduler backoff caps at 60 minutes", () => {
   assert.equal(getSchedulerBackoffMinutes(5), 32);
   assert.equal(getSchedulerBackoffMinutes(8), 60);
 });
+
+test("outage alerts follow target and subscription locations", () => {
+  const locations = collectFollowedLocations({
+    location: "IR",
+    subscriptions: [
+      { location: "TR", compareLocations: [] },
+      { location: null, compareLocations: ["IR", "AE"] },
+    ],
+  });
+  assert.deepEqual(Array.from(locations).sort(), ["AE", "IR", "TR"]);
+});
+
+test("token owners are warned about expiring tokens at most once a day", () => {
+  const now = new Date("2024-01-10T00:00:00Z");
+  const expiring = { status: "active", expiresOn: new Date("2024-01-12T00:00:00Z") };
+  assert.equal(shouldWarnTokenOwner({ warnedAt: null }, expiring, now), true);
+  assert.equal(shouldWarnTokenOwner({ warnedAt: new Date("2024-01-09T12:00:00Z") }, expiring, now), false);
+  assert.equal(
+    shouldWarnTokenOwner({ warnedAt: null }, { status: "active", expiresOn: new Date("2024-03-01T00:00:00Z") }, now),
+    false
+  );
+  assert.equal(shouldWarnTokenOwner({ warnedAt: null }, { status: "expired", expiresOn: null }, now), true);
+});
+
+test("subscriptions are due by their own interval and wait for retries", () => {
+  const nowMs = Date.parse("2024-01-10T12:00:00Z");
+  const minutesAgo = (minutes) => new Date(nowMs - minutes * 60 * 1000);
+  assert.equal(isSubscriptionDue({ intervalMinutes: 60, lastSentAt: null, nextRetryAt: null }, nowMs), true);
+  assert.equal(isSubscriptionDue({ intervalMinutes: 60, lastSentAt: minutesAgo(59), nextRetryAt: null }, nowMs), false);
+  assert.equal(isSubscriptionDue({ intervalMinutes: 60, lastSentAt: minutesAgo(60), nextRetryAt: null }, nowMs), true);
+  assert.equal(isSubscriptionDue({ intervalMinutes: 15, lastSentAt: minutesAgo(20), nextRetryAt: null }, nowMs), true);
+  assert.equal(isSubscriptionDue({ intervalMinutes: 1, lastSentAt: minutesAgo(2), nextRetryAt: null }, nowMs), false);
+  assert.equal(
+    isSubscriptionDue({ intervalMinutes: 15, lastSentAt: minutesAgo(120), nextRetryAt: new Date(nowMs + 60_000) }, nowMs),
+    false
+  );
+  assert.equal(
+    isSubscriptionDue({ intervalMinutes: 15, lastSentAt: null, nextRetryAt: new Date(nowMs - 60_000) }, nowMs),
+    true
+  );
+});
+
+test("outage polls seed existing events first and retry failed deliveries", async () => {
+  const buildOutage = (id) => ({ id, eventType: "OUTAGE", startDate: "2024-01-01T10:00:00Z", locations: ["IR"] });
+  let outages = [];
+  const requests = [];
+  const mocked = mock.method(axios, "get", async (url, options) => {
+    requests.push(options);
+    return {
+      status: 200,
+      data: { success: true, result: { annotations: url.includes("/outages") ? outages : [] } },
+    };
+  });
+  const events = new Map();
+  let appSetting = null;
+  const prisma = {
+    appSetting: {
+      findUnique: async () => appSetting,
+      upsert: async ({ create, update }) => (appSetting = appSetting ? { ...appSetting, ...update } : { ...create }),
+    },
+    radarEvent: {
+      findMany: async ({ where }) => where.externalId.in.filter((id) => events.has(id)).map((id) => events.get(id)),
+      createMany: async ({ data }) => {
+        data.forEach((event) => events.set(event.externalId, { ...event }));
+        return { count: data.length };
+      },
+      update: async ({ where, data }) => Object.assign(events.get(where.externalId), data),
+    },
+    targetChat: {
+      findMany: async () => [
+        { id: 1, chatId: 100n, location: "IR", timezone: "UTC", subscriptions: [] },
+        { id: 2, chatId: 200n, location: null, timezone: "UTC", subscriptions: [{ location: "IR", compareLocations: [] }] },
+      ],
+    },
+  };
+  const sent = [];
+  let failChat = 100n;
+  const sender = {
+    sendTextToChat: async (chatId) => {
+      if (chatId === failChat) {
+        throw new Error("blocked");
+      }
+      sent.push(chatId);
+    },
+  };
+  const config = {
+    defaultTimezone: "UTC",
+    radar: { mode: "token", apiToken: null, httpTimeoutMs: 1000, retryMax: 0, retryBaseDelayMs: 1, outagePollMinutes: 0 },
+  };
+  const poll = () => runOutagePoll(prisma, config, sender, { isPolling: false, lastPollAt: null });
+
+  try {
+    await poll();
+    assert.ok(appSetting.outageEventsSeededAt);
+    assert.ok(requests.length > 0 && requests.every((options) => !options?.headers?.Authorization));
+
+    outages = [buildOutage("1")];
+    await poll();
+    assert.deepEqual(sent, [200n]);
+    assert.deepEqual(events.get("1").pendingTargetIds, [1]);
+
+    failChat = null;
+    outages = [buildOutage("1"), buildOutage("2")];
+    await poll();
+    assert.deepEqual(sent, [200n, 100n, 100n, 200n]);
+    assert.deepEqual(events.get("1").pendingTargetIds, []);
+    assert.deepEqual(events.get("2").pendingTargetIds, []);
+
+    await poll();
+    assert.equal(sent.length, 4);
+  } finally {
+    mocked.mock.restore();
+  }
+});
+
+test("the first poll with existing events only seeds them", async () => {
+  const mocked = mock.method(axios, "get", async () => ({
+    status: 200,
+    data: { success: true, result: { annotations: [{ id: "9", startDate: "2024-01-01T10:00:00Z", locations: ["IR"] }] } },
+  }));
+  const events = new Map();
+  let appSetting = null;
+  const prisma = {
+    appSetting: {
+      findUnique: async () => appSetting,
+      upsert: async ({ create }) => (appSetting = { ...create }),
+    },
+    radarEvent: {
+      findMany: async () => [],
+      createMany: async ({ data }) => (data.forEach((event) => events.set(event.externalId, event)), { count: data.length }),
+      update: async () => assert.fail("no alerts on the seeding poll"),
+    },
+    targetChat: { findMany: async () => [{ id: 1, chatId: 100n, location: "IR", timezone: "UTC", subscriptions: [] }] },
+  };
+  const config = {
+    defaultTimezone: "UTC",
+    radar: { mode: "public", apiToken: null, httpTimeoutMs: 1000, retryMax: 0, retryBaseDelayMs: 1, outagePollMinutes: 0 },
+  };
+  try {
+    await runOutagePoll(prisma, config, { sendTextToChat: async () => assert.fail("sent") }, { isPolling: false, lastPollAt: null });
+    assert.deepEqual(events.get("9").pendingTargetIds, []);
+    assert.ok(appSetting.outageEventsSeededAt);
+  } finally {
+    mocked.mock.restore();
+  }
+});
+
+test("scheduler error codes keep config errors apart from render failures", () => {
+  assert.equal(resolveSchedulerErrorCode(new RadarConfigError("Unknown Radar endpoint: nope")), "RADAR_CONFIG_ERROR");
+  assert.equal(
+    resolveSchedulerErrorCode(new RadarFetchError("RADAR_BAD_REQUEST", "bad", { endpoint: "/x", params: {} })),
+    "RADAR_BAD_REQUEST"
+  );
+  assert.equal(resolveSchedulerErrorCode(new Error("canvas exploded")), "CHART_RENDER_FAILED");
+});
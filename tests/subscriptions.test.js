@@ -0,0 +1,44 @@
+import { test } from "node:test";
+import assert from "node:assert/strict";
+import { hasConflictingComparisons, resolveSelectedSubscription } from "../dist/db/subscriptions.js";
+
+const subscriptions = [
+  { id: 1, targetChatId: 10, endpoint: "trafficCountries", createdAt: new Date("2024-01-01T00:00:00Z") },
+  { id: 2, targetChatId: 10, endpoint: "topAses", createdAt: new Date("2024-01-02T00:00:00Z") },
+  { id: 3, targetChatId: 20, endpoint: "trafficCountries", createdAt: new Date("2024-01-03T00:00:00Z") },
+];
+
+const prisma = {
+  chartSubscription: {
+    findUnique: async ({ where }) => subscriptions.find((item) => item.id === where.id) ?? null,
+    findFirst: async ({ where }) =>
+      subscriptions
+        .filter((item) => item.targetChatId === where.targetChatId)
+        .sort((a, b) => a.createdAt - b.createdAt)[0] ?? null,
+  },
+};
+
+test("selected subscription is used when it belongs to the selected target", async () => {
+  const selected = await resolveSelectedSubscription(prisma, { selectedTargetId: 10, selectedSubscriptionId: 2 });
+  assert.equal(selected.id, 2);
+});
+
+test("selection falls back to the oldest subscription of the selected target", async () => {
+  const otherTarget = await resolveSelectedSubscription(prisma, { selectedTargetId: 10, selectedSubscriptionId: 3 });
+  assert.equal(otherTarget.id, 1);
+  const missing = await resolveSelectedSubscription(prisma, { selectedTargetId: 20, selectedSubscriptionId: 99 });
+  assert.equal(missing.id, 3);
+  const none = await resolveSelectedSubscription(prisma, { selectedTargetId: 10, selectedSubscriptionId: null });
+  assert.equal(none.id, 1);
+  assert.equal(await resolveSelectedSubscription(prisma, { selectedTargetId: 30, selectedSubscriptionId: null }), null);
+});
+
+test("no subscription is resolved without a selected target", async () => {
+  assert.equal(await resolveSelectedSubscription(prisma, { selectedTargetId: null, selectedSubscriptionId: 1 }), null);
+});
+
+test("previous-period and country comparisons cannot be enabled together", () => {
+  assert.equal(hasConflictingComparisons({ comparePrevious: true, compareLocations: ["IR", "TR"] }), true);
+  assert.equal(hasConflictingComparisons({ comparePrevious: true, compareLocations: [] }), false);
+  assert.equal(hasConflictingComparisons({ comparePrevious: false, compareLocations: ["IR", "TR"] }), false);
+});
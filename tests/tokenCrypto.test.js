@@ -0,0 +1,75 @@
+import { test } from "node:test";
+import assert from "node:assert/strict";
+import { randomBytes } from "node:crypto";
+import {
+  buildTokenEncryptionUserMessage,
+  configureTokenEncryption,
+  decryptToken,
+  encryptToken,
+  getEncryptedTokenKeyId,
+  getTokenKeyId,
+  needsReencryption,
+  TokenEncryptionError,
+} from "../dist/db/tokenCrypto.js";
+
+const oldKey = randomBytes(32).toString("base64");
+const newKey = randomBytes(32).toString("base64");
+
+test("encrypted tokens round-trip and keep plaintext rows readable", () => {
+  configureTokenEncryption({ key: oldKey });
+  const stored = encryptToken("cf-token-123");
+  assert.ok(stored.startsWith("enc:v1:"));
+  assert.ok(!stored.includes("cf-token-123"));
+  assert.notEqual(encryptToken("cf-token-123"), stored);
+  assert.equal(decryptToken(stored), "cf-token-123");
+  assert.equal(decryptToken("legacy-plain"), "legacy-plain");
+  assert.equal(needsReencryption("legacy-plain"), true);
+  assert.equal(needsReencryption(stored), false);
+  configureTokenEncryption({ key: null });
+});
+
+test("rotation reads old-key tokens and rejects unknown or tampered ones", () => {
+  configureTokenEncryption({ key: oldKey });
+  const stored = encryptToken("cf-token-456");
+  const oldKeyId = getTokenKeyId();
+
+  configureTokenEncryption({ key: newKey });
+  assert.throws(() => decryptToken(stored), { code: "unknown_key" });
+
+  configureTokenEncryption({ key: newKey, previousKeys: [oldKey] });
+  assert.equal(decryptToken(stored), "cf-token-456");
+  assert.equal(needsReencryption(stored), true);
+  const rotated = encryptToken(decryptToken(stored));
+  assert.equal(getEncryptedTokenKeyId(rotated), getTokenKeyId());
+  assert.notEqual(getTokenKeyId(), oldKeyId);
+
+  const tampered = `${rotated.slice(0, -4)}AAAA`;
+  assert.throws(() => decryptToken(tampered), { code: "corrupted" });
+
+  configureTokenEncryption({ key: null });
+  assert.throws(() => decryptToken(rotated), { code: "key_missing" });
+  assert.throws(() => configureTokenEncryption({ key: "short" }), { code: "invalid_key" });
+});
+
+test("missing keys surface as a configuration error with a code", () => {
+  configureTokenEncryption({ key: oldKey });
+  const stored = encryptToken("cf-token-789");
+  configureTokenEncryption({ key: null });
+  assert.throws(
+    () => decryptToken(stored),
+    (error) => error instanceof TokenEncryptionError && error.code === "key_missing"
+  );
+  try {
+    decryptToken(stored);
+  } catch (error) {
+    assert.match(buildTokenEncryptionUserMessage(error), /TOKEN_ENCRYPTION_KEY.*TOKEN_KEY_MISSING/);
+  }
+});
+
+test("new tokens are not stored in plaintext when no key is configured", () => {
+  configureTokenEncryption({ key: null });
+  assert.throws(
+    () => encryptToken("cf-token-000"),
+    (error) => error instanceof TokenEncryptionError && error.code === "key_missing"
+  );
+});
@@ -0,0 +1,120 @@
+import { test } from "node:test";
+import assert from "node:assert/strict";
+import { buildTrendPoints, parseTrendInput, prepareTrendChart, RadarTrendError } from "../dist/radar/trend.js";
+
+const buildSnapshot = (fetchedAt, labels, values) => ({
+  id: 1,
+  endpoint: "trafficCountries",
+  path: "/http/top/locations/http_protocol/HTTPS",
+  location: null,
+  params: { dateRange: "7d", limit: 10 },
+  source: "public",
+  rangeWindow: "current",
+  dateRangePreset: "D7",
+  customRange: false,
+  kind: "category",
+  labelType: "country",
+  aggInterval: null,
+  labels,
+  values,
+  fetchedAt: new Date(fetchedAt),
+});
+
+test("trend input accepts label, metric, days and bucket in any order", () => {
+  assert.deepEqual(parseTrendInput("IR rank 90"), { label: "IR", metric: "RANK", days: 90, bucket: "DAY" });
+  assert.deepEqual(parseTrendInput("mobile هفتگی 180"), { label: "mobile", metric: "VALUE", days: 180, bucket: "WEEK" });
+  assert.equal(parseTrendInput("IR rank 3"), null);
+  assert.equal(parseTrendInput(""), null);
+});
+
+test("trend points average each bucket and leave gaps where the label is missing", () => {
+  const snapshots = [
+    buildSnapshot("2024-05-06T01:00:00Z", ["US", "IR"], [40, 10]),
+    buildSnapshot("2024-05-07T01:00:00Z", ["IR", "US"], [30, 20]),
+    buildSnapshot("2024-05-13T01:00:00Z", ["US", "DE"], [50, 5]),
+  ];
+  const daily = buildTrendPoints(snapshots, { label: "ir", metric: "RANK", bucket: "DAY" });
+  assert.deepEqual(daily.map((point) => point.value), [2, 1, null]);
+
+  const weekly = buildTrendPoints(snapshots, { label: "IR", metric: "VALUE", bucket: "WEEK" });
+  assert.deepEqual(
+    weekly.map((point) => [point.bucketStart.toISOString(), point.value, point.samples]),
+    [
+      ["2024-05-06T00:00:00.000Z", 20, 2],
+      ["2024-05-13T00:00:00.000Z", null, 1],
+    ]
+  );
+});
+
+test("trend charts are built from stored snapshots without calling Radar", async () => {
+  const queries = [];
+  const prisma = {
+    radarSnapshot: {
+      findMany: async (query) => {
+        queries.push(query);
+        return [
+          buildSnapshot("2024-05-06T01:00:00Z", ["US", "IR"], [40, 10]),
+          buildSnapshot("2024-05-07T01:00:00Z", ["IR", "US"], [30, 20]),
+        ];
+      },
+    },
+  };
+  const definition = { label: "IR", metric: "RANK", days: 90, bucket: "DAY" };
+  const now = new Date("2024-05-08T00:00:00Z");
+  const prepared = await prepareTrendChart(prisma, "trafficCountries", definition, "TR", "D7", "UTC", "fa", false, now);
+
+  assert.equal(queries[0].where.location, null);
+  assert.equal(queries[0].where.dateRangePreset, "D7");
+  assert.equal(queries[0].where.customRange, false);
+  assert.equal(queries[0].where.fetchedAt.gte.toISOString(), "2024-02-08T00:00:00.000Z");
+  assert.deepEqual(prepared.fetched, []);
+  assert.equal(prepared.series.invertYAxis, true);
+  assert.deepEqual(prepared.series.datasets[0].values, [2, 1]);
+  assert.equal(prepared.series.datasets[0].label, "🇮🇷 ایران");
+  assert.match(prepared.caption, /آخرین: #1/);
+
+  const empty = { radarSnapshot: { findMany: async () => [] } };
+  await assert.rejects(
+    () => prepareTrendChart(empty, "trafficCountries", definition, null, "D7", "UTC"),
+    (error) => error instanceof RadarTrendError && error.code === "TREND_NO_HISTORY"
+  );
+});
+
+test("trends on custom-range charts explain why there is no history", async () => {
+  const empty = { radarSnapshot: { findMany: async () => [] } };
+  const definition = { label: "IR", metric: "VALUE", days: 30, bucket: "DAY" };
+  await assert.rejects(
+    () => prepareTrendChart(empty, "trafficCountries", definition, null, "D7", "UTC", "en", true),
+    (error) => error instanceof RadarTrendError && error.code === "TREND_CUSTOM_RANGE"
+  );
+});
+
+test("trend labels match country codes against stored country names", () => {
+  const snapshots = [
+    buildSnapshot("2024-05-06T01:00:00Z", ["United States", "Iran"], [40, 10]),
+    buildSnapshot("2024-05-07T01:00:00Z", ["ایران", "آلمان"], [30, 5]),
+  ];
+  const points = buildTrendPoints(snapshots, { label: "IR", metric: "RANK", bucket: "DAY" });
+  assert.deepEqual(points.map((point) => point.value), [2, 1]);
+});
+
+test("trend points only use snapshots fetched with the same preset range", async () => {
+  const stored = [
+    { ...buildSnapshot("2024-05-06T01:00:00Z", ["IR", "US"], [30, 20]), dateRangePreset: "D1" },
+    { ...buildSnapshot("2024-05-06T02:00:00Z", ["US", "DE", "IR"], [40, 20, 5]), dateRangePreset: "Y1" },
+    { ...buildSnapshot("2024-05-06T03:00:00Z", ["US", "IR"], [40, 10]), dateRangePreset: "D1", customRange: true },
+    { ...buildSnapshot("2024-05-07T01:00:00Z", ["US", "IR"], [35, 25]), dateRangePreset: "D1" },
+  ];
+  const prisma = {
+    radarSnapshot: {
+      findMany: async ({ where }) =>
+        stored.filter(
+          (snapshot) => snapshot.dateRangePreset === where.dateRangePreset && snapshot.customRange === where.customRange
+        ),
+    },
+  };
+  const definition = { label: "IR", metric: "RANK", days: 30, bucket: "DAY" };
+  const now = new Date("2024-05-08T00:00:00Z");
+  const prepared = await prepareTrendChart(prisma, "trafficCountries", definition, null, "D1", "UTC", "en", false, now);
+  assert.deepEqual(prepared.series.datasets[0].values, [1, 2]);
+});